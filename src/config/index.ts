@@ -1,19 +1,93 @@
 import 'dotenv/config';
 
+export interface ApiClientConfig {
+  id: string;
+  /** Secret the client signs requests with */
+  secret: string;
+  /** Additional signing keys by id, selected with X-Key-Id (key rotation) */
+  keys?: Record<string, string>;
+  /** Secret used to sign callbacks sent to this client */
+  webhookSecret: string;
+  /** Where results go when a request does not name its own callbackUrl */
+  callbackUrl?: string;
+  /** Extra callback hosts/URL prefixes this client may use, on top of CALLBACK_URL_ALLOWLIST */
+  callbackAllowlist?: string[];
+}
+
+const legacySecret = process.env['audit-secret-key'] || process.env.API_KEY || process.env.API_SECRET_KEY || 'default-secret';
+const legacyWebhookSecret = process.env.WEBHOOK_SECRET || process.env.API_SECRET_KEY || process.env.API_KEY || 'default-secret';
+const legacyCallbackUrl = process.env.CALLBACK_URL || 'http://localhost:3000/api/audits/callback';
+
+// API_CLIENTS is a JSON array of ApiClientConfig; without it the legacy single-secret setup becomes client "default"
+function parseApiClients(): ApiClientConfig[] {
+  const raw = process.env.API_CLIENTS;
+  if (!raw) {
+    const keys = process.env.API_SIGNING_KEYS ? JSON.parse(process.env.API_SIGNING_KEYS) as Record<string, string> : {};
+    return [{ id: 'default', secret: legacySecret, keys, webhookSecret: legacyWebhookSecret, callbackUrl: legacyCallbackUrl }];
+  }
+
+  const parsed = JSON.parse(raw) as Array<Partial<ApiClientConfig>>;
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('API_CLIENTS must be a non-empty JSON array');
+  }
+  return parsed.map((c, i) => {
+    if (!c.id || !c.secret) throw new Error(`API_CLIENTS[${i}] needs an id and a secret`);
+    return {
+      id: c.id,
+      secret: c.secret,
+      keys: c.keys || {},
+      webhookSecret: c.webhookSecret || c.secret,
+      callbackUrl: c.callbackUrl,
+      callbackAllowlist: c.callbackAllowlist || [],
+    };
+  });
+}
+
 export const config = {
   port: parseInt(process.env.PORT || '8080'),
   nodeEnv: process.env.NODE_ENV || 'development',
   
   // Security - match Koyeb environment variable names
-  apiSecretKey: process.env['audit-secret-key'] || process.env.API_KEY || process.env.API_SECRET_KEY || 'default-secret',
-  webhookSecret: process.env.WEBHOOK_SECRET || process.env.API_SECRET_KEY || process.env.API_KEY || 'default-secret',
+  apiSecretKey: legacySecret,
+  webhookSecret: legacyWebhookSecret,
   apiKey: process.env.API_KEY || process.env.API_SECRET_KEY || 'default-api-key',
   
   // Callback
-  callbackUrl: process.env.CALLBACK_URL || 'http://localhost:3000/api/audits/callback',
+  callbackUrl: legacyCallbackUrl,
+  // Hosts (optionally `*.example.com`) or URL prefixes a request-supplied callbackUrl may point at
+  callbackAllowlist: (process.env.CALLBACK_URL_ALLOWLIST || '').split(',').map(s => s.trim()).filter(Boolean),
+
+  // Outbound URL safety (audits, crawls, URL-to-PDF). Entries: hosts, `*.domain`, IPs or CIDRs
+  urlSafety: {
+    // Reachable even when they resolve to private ranges (e.g. an internal staging site)
+    allowlist: (process.env.URL_ALLOWLIST || '').split(',').map(s => s.trim()).filter(Boolean),
+    // Never reachable
+    denylist: (process.env.URL_DENYLIST || '').split(',').map(s => s.trim()).filter(Boolean),
+  },
+
+  // Request signing
+  auth: {
+    maxClockSkewSeconds: parseInt(process.env.SIGNATURE_MAX_SKEW_SECONDS || '300'),
+    // Accept the old body-only signature without X-Timestamp (no replay protection) while clients migrate
+    allowLegacySignatures: process.env.ALLOW_LEGACY_SIGNATURES === 'true',
+  },
+
+  // Multi-client auth: each client has its own request secret, webhook secret and default callback
+  apiClients: parseApiClients(),
   
+  // Bearer token required by /metrics when set
+  metricsToken: process.env.METRICS_TOKEN || '',
+
   // PageSpeed Insights API
   pageSpeedApiKey: process.env.PAGESPEED_API_KEY || '',
+  pageSpeed: {
+    cacheTtlSeconds: parseInt(process.env.PSI_CACHE_TTL_SECONDS || '3600'),
+    cacheMaxEntries: parseInt(process.env.PSI_CACHE_MAX_ENTRIES || '500'),
+    // Client-side limits kept below the API's own quota (400 per 100s, 25k per day by default)
+    ratePerMinute: parseInt(process.env.PSI_RATE_PER_MINUTE || '120'),
+    dailyQuota: parseInt(process.env.PSI_DAILY_QUOTA || '25000'),
+    maxWaitMs: parseInt(process.env.PSI_MAX_WAIT_MS || '20000'), // longest an audit waits for a token before skipping PSI
+  },
   
   // Chrome/Puppeteer
   chromeExecutablePath: process.env.PUPPETEER_EXECUTABLE_PATH || process.env.CHROME_EXECUTABLE_PATH || '/usr/bin/google-chrome',
@@ -23,9 +97,59 @@ export const config = {
   maxConcurrentJobs: parseInt(process.env.MAX_CONCURRENT_JOBS || '3'),
   requestTimeout: parseInt(process.env.REQUEST_TIMEOUT || '300000'), // 5 minutes
   memoryLimit: parseInt(process.env.MEMORY_LIMIT || '512'), // MB
-  
+
+  // Scheduling
+  scheduler: {
+    jobMemoryEstimate: parseInt(process.env.JOB_MEMORY_ESTIMATE || '150'), // MB of Chrome memory per running audit
+    priorityAgingMs: parseInt(process.env.PRIORITY_AGING_MS || '60000'), // +1 effective priority per minute waited
+  },
+
+  // Optional <a href> validation (options.checkLinks), per audited page
+  linkCheck: {
+    maxLinks: parseInt(process.env.LINK_CHECK_MAX_LINKS || '100'),
+    concurrency: parseInt(process.env.LINK_CHECK_CONCURRENCY || '5'),
+    timeoutMs: parseInt(process.env.LINK_CHECK_TIMEOUT_MS || '10000'),
+    // Whole pass per page; added to the job watchdog when checkLinks is on
+    budgetMs: parseInt(process.env.LINK_CHECK_BUDGET_MS || '30000'),
+  },
+
+  // robots.txt and sitemap fetches, once per site; added to the job watchdog
+  sitemap: {
+    budgetMs: parseInt(process.env.SITEMAP_BUDGET_MS || '30000'),
+  },
+
+  // hreflang alternate fetches, per audited page; added to the job watchdog
+  hreflang: {
+    budgetMs: parseInt(process.env.HREFLANG_BUDGET_MS || '20000'),
+  },
+
+  // Crawl mode upper bounds (per request)
+  crawl: {
+    maxPages: parseInt(process.env.CRAWL_MAX_PAGES || '25'),
+    maxDepth: parseInt(process.env.CRAWL_MAX_DEPTH || '5'),
+  },
+
+  // Job persistence
+  jobStore: {
+    driver: (process.env.JOB_STORE_DRIVER || 'file') as 'file' | 'memory',
+    path: process.env.JOB_STORE_PATH || './data/jobs.jsonl',
+    retentionHours: parseInt(process.env.JOB_RETENTION_HOURS || '168'), // 7 days
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3'), // restarts survived while PROCESSING
+  },
+
+  // Callback delivery (outbox)
+  webhooks: {
+    logPath: process.env.WEBHOOK_LOG_PATH || './data/webhooks.jsonl',
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8'),
+    retryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '5000'),
+    retryMaxMs: parseInt(process.env.WEBHOOK_RETRY_MAX_MS || '3600000'), // 1 hour
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '15000'),
+  },
+
   // Lighthouse
   lighthouse: {
+    // Local Lighthouse runs fill pageSpeedMetrics when PSI is not requested or fails
+    enabled: process.env.LIGHTHOUSE_ENABLED !== 'false',
     settings: {
       maxWaitForFcp: 15 * 1000,
       maxWaitForLoad: 35 * 1000,
@@ -47,6 +171,28 @@ export const config = {
       },
       emulatedUserAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/98.0.4758.109 Safari/537.36'
     },
+    mobileSettings: {
+      maxWaitForFcp: 15 * 1000,
+      maxWaitForLoad: 35 * 1000,
+      formFactor: 'mobile' as const,
+      // Lighthouse's default "slow 4G" profile
+      throttling: {
+        rttMs: 150,
+        throughputKbps: 1.6 * 1024,
+        cpuSlowdownMultiplier: 4,
+        requestLatencyMs: 0,
+        downloadThroughputKbps: 0,
+        uploadThroughputKbps: 0
+      },
+      screenEmulation: {
+        mobile: true,
+        width: 412,
+        height: 823,
+        deviceScaleFactor: 1.75,
+        disabled: false
+      },
+      emulatedUserAgent: 'Mozilla/5.0 (Linux; Android 11; moto g power (2022)) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+    },
     config: {
       extends: 'lighthouse:default',
       settings: {
@@ -56,7 +202,6 @@ export const config = {
           'first-meaningful-paint',
           'speed-index',
           'total-blocking-time',
-          'max-potential-fid',
           'cumulative-layout-shift',
           'server-response-time',
           'interactive',
@@ -9,9 +9,10 @@ import { auditRouter } from './routes/audit.js';
 import { pdfRouter } from './routes/pdf.js';
 import { reportRouter } from './routes/report.js';
 import { healthRouter } from './routes/health.js';
+import { metricsRouter } from './routes/metrics.js';
 import previewRouter from './routes/preview.js';
 import { errorHandler } from './middleware/errorHandler.js';
-import { authMiddleware } from './middleware/auth.js';
+import { authMiddleware, type AuthenticatedRequest } from './middleware/auth.js';
 
 const app = express();
 
@@ -36,6 +37,9 @@ const limiter = rateLimit({
   legacyHeaders: false,
   // Skip function to handle proxy detection failures gracefully
   skip: (req) => {
+    // Prometheus scrapes on a fixed interval
+    if (req.path === '/metrics') return true;
+
     // If we can't determine the real IP, allow the request
     if (!req.ip || req.ip === '::1' || req.ip === '127.0.0.1') {
       console.warn(`[rate-limit] unable to determine real IP for request, allowing: ${req.ip}`);
@@ -64,7 +68,11 @@ app.use(limiter);
 
 // Body parsing and compression
 app.use(compression());
-app.use(express.json({ limit: '10mb' }));
+// Keep the exact bytes for signature verification
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, _res, buf) => { (req as AuthenticatedRequest).rawBody = buf; }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Logging
@@ -73,6 +81,9 @@ app.use(morgan(process.env.NODE_ENV === 'production' ? 'combined' : 'dev'));
 // Health check (no auth required)
 app.use('/health', healthRouter);
 
+// Prometheus metrics (optionally protected by METRICS_TOKEN)
+app.use('/metrics', metricsRouter);
+
 // Preview routes (auth middleware applied within routes)
 app.use('/api/preview', previewRouter);
 
@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import type { Response } from 'express';
+import { describe, expect, it, vi } from 'vitest';
+import { config } from '../config/index.js';
+import { authMiddleware, type AuthenticatedRequest } from './auth.js';
+
+const secret = config.apiClients.find(c => c.id === 'default')!.secret;
+
+function request(method: string, url: string, body = '', headers: Record<string, string> = {}) {
+  const timestamp = headers['x-timestamp'] ?? Math.floor(Date.now() / 1000).toString();
+  const nonce = headers['x-nonce'];
+  const payload = `${timestamp}.${nonce ? `${nonce}.` : ''}${method}.${url}.${body}`;
+  return {
+    method,
+    originalUrl: url,
+    rawBody: body ? Buffer.from(body) : undefined,
+    headers: {
+      'x-timestamp': timestamp,
+      'x-signature': `sha256=${crypto.createHmac('sha256', secret).update(payload).digest('hex')}`,
+      ...headers,
+    },
+  } as unknown as AuthenticatedRequest;
+}
+
+function run(req: AuthenticatedRequest) {
+  const res = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() };
+  const next = vi.fn();
+  authMiddleware(req, res as unknown as Response, next);
+  return { passed: next.mock.calls.length === 1, status: res.status.mock.calls[0]?.[0], error: res.json.mock.calls[0]?.[0]?.error };
+}
+
+describe('authMiddleware', () => {
+  it('accepts a signed request and records the client', () => {
+    const req = request('POST', '/api/audit/start', '{"url":"https://example.com"}', { 'x-nonce': crypto.randomUUID() });
+    expect(run(req).passed).toBe(true);
+    expect(req.clientId).toBe('default');
+  });
+
+  it('rejects a tampered body', () => {
+    const req = request('POST', '/api/audit/start', '{"url":"https://example.com"}');
+    req.rawBody = Buffer.from('{"url":"https://evil.example"}');
+    expect(run(req)).toMatchObject({ passed: false, status: 401, error: 'Invalid signature' });
+  });
+
+  it('rejects timestamps outside the skew window', () => {
+    const stale = Math.floor(Date.now() / 1000) - config.auth.maxClockSkewSeconds - 60;
+    const req = request('GET', '/api/audit/status/job-1', '', { 'x-timestamp': String(stale) });
+    expect(run(req)).toMatchObject({ passed: false, error: 'Request timestamp outside allowed window' });
+  });
+
+  it('rejects an exact resend', () => {
+    const req = request('POST', '/api/audit/start', '{"url":"https://example.com/replay"}');
+    expect(run(req).passed).toBe(true);
+    expect(run({ ...req } as AuthenticatedRequest)).toMatchObject({ passed: false, error: 'Replayed request' });
+  });
+
+  it('accepts different bodiless requests sent in the same second', () => {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    expect(run(request('GET', '/api/audit/status/job-a', '', { 'x-timestamp': timestamp })).passed).toBe(true);
+    expect(run(request('GET', '/api/audit/status/job-b', '', { 'x-timestamp': timestamp })).passed).toBe(true);
+  });
+
+  it('does not accept a signature on another method or path', () => {
+    const captured = request('GET', '/api/audit/status/job-c');
+    const onDelete = { ...captured, method: 'DELETE', originalUrl: '/api/audit/job-c' } as AuthenticatedRequest;
+    expect(run(onDelete)).toMatchObject({ passed: false, error: 'Invalid signature' });
+  });
+});
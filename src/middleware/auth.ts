@@ -1,37 +1,110 @@
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
 import { config } from '../config/index.js';
+import { getApiClient } from '../services/apiClients.js';
 
 export interface AuthenticatedRequest extends Request {
   isValidSignature?: boolean;
+  /** API client resolved from the X-Client-Id header ("default" when absent) */
+  clientId?: string;
+  /** Exact request bytes, captured by the express.json `verify` hook */
+  rawBody?: Buffer;
 }
 
+// Signatures seen inside the skew window. They cover the timestamp, any nonce,
+// the method and the path, so only an exact resend matches. In-memory, so per instance.
+const seenNonces = new Map<string, number>();
+let lastSweep = 0;
+
+function rememberNonce(key: string, now: number): boolean {
+  if (now - lastSweep > 60_000) {
+    lastSweep = now;
+    for (const [k, expires] of seenNonces) {
+      if (expires <= now) seenNonces.delete(k);
+    }
+  }
+  const expires = seenNonces.get(key);
+  if (expires && expires > now) return false;
+  // An entry only needs to outlive the window in which its timestamp is accepted
+  seenNonces.set(key, now + config.auth.maxClockSkewSeconds * 2 * 1000);
+  return true;
+}
+
+function sign(secret: string, payload: Buffer | string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(payload).digest('hex')}`;
+}
+
+function signatureMatches(expected: string, provided: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Verifies `X-Signature: sha256=<hex>` where the HMAC covers
+ * `<X-Timestamp>.<METHOD>.<path>.<raw request body>`, or
+ * `<X-Timestamp>.<X-Nonce>.<METHOD>.<path>.<raw request body>` when a nonce is
+ * sent. The path includes the query string. The timestamp (unix seconds) must be within the
+ * configured skew, and each signature is accepted once. `X-Key-Id` picks one
+ * of the client's rotation keys; without it the client's primary secret is used.
+ */
 export const authMiddleware = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const signature = req.headers['x-signature'] as string;
-  
+
   if (!signature) {
     return res.status(401).json({ error: 'Missing signature header' });
   }
-  
+
+  const client = getApiClient(req.headers['x-client-id'] as string | undefined);
+  if (!client) {
+    return res.status(401).json({ error: 'Unknown client' });
+  }
+
+  const keyId = req.headers['x-key-id'] as string | undefined;
+  const secret = keyId ? client.keys?.[keyId] : client.secret;
+  if (!secret) {
+    return res.status(401).json({ error: 'Unknown key id' });
+  }
+
+  const timestamp = req.headers['x-timestamp'] as string | undefined;
+
   // Verify HMAC signature
   try {
-    const body = JSON.stringify(req.body);
-    const expectedSignature = `sha256=${crypto
-      .createHmac('sha256', config.apiSecretKey)
-      .update(body)
-      .digest('hex')}`;
-    
-    if (!crypto.timingSafeEqual(
-      Buffer.from(expectedSignature),
-      Buffer.from(signature)
-    )) {
-      return res.status(401).json({ error: 'Invalid signature' });
+    if (!timestamp) {
+      // Pre-timestamp clients signed the re-serialized JSON body
+      if (!config.auth.allowLegacySignatures) {
+        return res.status(401).json({ error: 'Missing timestamp header' });
+      }
+      if (!signatureMatches(sign(secret, JSON.stringify(req.body)), signature)) {
+        return res.status(401).json({ error: 'Invalid signature' });
+      }
+      console.warn(`[auth] legacy unsigned-timestamp request from client ${client.id} – replay protection not applied`);
+    } else {
+      const ts = Number(timestamp);
+      const now = Date.now();
+      if (!/^\d+$/.test(timestamp) || Math.abs(now - ts * 1000) > config.auth.maxClockSkewSeconds * 1000) {
+        return res.status(401).json({ error: 'Request timestamp outside allowed window' });
+      }
+
+      // The nonce is signed too; an unsigned one could be swapped to slip past the replay check.
+      // Method and path keep a bodiless request from matching, or being replayed on, another endpoint.
+      const nonce = req.headers['x-nonce'] as string | undefined;
+      const prefix = `${timestamp}.${nonce ? `${nonce}.` : ''}${req.method}.${req.originalUrl}.`;
+      const payload = Buffer.concat([Buffer.from(prefix), req.rawBody || Buffer.alloc(0)]);
+      if (!signatureMatches(sign(secret, payload), signature)) {
+        return res.status(401).json({ error: 'Invalid signature' });
+      }
+
+      if (!rememberNonce(`${client.id}:${signature}`, now)) {
+        return res.status(401).json({ error: 'Replayed request' });
+      }
     }
-    
+
     req.isValidSignature = true;
+    req.clientId = client.id;
   } catch (error) {
     return res.status(401).json({ error: 'Invalid signature format' });
   }
-  
+
   next();
 };
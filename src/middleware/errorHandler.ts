@@ -8,7 +8,7 @@ export const errorHandler = (err: Error, req: Request, res: Response, next: Next
   let message = 'Internal server error';
   
   // Handle specific error types
-  if (err.name === 'ValidationError') {
+  if (err.name === 'ValidationError' || err.name === 'UnsafeUrlError') {
     status = 400;
     message = err.message;
   } else if (err.name === 'TimeoutError') {
@@ -1,10 +1,13 @@
-import { Router, Request, Response } from 'express';
+import { Router, Response } from 'express';
 import { z } from 'zod';
 import * as crypto from 'crypto';
-import { AuditService } from '../services/auditService.js';
+import { auditService } from '../services/auditService.js';
+import { getApiClient, isCallbackUrlAllowed } from '../services/apiClients.js';
+import { assertSafeUrl, UnsafeUrlError } from '../services/urlSafety.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { config } from '../config/index.js';
 
 const router = Router();
-const auditService = new AuditService();
 
 // Request validation schemas
 const auditRequestSchema = z.object({
@@ -12,51 +15,34 @@ const auditRequestSchema = z.object({
   jobId: z.string().uuid().optional(),
   url: z.string().url(),
   priority: z.number().min(1).max(10).optional().default(5),
+  // Overrides the client's default callback; must match the callback allow-list
+  callbackUrl: z.string().url().optional(),
   options: z.object({
     mobile: z.boolean().optional().default(false),
     desktop: z.boolean().optional().default(true),
     screenshot: z.boolean().optional().default(true),
-    includePageSpeedInsights: z.boolean().optional().default(false)
-  }).optional().default({})
-});
-
-const callbackSchema = z.object({
-  jobId: z.string().uuid(),
-  status: z.enum(['COMPLETED', 'FAILED']),
-  results: z.object({
-    performanceScore: z.number().optional(),
-    seoScore: z.number().optional(),
-    accessibilityScore: z.number().optional(),
-    bestPracticesScore: z.number().optional(),
-    issues: z.array(z.object({
-      type: z.enum(['ERROR', 'WARNING', 'INFO']),
-      category: z.enum(['PERFORMANCE', 'SEO', 'ACCESSIBILITY', 'BEST_PRACTICES']),
-      title: z.string(),
-      description: z.string(),
-      impact: z.enum(['HIGH', 'MEDIUM', 'LOW']),
-      recommendation: z.string()
-    })).optional(),
-    metrics: z.object({
-      loadTime: z.number().optional(),
-      cumulativeLayoutShift: z.number().optional()
-    }).optional(),
-    pageSpeedMetrics: z.object({
-      performanceScore: z.number().optional(),
-      firstContentfulPaint: z.number().optional(),
-      largestContentfulPaint: z.number().optional(),
-      firstInputDelay: z.number().optional(),
-      cumulativeLayoutShift: z.number().optional(),
-      speedIndex: z.number().optional(),
-      totalBlockingTime: z.number().optional()
-    }).optional(),
-    pagesCrawled: z.number().optional(),
-    screenshot: z.string().optional() // base64 encoded
-  }).optional(),
-  error: z.string().optional()
+    includePageSpeedInsights: z.boolean().optional().default(false),
+    // Local Lighthouse adds two full runs (~2 min) to the job, so it is opt-in
+    lighthouse: z.boolean().optional().default(false),
+    // Request every <a href> on the page and report broken links
+    checkLinks: z.boolean().optional().default(false),
+    // Render Facebook/LinkedIn/X link preview images for the report
+    socialPreviews: z.boolean().optional().default(true),
+    // Record a HAR of the page load, downloadable from /:jobId/har
+    har: z.boolean().optional().default(true)
+  }).optional().default({}),
+  // Presence of `crawl` switches the audit from a single URL to a same-origin crawl
+  crawl: z.object({
+    maxPages: z.number().int().min(1).max(config.crawl.maxPages).optional().default(10),
+    maxDepth: z.number().int().min(0).max(config.crawl.maxDepth).optional().default(2),
+    include: z.array(z.string().min(1)).optional().default([]),
+    exclude: z.array(z.string().min(1)).optional().default([]),
+    useSitemap: z.boolean().optional().default(true)
+  }).optional()
 });
 
 // Start audit
-router.post('/start', async (req: Request, res: Response) => {
+router.post('/start', async (req: AuthenticatedRequest, res: Response) => {
   const startTime = Date.now();
   let jobId: string | undefined;
   
@@ -66,6 +52,33 @@ router.post('/start', async (req: Request, res: Response) => {
     
     // Use provided jobId when present so the caller can track status by the same ID
     jobId = validatedData.jobId || crypto.randomUUID();
+    if (validatedData.jobId && await auditService.hasJob(jobId)) {
+      return res.status(409).json({
+        error: 'Job ID already in use',
+        jobId
+      });
+    }
+
+    // Reject private/reserved targets up front; the worker checks again before navigating
+    try {
+      await assertSafeUrl(validatedData.url);
+    } catch (e) {
+      if (e instanceof UnsafeUrlError) {
+        return res.status(400).json({
+          error: 'URL not allowed',
+          message: e.message
+        });
+      }
+      throw e;
+    }
+
+    const client = getApiClient(req.clientId);
+    if (validatedData.callbackUrl && (!client || !isCallbackUrlAllowed(client, validatedData.callbackUrl))) {
+      return res.status(400).json({
+        error: 'Callback URL not allowed',
+        callbackUrl: validatedData.callbackUrl
+      });
+    }
     
     console.log(`[route] starting audit for job ${jobId}: ${validatedData.url}`);
     
@@ -80,12 +93,21 @@ router.post('/start', async (req: Request, res: Response) => {
       jobId,
       websiteUrl: validatedData.url,
       priority: validatedData.priority,
+      // Queue fairness is balanced per API client
+      tenantId: req.clientId,
+      clientId: req.clientId,
+      callbackUrl: validatedData.callbackUrl,
       // Normalize option name: router uses `screenshot`, service expects `includeScreenshot`
       options: {
         mobile: validatedData.options?.mobile,
         customUserAgent: undefined,
         includeScreenshot: validatedData.options?.screenshot,
-        includePageSpeedInsights: validatedData.options?.includePageSpeedInsights
+        includePageSpeedInsights: validatedData.options?.includePageSpeedInsights,
+        includeLighthouse: validatedData.options?.lighthouse,
+        checkLinks: validatedData.options?.checkLinks,
+        renderSocialPreviews: validatedData.options?.socialPreviews,
+        captureHar: validatedData.options?.har,
+        crawl: validatedData.crawl
       }
     }).catch((error: Error) => {
       console.error(`[route] audit failed for job ${jobId}:`, error);
@@ -101,7 +123,7 @@ router.post('/start', async (req: Request, res: Response) => {
     res.status(202).json({ 
       message: 'Audit started successfully',
       jobId: jobId,
-      estimatedCompletion: '2-3 minutes'
+      estimatedCompletion: validatedData.crawl ? `up to ${validatedData.crawl.maxPages} minutes` : '2-3 minutes'
     });
     
   } catch (error) {
@@ -132,7 +154,7 @@ router.post('/start', async (req: Request, res: Response) => {
 });
 
 // Get audit status
-router.get('/status/:jobId', async (req: Request, res: Response) => {
+router.get('/status/:jobId', async (req: AuthenticatedRequest, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -154,8 +176,8 @@ router.get('/status/:jobId', async (req: Request, res: Response) => {
     
     const [status, details] = await Promise.race([
       Promise.all([
-        auditService.getAuditStatus(jobId),
-        auditService.getAuditDetails(jobId)
+        auditService.getAuditStatus(jobId, req.clientId),
+        auditService.getAuditDetails(jobId, req.clientId)
       ]),
       timeoutPromise
     ]);
@@ -166,6 +188,7 @@ router.get('/status/:jobId', async (req: Request, res: Response) => {
     res.json({ 
       jobId,
       status: status || 'NOT_FOUND',
+      ...(status === 'QUEUED' && { queuePosition: auditService.getQueuePosition(jobId) }),
       results: details?.results,
       error: details?.error,
       timestamp: new Date().toISOString()
@@ -191,4 +214,147 @@ router.get('/status/:jobId', async (req: Request, res: Response) => {
   }
 });
 
+const deliveryQuerySchema = z.object({
+  status: z.enum(['PENDING', 'DELIVERED', 'FAILED']).optional().default('FAILED'),
+  jobId: z.string().uuid().optional()
+});
+
+// List callback deliveries (dead letters by default)
+router.get('/callbacks', (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { status, jobId } = deliveryQuerySchema.parse(req.query);
+    const deliveries = auditService.listDeliveries({ status, jobId }, req.clientId)
+      // Payloads can carry screenshots; fetch the job itself for the full result
+      .map(({ payload, ...delivery }) => ({
+        ...delivery,
+        ...(payload !== undefined && { payloadBytes: Buffer.byteLength(payload) })
+      }));
+
+    res.json({ status, count: deliveries.length, deliveries });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        details: error.errors
+      });
+    }
+    console.error('[route] list deliveries error:', error);
+    res.status(500).json({
+      error: 'Failed to list deliveries',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Re-send a callback delivery with a fresh retry budget
+router.post('/callbacks/:deliveryId/replay', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { deliveryId } = req.params;
+    console.log(`[route] replay requested for delivery ${deliveryId}`);
+
+    const delivery = await auditService.replayDelivery(deliveryId, req.clientId);
+    if (!delivery) {
+      return res.status(404).json({
+        error: 'Delivery not found',
+        deliveryId
+      });
+    }
+
+    const { payload, ...rest } = delivery;
+    res.json({ ...rest, ...(payload !== undefined && { payloadBytes: Buffer.byteLength(payload) }) });
+  } catch (error) {
+    console.error('[route] replay error:', error);
+    res.status(500).json({
+      error: 'Failed to replay delivery',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      deliveryId: req.params.deliveryId
+    });
+  }
+});
+
+// Cancel a queued or running audit
+const cancelAudit = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    console.log(`[route] cancel requested for job ${jobId}`);
+
+    if (!jobId || !/^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(jobId)) {
+      return res.status(400).json({
+        error: 'Invalid job ID format',
+        jobId
+      });
+    }
+
+    const outcome = await auditService.cancelAudit(jobId, req.clientId);
+    if (!outcome) {
+      return res.status(404).json({
+        error: 'Job not found',
+        jobId
+      });
+    }
+
+    if (!outcome.cancelled) {
+      return res.status(409).json({
+        error: 'Job can no longer be cancelled',
+        jobId,
+        status: outcome.status
+      });
+    }
+
+    res.json({
+      jobId,
+      status: outcome.status,
+      message: 'Audit cancelled',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('[route] cancel error:', error);
+    res.status(500).json({
+      error: 'Failed to cancel audit',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      jobId: req.params.jobId
+    });
+  }
+};
+
+// Download the HAR recorded while auditing the page (the start page of a crawl)
+router.get('/:jobId/har', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { jobId } = req.params;
+
+    if (!jobId || !/^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(jobId)) {
+      return res.status(400).json({
+        error: 'Invalid job ID format',
+        jobId
+      });
+    }
+
+    const har = await auditService.getAuditArtifact(jobId, 'audit.har', req.clientId);
+    if (!har) {
+      const status = await auditService.getAuditStatus(jobId, req.clientId);
+      return res.status(404).json({
+        error: status ? 'No HAR recorded for this job' : 'Job not found',
+        jobId,
+        ...(status && { status })
+      });
+    }
+
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-${jobId}.har"`);
+    res.send(har);
+
+  } catch (error) {
+    console.error('[route] HAR download error:', error);
+    res.status(500).json({
+      error: 'Failed to load HAR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      jobId: req.params.jobId
+    });
+  }
+});
+
+router.delete('/:jobId', cancelAudit);
+router.post('/:jobId/cancel', cancelAudit);
+
 export { router as auditRouter };
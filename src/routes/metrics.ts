@@ -0,0 +1,30 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { registry } from '../services/metrics.js';
+
+const router = Router();
+
+// Prometheus scrape endpoint. Open like /health unless METRICS_TOKEN is set,
+// in which case scrapers must send `Authorization: Bearer <token>`.
+router.get('/', async (req: Request, res: Response) => {
+  if (config.metricsToken) {
+    const expected = Buffer.from(`Bearer ${config.metricsToken}`);
+    const provided = Buffer.from(req.headers.authorization || '');
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+  }
+
+  try {
+    res.setHeader('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to collect metrics',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export { router as metricsRouter };
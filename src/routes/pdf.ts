@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import * as crypto from 'crypto';
 import { PDFService } from '../services/pdfService.js';
+import { UnsafeUrlError } from '../services/urlSafety.js';
 
 const router = Router();
 const pdfService = new PDFService();
@@ -80,6 +81,13 @@ router.post('/generate-from-url', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('PDF from URL generation error:', error);
+
+    if (error instanceof UnsafeUrlError) {
+      return res.status(400).json({
+        error: 'URL not allowed',
+        message: error.message
+      });
+    }
     
     res.status(500).json({ 
       error: 'Failed to generate PDF from URL',
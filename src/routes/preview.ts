@@ -436,13 +436,11 @@ router.get('/dashboard', (req: Request, res: Response) => {
             try {
                 const auditData = getAuditData();
                 
+                const body = JSON.stringify({ auditData });
                 const response = await fetch('/api/preview/pdf-preview', {
                     method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'x-signature': 'sha256=' + await createSignature(JSON.stringify({ auditData }))
-                    },
-                    body: JSON.stringify({ auditData })
+                    headers: await signedHeaders('POST', '/api/preview/pdf-preview', body),
+                    body
                 });
                 
                 if (!response.ok) {
@@ -468,13 +466,11 @@ router.get('/dashboard', (req: Request, res: Response) => {
             try {
                 const auditData = getAuditData();
                 
+                const body = JSON.stringify({ auditData });
                 const response = await fetch('/api/preview/html-preview', {
                     method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'x-signature': 'sha256=' + await createSignature(JSON.stringify({ auditData }))
-                    },
-                    body: JSON.stringify({ auditData })
+                    headers: await signedHeaders('POST', '/api/preview/html-preview', body),
+                    body
                 });
                 
                 if (!response.ok) {
@@ -495,8 +491,17 @@ router.get('/dashboard', (req: Request, res: Response) => {
             }
         }
         
-        // Simple signature creation for demo (matches audit client)
-        async function createSignature(body) {
+        // Signs the exact body sent, over "<timestamp>.<METHOD>.<path>.<body>" like any other API client
+        async function signedHeaders(method, path, body) {
+            const timestamp = Math.floor(Date.now() / 1000).toString();
+            return {
+                'Content-Type': 'application/json',
+                'x-timestamp': timestamp,
+                'x-signature': 'sha256=' + await createSignature(timestamp + '.' + method + '.' + path + '.' + body)
+            };
+        }
+
+        async function createSignature(payload) {
             const encoder = new TextEncoder();
             const key = await crypto.subtle.importKey(
                 'raw',
@@ -506,7 +511,7 @@ router.get('/dashboard', (req: Request, res: Response) => {
                 ['sign']
             );
             
-            const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+            const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
             return Array.from(new Uint8Array(signature))
                 .map(b => b.toString(16).padStart(2, '0'))
                 .join('');
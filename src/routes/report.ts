@@ -3,13 +3,137 @@ import { z } from 'zod';
 import * as crypto from 'crypto';
 import { PDFService } from '../services/pdfService.js';
 import { HTMLTemplateService, type ReportData } from '../services/htmlTemplateService.js';
-import type { AuditResults } from '../types/audit.js';
+import { auditService } from '../services/auditService.js';
+import { normalizeAuditResults, reportDataFromJob, type LegacyAuditResults } from '../services/reportData.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
 
 const router = Router();
 const pdfService = new PDFService();
 const htmlTemplateService = new HTMLTemplateService();
 
-// Request validation schema for audit report generation
+const pageSpeedValuesSchema = z.object({
+  performanceScore: z.number(),
+  firstContentfulPaint: z.number(),
+  largestContentfulPaint: z.number(),
+  // Superseded by INP; still accepted from older clients but not rendered
+  firstInputDelay: z.number().optional(),
+  cumulativeLayoutShift: z.number(),
+  speedIndex: z.number(),
+  totalBlockingTime: z.number()
+});
+
+const fieldMetricSchema = z.object({
+  percentile: z.number(),
+  category: z.enum(['FAST', 'AVERAGE', 'SLOW']),
+  distribution: z.object({
+    good: z.number(),
+    needsImprovement: z.number(),
+    poor: z.number()
+  })
+});
+
+const fieldDataSchema = z.object({
+  scope: z.enum(['url', 'origin']),
+  overallCategory: z.enum(['FAST', 'AVERAGE', 'SLOW']).optional(),
+  largestContentfulPaint: fieldMetricSchema.optional(),
+  cumulativeLayoutShift: fieldMetricSchema.optional(),
+  interactionToNextPaint: fieldMetricSchema.optional()
+});
+
+// Sections the template renders field by field; unknown keys are rejected rather than passed through
+const redirectChainSchema = z.object({
+  requestedUrl: z.string(),
+  finalUrl: z.string(),
+  finalStatus: z.number().int().optional(),
+  hops: z.array(z.object({
+    url: z.string(),
+    status: z.number().int().optional(),
+    type: z.enum(['http', 'refresh-header', 'meta-refresh', 'javascript']),
+    location: z.string(),
+    changes: z.array(z.string())
+  }).strict()),
+  loop: z.boolean(),
+  canonical: z.string().optional()
+}).strict();
+
+const networkSummarySchema = z.object({
+  requests: z.number(),
+  transferSize: z.number(),
+  failed: z.number(),
+  fromCache: z.number(),
+  onContentLoad: z.number().optional(),
+  onLoad: z.number().optional(),
+  waterfall: z.array(z.object({
+    url: z.string(),
+    resourceType: z.string(),
+    mimeType: z.string().optional(),
+    status: z.number().int(),
+    protocol: z.string().optional(),
+    start: z.number(),
+    duration: z.number(),
+    transferSize: z.number(),
+    fromCache: z.enum(['memory', 'disk', 'service-worker']).optional(),
+    error: z.string().optional()
+  }).strict())
+}).strict();
+
+const socialCardSchema = z.object({
+  title: z.string().optional(),
+  description: z.string().optional(),
+  image: z.string().optional(),
+  domain: z.string()
+}).strict();
+
+const socialPreviewSchema = z.object({
+  tags: z.record(z.string()),
+  cards: z.object({
+    facebook: socialCardSchema,
+    linkedin: socialCardSchema,
+    x: socialCardSchema.extend({ cardType: z.string().optional() })
+  }).strict(),
+  images: z.array(z.object({
+    url: z.string(),
+    status: z.number().int().optional(),
+    contentType: z.string().optional(),
+    bytes: z.number().optional(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    error: z.string().optional()
+  }).strict()),
+  renders: z.object({
+    facebook: z.string().base64().optional(),
+    linkedin: z.string().base64().optional(),
+    x: z.string().base64().optional()
+  }).strict().optional()
+}).strict();
+
+const brandingSchema = z.object({
+  companyName: z.string().optional(),
+  logoUrl: z.string().url().optional(),
+  primaryColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+  secondaryColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+  website: z.string().optional(),
+  contactEmail: z.string().email().optional()
+}).optional().default({});
+
+const pdfOptionsSchema = z.object({
+  format: z.enum(['A4', 'Letter']).optional().default('A4'),
+  orientation: z.enum(['portrait', 'landscape']).optional().default('portrait'),
+  margin: z.object({
+    top: z.string().optional().default('1cm'),
+    right: z.string().optional().default('1cm'),
+    bottom: z.string().optional().default('1cm'),
+    left: z.string().optional().default('1cm')
+  }).optional().default({}),
+  displayHeaderFooter: z.boolean().optional().default(false),
+  headerTemplate: z.string().optional(),
+  footerTemplate: z.string().optional(),
+  printBackground: z.boolean().optional().default(true),
+  scale: z.number().min(0.1).max(2).optional().default(1)
+}).optional().default({});
+
+// Request validation schema for audit report generation.
+// Accepts both the legacy flat results and the AuditResult shape from /api/audit/status.
 const auditReportRequestSchema = z.object({
   auditId: z.string().min(1),
   websiteUrl: z.string().url(),
@@ -20,54 +144,59 @@ const auditReportRequestSchema = z.object({
     seoScore: z.number().min(0).max(100),
     accessibilityScore: z.number().min(0).max(100),
     bestPracticesScore: z.number().min(0).max(100),
+    securityScore: z.number().min(0).max(100).optional(),
     issues: z.array(z.object({
       type: z.enum(['ERROR', 'WARNING', 'INFO']),
-      category: z.enum(['PERFORMANCE', 'SEO', 'ACCESSIBILITY', 'BEST_PRACTICES']),
+      category: z.enum(['PERFORMANCE', 'SEO', 'ACCESSIBILITY', 'BEST_PRACTICES', 'SECURITY']),
       title: z.string(),
       description: z.string(),
       impact: z.enum(['HIGH', 'MEDIUM', 'LOW']),
       element: z.string().optional(),
-      recommendation: z.string()
+      recommendation: z.string(),
+      savings: z.object({
+        ms: z.number().optional(),
+        bytes: z.number().optional()
+      }).optional(),
+      urls: z.array(z.string()).optional(),
+      occurrences: z.number().optional(),
+      stack: z.string().optional(),
+      path: z.string().optional()
     })),
     metrics: z.object({
       loadTime: z.number(),
-      cumulativeLayoutShift: z.number()
-    }),
-    pageSpeedMetrics: z.object({
-      performanceScore: z.number(),
-      firstContentfulPaint: z.number(),
-      largestContentfulPaint: z.number(),
-      firstInputDelay: z.number(),
       cumulativeLayoutShift: z.number(),
-      speedIndex: z.number(),
+      largestContentfulPaint: z.number(),
+      interactionToNextPaint: z.number(),
+      firstContentfulPaint: z.number(),
+      timeToFirstByte: z.number(),
       totalBlockingTime: z.number()
+    }).partial().optional(),
+    pageSpeedMetrics: z.union([
+      pageSpeedValuesSchema,
+      z.object({
+        source: z.enum(['pagespeed', 'lighthouse']).optional(),
+        desktop: pageSpeedValuesSchema.partial().optional(),
+        mobile: pageSpeedValuesSchema.partial().optional()
+      })
+    ]).optional(),
+    fieldData: z.object({
+      desktop: fieldDataSchema.optional(),
+      mobile: fieldDataSchema.optional()
     }).optional(),
-    pagesCrawled: z.number(),
-    screenshots: z.array(z.string()).optional()
-  }),
-  branding: z.object({
-    companyName: z.string().optional(),
-    logoUrl: z.string().url().optional(),
-    primaryColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
-    secondaryColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
-    website: z.string().optional(),
-    contactEmail: z.string().email().optional()
-  }).optional().default({}),
-  options: z.object({
-    format: z.enum(['A4', 'Letter']).optional().default('A4'),
-    orientation: z.enum(['portrait', 'landscape']).optional().default('portrait'),
-    margin: z.object({
-      top: z.string().optional().default('1cm'),
-      right: z.string().optional().default('1cm'),
-      bottom: z.string().optional().default('1cm'),
-      left: z.string().optional().default('1cm')
-    }).optional().default({}),
-    displayHeaderFooter: z.boolean().optional().default(false),
-    headerTemplate: z.string().optional(),
-    footerTemplate: z.string().optional(),
-    printBackground: z.boolean().optional().default(true),
-    scale: z.number().min(0.1).max(2).optional().default(1)
-  }).optional().default({})
+    redirects: redirectChainSchema.optional(),
+    network: networkSummarySchema.optional(),
+    socialPreview: socialPreviewSchema.optional(),
+    pagesCrawled: z.number().optional().default(1),
+    screenshots: z.array(z.string()).optional(),
+    screenshot: z.string().optional()
+  }).passthrough(),
+  branding: brandingSchema,
+  options: pdfOptionsSchema
+});
+
+const fromJobRequestSchema = z.object({
+  branding: brandingSchema,
+  options: pdfOptionsSchema
 });
 
 // Generate PDF report from audit data
@@ -84,7 +213,7 @@ router.post('/generate-audit-report', async (req: Request, res: Response) => {
       websiteUrl: validatedData.websiteUrl,
       completedAt: new Date(validatedData.completedAt),
       createdAt: new Date(validatedData.createdAt),
-      results: validatedData.results as AuditResults,
+      results: normalizeAuditResults(validatedData.results as LegacyAuditResults),
       branding: validatedData.branding
     };
     
@@ -125,6 +254,62 @@ router.post('/generate-audit-report', async (req: Request, res: Response) => {
   }
 });
 
+// Generate PDF report straight from a completed audit job
+router.post('/from-job/:jobId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const validatedData = fromJobRequestSchema.parse(req.body ?? {});
+
+    const job = await auditService.getAuditJob(jobId, req.clientId);
+    if (!job) {
+      return res.status(404).json({
+        error: 'Job not found',
+        jobId
+      });
+    }
+
+    const reportData = reportDataFromJob(job, validatedData.branding);
+    if (!reportData) {
+      return res.status(409).json({
+        error: 'Audit has no completed results',
+        jobId,
+        status: job.status
+      });
+    }
+
+    console.log(`Generating audit report PDF from job ${jobId}`);
+    const htmlContent = htmlTemplateService.generateHTMLReport(reportData);
+    const pdfBuffer = await pdfService.generatePDF({
+      jobId,
+      htmlContent,
+      options: validatedData.options
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-report-${jobId}.pdf"`);
+    res.setHeader('Content-Length', pdfBuffer.length.toString());
+
+    console.log(`PDF generated successfully for job ${jobId}, size: ${pdfBuffer.length} bytes`);
+    res.send(pdfBuffer);
+
+  } catch (error) {
+    console.error('Report from job generation error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.errors
+      });
+    }
+
+    res.status(500).json({
+      error: 'Failed to generate audit report PDF',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      jobId: req.params.jobId
+    });
+  }
+});
+
 // Generate a sample report with mock data (for testing)
 router.post('/generate-sample-report', async (req: Request, res: Response) => {
   try {
@@ -179,16 +364,28 @@ router.post('/generate-sample-report', async (req: Request, res: Response) => {
         ],
         metrics: {
           loadTime: 2340,
-          cumulativeLayoutShift: 0.05
+          cumulativeLayoutShift: 0.05,
+          interactionToNextPaint: 120
         },
         pageSpeedMetrics: {
-          performanceScore: 85,
-          firstContentfulPaint: 1200,
-          largestContentfulPaint: 2100,
-          firstInputDelay: 45,
-          cumulativeLayoutShift: 0.05,
-          speedIndex: 1800,
-          totalBlockingTime: 150
+          source: 'pagespeed',
+          desktop: {
+            performanceScore: 85,
+            firstContentfulPaint: 1200,
+            largestContentfulPaint: 2100,
+            cumulativeLayoutShift: 0.05,
+            speedIndex: 1800,
+            totalBlockingTime: 150
+          }
+        },
+        fieldData: {
+          mobile: {
+            scope: 'url',
+            overallCategory: 'AVERAGE',
+            largestContentfulPaint: { percentile: 2900, category: 'AVERAGE', distribution: { good: 0.68, needsImprovement: 0.21, poor: 0.11 } },
+            cumulativeLayoutShift: { percentile: 0.04, category: 'FAST', distribution: { good: 0.91, needsImprovement: 0.06, poor: 0.03 } },
+            interactionToNextPaint: { percentile: 180, category: 'FAST', distribution: { good: 0.79, needsImprovement: 0.15, poor: 0.06 } }
+          }
         },
         pagesCrawled: 25
       },
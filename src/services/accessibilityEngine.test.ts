@@ -0,0 +1,62 @@
+import type { Page } from 'puppeteer';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runAccessibilityEngine, wcagCriteria } from './accessibilityEngine.js';
+
+// A page whose axe run returns `run`; the first evaluate call is the injection
+function page(run: unknown): Page {
+  const evaluate = vi.fn().mockResolvedValueOnce(undefined).mockResolvedValueOnce(run);
+  return { evaluate } as unknown as Page;
+}
+
+const violation = (id: string, impact: string, nodes: number) => ({
+  id,
+  impact,
+  help: `Fix ${id}`,
+  description: `${id} is violated`,
+  helpUrl: `https://dequeuniversity.com/rules/axe/4.10/${id}`,
+  tags: ['cat.color', 'wcag2aa', 'wcag143'],
+  nodes: [{ target: ['#main', 'p'], html: '<p>low contrast</p>', failureSummary: 'Fix any of the following:\n  Element has insufficient contrast' }],
+  nodeCount: nodes,
+});
+
+describe('wcagCriteria', () => {
+  it('turns success criterion tags into numbers and drops level tags', () => {
+    expect(wcagCriteria(['wcag2aa', 'wcag143', 'wcag1410', 'best-practice', 'wcag21a'])).toEqual(['1.4.3', '1.4.10']);
+  });
+});
+
+describe('runAccessibilityEngine', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('scores by impact weight and maps violations to issues, most severe first', async () => {
+    vi.useFakeTimers();
+    const result = await runAccessibilityEngine(page({
+      violations: [violation('region', 'minor', 1), violation('color-contrast', 'serious', 3)],
+      passes: [{ id: 'image-alt', impact: 'critical' }, { id: 'list', impact: null }],
+      incomplete: 2,
+    }));
+
+    // passed 10 + 3 (unknown counts as moderate) vs failed 1 + 7
+    expect(result?.score).toBe(Math.round(13 / 21 * 100));
+    expect(result?.issues.map(i => [i.title, i.type, i.impact])).toEqual([
+      ['Fix color-contrast', 'ERROR', 'HIGH'],
+      ['Fix region', 'INFO', 'LOW'],
+    ]);
+    expect(result?.issues[0]).toMatchObject({
+      description: 'color-contrast is violated (WCAG 1.4.3). 3 elements affected.',
+      element: '#main p → <p>low contrast</p>',
+      recommendation: 'Fix any of the following: Element has insufficient contrast. See https://dequeuniversity.com/rules/axe/4.10/color-contrast',
+    });
+    expect(result?.items.map(i => i.status)).toEqual(['FAIL', 'WARNING', 'WARNING']);
+    expect(result).toMatchObject({ violations: 2, passes: 2, incomplete: 2 });
+  });
+
+  it('returns null when axe cannot run', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken = { evaluate: vi.fn().mockRejectedValue(new Error('Execution context was destroyed')) } as unknown as Page;
+    expect(await runAccessibilityEngine(broken)).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+// services/accessibilityEngine.ts
+import axe from 'axe-core';
+import type { Page } from 'puppeteer';
+import type { AuditIssue, CategoryDetail } from '../types/audit.js';
+
+type AxeImpact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+interface AxeRuleResult {
+  id: string;
+  impact: AxeImpact | null;
+  help: string;
+  description: string;
+  helpUrl: string;
+  tags: string[];
+  nodes: Array<{ target: string[]; html: string; failureSummary?: string }>;
+  nodeCount: number;
+}
+
+interface AxeRun {
+  violations: AxeRuleResult[];
+  passes: Array<{ id: string; impact: AxeImpact | null }>;
+  incomplete: number;
+}
+
+export interface AccessibilityResult {
+  score: number;
+  issues: AuditIssue[];
+  items: CategoryDetail['items'];
+  violations: number;
+  passes: number;
+  incomplete: number;
+}
+
+const RULE_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'wcag22aa', 'best-practice'];
+const MAX_NODES_PER_RULE = 10;
+const RUN_TIMEOUT = 30_000;
+
+// Roughly Lighthouse's accessibility weighting (10 / 7 / 3 / 1)
+const IMPACT_WEIGHT: Record<AxeImpact, number> = { critical: 10, serious: 7, moderate: 3, minor: 1 };
+
+const IMPACT_MAP: Record<AxeImpact, { type: AuditIssue['type']; impact: AuditIssue['impact'] }> = {
+  critical: { type: 'ERROR', impact: 'HIGH' },
+  serious: { type: 'ERROR', impact: 'HIGH' },
+  moderate: { type: 'WARNING', impact: 'MEDIUM' },
+  minor: { type: 'INFO', impact: 'LOW' },
+};
+
+// Shadow AMD/CommonJS globals so axe always attaches itself to window
+const INJECT_SOURCE = `(function(){var define, module, exports;\n${axe.source}\n}).call(window);`;
+
+/** `wcag143` → `1.4.3`; level tags (`wcag2aa`) and non-WCAG tags are dropped. */
+export function wcagCriteria(tags: string[]): string[] {
+  return tags
+    .map(tag => /^wcag(\d)(\d)(\d{1,2})$/.exec(tag))
+    .filter((m): m is RegExpExecArray => !!m)
+    .map(m => `${m[1]}.${m[2]}.${m[3]}`);
+}
+
+/**
+ * Injects axe-core into the audited page and turns its rule results into an
+ * accessibility score, AuditIssue entries and category detail items.
+ * Returns null when axe cannot run (e.g. the page navigated away), so the
+ * caller can fall back to its own checks.
+ */
+export async function runAccessibilityEngine(page: Page): Promise<AccessibilityResult | null> {
+  try {
+    await page.evaluate(INJECT_SOURCE);
+
+    const run = await Promise.race([
+      page.evaluate(async (tags: string[], maxNodes: number): Promise<AxeRun> => {
+        const axeGlobal = (window as any).axe;
+        if (!axeGlobal) throw new Error('axe-core was not injected');
+
+        const results = await axeGlobal.run(document, {
+          runOnly: { type: 'tag', values: tags },
+          resultTypes: ['violations'],
+        });
+
+        // Passing rules carry no impact in results, so look up each rule's declared impact
+        const declared: Record<string, AxeImpact | null> = {};
+        for (const rule of axeGlobal._audit?.rules || []) declared[rule.id] = rule.impact || null;
+
+        return {
+          violations: results.violations.map((v: any) => ({
+            id: v.id,
+            impact: v.impact,
+            help: v.help,
+            description: v.description,
+            helpUrl: v.helpUrl,
+            tags: v.tags,
+            nodes: v.nodes.slice(0, maxNodes).map((n: any) => ({
+              target: n.target.map(String),
+              html: String(n.html).slice(0, 300),
+              failureSummary: n.failureSummary,
+            })),
+            nodeCount: v.nodes.length,
+          })),
+          passes: results.passes.map((p: any) => ({ id: p.id, impact: declared[p.id] || null })),
+          incomplete: results.incomplete.length,
+        };
+      }, RULE_TAGS, MAX_NODES_PER_RULE),
+      new Promise<never>((_, rej) => setTimeout(() => rej(new Error('axe run timeout')), RUN_TIMEOUT)),
+    ]);
+
+    return buildResult(run);
+  } catch (error) {
+    console.warn('[a11y] axe-core run failed:', (error as Error).message);
+    return null;
+  }
+}
+
+function buildResult(run: AxeRun): AccessibilityResult {
+  const weight = (impact: AxeImpact | null) => IMPACT_WEIGHT[impact || 'moderate'];
+
+  const failedWeight = run.violations.reduce((sum, v) => sum + weight(v.impact), 0);
+  const passedWeight = run.passes.reduce((sum, p) => sum + weight(p.impact), 0);
+  const total = failedWeight + passedWeight;
+  const score = total === 0 ? 100 : Math.round((passedWeight / total) * 100);
+
+  const violations = [...run.violations].sort((a, b) => weight(b.impact) - weight(a.impact));
+
+  const issues: AuditIssue[] = violations.map(v => {
+    const mapped = IMPACT_MAP[v.impact || 'moderate'];
+    const criteria = wcagCriteria(v.tags);
+    const first = v.nodes[0];
+    const selectors = v.nodes.map(n => n.target.join(' '));
+
+    return {
+      type: mapped.type,
+      category: 'ACCESSIBILITY',
+      title: v.help,
+      description: `${v.description}${criteria.length ? ` (WCAG ${criteria.join(', ')})` : ''}. ` +
+        `${v.nodeCount} element${v.nodeCount === 1 ? '' : 's'} affected.`,
+      impact: mapped.impact,
+      element: first ? `${first.target.join(' ')} → ${first.html}` : undefined,
+      recommendation: `${first?.failureSummary?.replace(/\s+/g, ' ').trim() || v.help}. See ${v.helpUrl}`,
+      wcag: criteria,
+      selectors,
+      helpUrl: v.helpUrl,
+    };
+  });
+
+  const items: CategoryDetail['items'] = [
+    ...violations.map(v => ({
+      title: v.help,
+      value: `${v.nodeCount} element${v.nodeCount === 1 ? '' : 's'}`,
+      status: (v.impact === 'minor' ? 'WARNING' : 'FAIL') as 'WARNING' | 'FAIL',
+      description: v.description,
+    })),
+    {
+      title: 'Automated accessibility rules',
+      value: `${run.passes.length} passed, ${run.violations.length} failed`,
+      status: run.violations.length === 0 ? 'PASS' : 'WARNING',
+      description: `axe-core ${axe.version} checked WCAG 2.x A/AA and best-practice rules; ${run.incomplete} rule(s) need manual review`,
+    },
+  ];
+
+  return { score, issues, items, violations: run.violations.length, passes: run.passes.length, incomplete: run.incomplete };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { ApiClientConfig } from '../config/index.js';
+import { getApiClient, isCallbackUrlAllowed, isOwnedBy, resolveCallbackUrl } from './apiClients.js';
+
+const client: ApiClientConfig = {
+  id: 'web-prod',
+  secret: 's1',
+  webhookSecret: 'w1',
+  callbackUrl: 'https://app.example.com/api/audits/callback',
+  callbackAllowlist: ['*.preview.example.com', 'https://hooks.example.net/audits/'],
+};
+
+describe('getApiClient', () => {
+  it('falls back to the default client and rejects unknown ids', () => {
+    expect(getApiClient(undefined)?.id).toBe('default');
+    expect(getApiClient('no-such-client')).toBeNull();
+  });
+});
+
+describe('isCallbackUrlAllowed', () => {
+  it("allows the origin of the client's own callback", () => {
+    expect(isCallbackUrlAllowed(client, 'https://app.example.com/other/path')).toBe(true);
+    expect(isCallbackUrlAllowed(client, 'http://app.example.com/api/audits/callback')).toBe(false);
+  });
+
+  it('matches wildcard hosts including the bare domain', () => {
+    expect(isCallbackUrlAllowed(client, 'https://pr-12.preview.example.com/cb')).toBe(true);
+    expect(isCallbackUrlAllowed(client, 'https://preview.example.com/cb')).toBe(true);
+    expect(isCallbackUrlAllowed(client, 'https://evilpreview.example.com/cb')).toBe(false);
+  });
+
+  it('matches URL prefixes on origin and path', () => {
+    expect(isCallbackUrlAllowed(client, 'https://hooks.example.net/audits/done')).toBe(true);
+    expect(isCallbackUrlAllowed(client, 'https://hooks.example.net/other')).toBe(false);
+  });
+
+  it('rejects unparsable URLs and non-http schemes', () => {
+    expect(isCallbackUrlAllowed(client, 'not a url')).toBe(false);
+    expect(isCallbackUrlAllowed(client, 'ftp://app.example.com/')).toBe(false);
+  });
+});
+
+describe('resolveCallbackUrl', () => {
+  it("prefers the request's URL and gives unknown clients no fallback", () => {
+    expect(resolveCallbackUrl('no-such-client', 'https://app.example.com/cb')).toBe('https://app.example.com/cb');
+    expect(resolveCallbackUrl('no-such-client', undefined)).toBeUndefined();
+  });
+});
+
+describe('isOwnedBy', () => {
+  it('treats records without an owner as belonging to the default client', () => {
+    expect(isOwnedBy(undefined, 'default')).toBe(true);
+    expect(isOwnedBy(undefined, undefined)).toBe(true);
+    expect(isOwnedBy('web-prod', 'web-prod')).toBe(true);
+    expect(isOwnedBy('web-prod', undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+// services/apiClients.ts
+import { config, type ApiClientConfig } from '../config/index.js';
+
+export const DEFAULT_CLIENT_ID = 'default';
+
+export function getApiClient(clientId: string | undefined): ApiClientConfig | null {
+  const id = clientId || DEFAULT_CLIENT_ID;
+  return config.apiClients.find(c => c.id === id) || null;
+}
+
+/**
+ * Whether `url` may receive callbacks for `client`. Allowed are the client's
+ * own default callback origin, CALLBACK_URL_ALLOWLIST and the client's
+ * `callbackAllowlist`. Entries are either URL prefixes (`https://app.example.com/hooks/`)
+ * or host names, where `*.example.com` also matches subdomains.
+ */
+export function isCallbackUrlAllowed(client: ApiClientConfig, url: string): boolean {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return false;
+  }
+  if (!['http:', 'https:'].includes(target.protocol)) return false;
+
+  const entries = [...config.callbackAllowlist, ...(client.callbackAllowlist || [])];
+  if (client.callbackUrl) {
+    try {
+      entries.push(new URL(client.callbackUrl).origin);
+    } catch {
+      // a malformed default callback never matches
+    }
+  }
+
+  const host = target.hostname.toLowerCase();
+  return entries.some(entry => {
+    if (/^https?:\/\//i.test(entry)) {
+      try {
+        const prefix = new URL(entry);
+        return target.origin === prefix.origin && target.pathname.startsWith(prefix.pathname);
+      } catch {
+        return false;
+      }
+    }
+    const pattern = entry.toLowerCase();
+    if (pattern.startsWith('*.')) {
+      const suffix = pattern.slice(1);
+      return host.endsWith(suffix) || host === pattern.slice(2);
+    }
+    return host === pattern;
+  });
+}
+
+/**
+ * Callback target for a job: the request's own URL, else the client's default.
+ * A client without a default gets no callback rather than another app's URL.
+ */
+export function resolveCallbackUrl(clientId: string | undefined, requested: string | undefined): string | undefined {
+  return requested || getApiClient(clientId)?.callbackUrl;
+}
+
+/** Whether a job or delivery created by `ownerId` is visible to `clientId`; records without an owner belong to "default". */
+export function isOwnedBy(ownerId: string | undefined, clientId: string | undefined): boolean {
+  return (ownerId || DEFAULT_CLIENT_ID) === (clientId || DEFAULT_CLIENT_ID);
+}
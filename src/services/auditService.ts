@@ -1,131 +1,117 @@
-import puppeteer, { type LaunchOptions, type Browser, type Page, type HTTPResponse } from 'puppeteer';
-import crypto from 'crypto';
+import puppeteer, { type LaunchOptions, type Browser, type BrowserContext, type Page, type HTTPResponse } from 'puppeteer';
 import fs from 'node:fs';
 import { config } from '../config/index.js';
+import type { AuditIssue, AuditResult, AuditResults, CategoryDetail, CrawledPage, FieldData, NetworkSummary, WebVitals } from '../types/audit.js';
+import { createJobStore, type JobRecord, type JobStore } from './jobStore.js';
+import { JobScheduler } from './jobScheduler.js';
+import { CrawlFrontier, extractLinks, type CrawlOptions } from './crawler.js';
+import { fetchSitemapUrls } from './sitemap.js';
+import { runAccessibilityEngine } from './accessibilityEngine.js';
+import { auditSecurity } from './securityAudit.js';
+import { analyzeIndexability, loadSiteSignals } from './indexability.js';
+import { analyzeHreflang } from './hreflang.js';
+import { analyzeRedirects, trackNavigations } from './redirectAnalysis.js';
+import { recordHar, summarizeHar } from './harRecorder.js';
+import { auditStructuredData } from './structuredData.js';
+import { auditSocialPreview } from './socialPreview.js';
+import { brokenLinkIssues, checkLinks, locateFailedResources, resourceFailureIssues, trackResourceFailures } from './linkChecker.js';
+import { consoleIssues, summarizeConsole, trackConsoleMessages } from './consoleCapture.js';
+import { extractIssues } from './issueExtraction.js';
+import { extractFieldData } from './fieldData.js';
+import { PageSpeedCache, PageSpeedQuota, pageSpeedCacheKey } from './pageSpeedCache.js';
+import { collectWebVitals, installWebVitals, measureInteraction, rateVital, scoreWebVitals } from './webVitals.js';
+import { LighthouseRunner, extractLighthouseMetrics, extractOpportunities, type LighthouseMetrics } from './lighthouseRunner.js';
+import { DEFAULT_CLIENT_ID, isOwnedBy, resolveCallbackUrl } from './apiClients.js';
+import { assertSafeUrl, guardPageRequests, safeFetch } from './urlSafety.js';
+import { browserLaunches, browserRestarts, jobDuration, observeQueue, psiCacheLookups, psiDuration, psiErrors, psiThrottled } from './metrics.js';
+import { createWebhookOutbox, type DeliveryRecord, type DeliveryStatus, type WebhookOutbox } from './webhookOutbox.js';
 
 export interface AuditRequest {
     jobId: string;
     websiteUrl: string;
     priority?: number;
+    tenantId?: string;
+    // API client that submitted the job; selects the callback signing secret
+    clientId?: string;
+    // Overrides the client's default callback (already checked against the allow-list)
+    callbackUrl?: string;
     options?: {
         mobile?: boolean;
         includeScreenshot?: boolean;
         customUserAgent?: string;
         includePageSpeedInsights?: boolean;
+        // Run Lighthouse locally when PSI is not requested or unavailable
+        includeLighthouse?: boolean;
+        // Validate every <a href> on the page (HEAD with GET fallback)
+        checkLinks?: boolean;
+        // Render mock Facebook/LinkedIn/X link previews for the report
+        renderSocialPreviews?: boolean;
+        // Record a HAR of the page load and store it as a job artifact
+        captureHar?: boolean;
+        // When present the audit crawls internal links instead of a single URL
+        crawl?: CrawlOptions;
     };
 }
 
-export interface AuditResult {
-    jobId: string;
-    status: 'COMPLETED' | 'FAILED';
-    results?: {
-        performanceScore?: number;
-        seoScore?: number;
-        accessibilityScore?: number;
-        bestPracticesScore?: number;
-        issues?: Array<{
-            type: 'ERROR' | 'WARNING' | 'INFO';
-            category: 'PERFORMANCE' | 'SEO' | 'ACCESSIBILITY' | 'BEST_PRACTICES';
-            title: string;
-            description: string;
-            impact: 'HIGH' | 'MEDIUM' | 'LOW';
-            recommendation: string;
-        }>;
-        metrics?: {
-            loadTime?: number;
-            cumulativeLayoutShift?: number;
-        };
-        pageSpeedMetrics?: {
-            desktop?: {
-                performanceScore?: number;
-                firstContentfulPaint?: number;
-                largestContentfulPaint?: number;
-                firstInputDelay?: number;
-                cumulativeLayoutShift?: number;
-                speedIndex?: number;
-                totalBlockingTime?: number;
-            };
-            mobile?: {
-                performanceScore?: number;
-                firstContentfulPaint?: number;
-                largestContentfulPaint?: number;
-                firstInputDelay?: number;
-                cumulativeLayoutShift?: number;
-                speedIndex?: number;
-                totalBlockingTime?: number;
-            };
-        };
-        // Detailed breakdown for each category
-        categoryDetails?: {
-            performance?: {
-                score: number;
-                items: Array<{
-                    title: string;
-                    value: string | number;
-                    status: 'PASS' | 'FAIL' | 'WARNING';
-                    description: string;
-                }>;
-            };
-            seo?: {
-                score: number;
-                items: Array<{
-                    title: string;
-                    value: string | number;
-                    status: 'PASS' | 'FAIL' | 'WARNING';
-                    description: string;
-                }>;
-            };
-            accessibility?: {
-                score: number;
-                items: Array<{
-                    title: string;
-                    value: string | number;
-                    status: 'PASS' | 'FAIL' | 'WARNING';
-                    description: string;
-                }>;
-            };
-            bestPractices?: {
-                score: number;
-                items: Array<{
-                    title: string;
-                    value: string | number;
-                    status: 'PASS' | 'FAIL' | 'WARNING';
-                    description: string;
-                }>;
-            };
-        };
-        pagesCrawled?: number;
-        screenshot?: string;
-    };
-    error?: string;
+// Handle on a running audit so it can be cancelled from outside
+interface ActiveAudit {
+    controller: AbortController;
+    page: Page | null;
+    context: BrowserContext | null;
+    finished: Promise<void>;
+}
+
+// What one PSI strategy call yields; cached as-is per URL and strategy
+interface PageSpeedStrategyResult {
+    metrics: LighthouseMetrics;
+    fieldData?: FieldData;
+    opportunities: AuditIssue[];
 }
 
 export class AuditService {
     private activeBrowser: Browser | null = null;
-    private jobStatuses = new Map<string, string>();
-    private jobResults = new Map<string, AuditResult>();
-    private activeJobs = 0;
-    private readonly maxConcurrentJobs = 1;
-
-    // Queue system for processing audit requests
-    private queue: AuditRequest[] = [];
-    private pumping = false;
+    private readonly lighthouse = new LighthouseRunner();
+    private readonly ready: Promise<void>;
+    private readonly activeAudits = new Map<string, ActiveAudit>();
+    private readonly psiCache = new PageSpeedCache<PageSpeedStrategyResult>(
+        config.pageSpeed.cacheTtlSeconds * 1000,
+        config.pageSpeed.cacheMaxEntries
+    );
+    private readonly psiQuota = new PageSpeedQuota(config.pageSpeed.ratePerMinute, config.pageSpeed.dailyQuota);
+
+    // Priority/fairness scheduler for audit requests
+    private readonly scheduler = new JobScheduler<AuditRequest>(request => this.runQueuedAudit(request), {
+        maxConcurrent: Math.max(1, config.maxConcurrentJobs),
+        memoryLimitMb: config.memoryLimit,
+        jobMemoryMb: config.scheduler.jobMemoryEstimate,
+        agingMs: config.scheduler.priorityAgingMs,
+    });
 
     // Centralized timeouts
     private readonly TIME = {
         job: 150_000,
         nav: 45_000,
         page: 75_000,
-        psi: 60_000
+        psi: 60_000,
+        lighthouse: 60_000,
+        crawlPage: 60_000
     } as const;
 
+    constructor(
+        private readonly store: JobStore = createJobStore(),
+        private readonly outbox: WebhookOutbox = createWebhookOutbox()
+    ) {
+        observeQueue(() => ({ queued: this.scheduler.queuedCount, active: this.scheduler.activeCount }));
+        this.ready = this.restoreJobs().catch(err => {
+            console.error('[jobstore] failed to restore jobs:', (err as Error).message);
+        });
+    }
+
     // ---------- URL validation ----------
 
-    private normalizeAndValidateUrl(raw: string): string {
-        const u = new URL(raw);
-        if (!['http:', 'https:'].includes(u.protocol)) throw new Error('Only http/https allowed');
-        const host = u.hostname.toLowerCase();
-        if (['localhost', '127.0.0.1', '::1'].includes(host)) throw new Error('Local addresses not allowed');
+    // Resolves DNS and rejects private/reserved targets (see urlSafety)
+    private async normalizeAndValidateUrl(raw: string): Promise<string> {
+        const u = await assertSafeUrl(raw);
         return u.toString();
     }
 
@@ -217,7 +203,14 @@ export class AuditService {
             timestamp: new Date().toISOString(),
         });
 
-        return puppeteer.launch(launchOpts);
+        try {
+            const browser = await puppeteer.launch(launchOpts);
+            browserLaunches.inc({ service: 'audit', outcome: 'ok' });
+            return browser;
+        } catch (error) {
+            browserLaunches.inc({ service: 'audit', outcome: 'error' });
+            throw error;
+        }
     }
 
     private async getBrowser(): Promise<Browser> {
@@ -241,6 +234,7 @@ export class AuditService {
                 return browser;
             } catch (error) {
                 console.error(`[browser] attempt ${attempt} failed:`, (error as Error).message);
+                browserRestarts.inc({ service: 'audit' });
                 
                 // Force cleanup and retry
                 try { 
@@ -262,36 +256,139 @@ export class AuditService {
     // ---------- Public API ----------
 
     async startAudit(request: AuditRequest): Promise<void> {
-        this.jobStatuses.set(request.jobId, 'QUEUED');
-        this.queue.push(request);
-        this.pumpQueue();
+        await this.ready;
+        await this.store.saveRequest(request);
+        this.scheduler.enqueue(request);
     }
 
-    private async pumpQueue(): Promise<void> {
-        if (this.pumping) return;
-        this.pumping = true;
-        try {
-            while (this.activeJobs < this.maxConcurrentJobs && this.queue.length) {
-                const next = this.queue.shift()!;
-                this.activeJobs++;
-                this.jobStatuses.set(next.jobId, 'PROCESSING');
-
-                this.processAudit(next).finally(() => {
-                    this.activeJobs--;
-                    this.pumpQueue();
-                });
+    /**
+     * Re-queue jobs that were QUEUED or PROCESSING when the process stopped.
+     * Jobs interrupted too many times are failed instead of retried forever.
+     */
+    private async restoreJobs(): Promise<void> {
+        const records = await this.store.load();
+        const pending = records
+            .filter(r => r.status === 'QUEUED' || r.status === 'PROCESSING')
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+        for (const record of pending) {
+            if (record.status === 'PROCESSING' && record.attempts >= config.jobStore.maxAttempts) {
+                console.warn(`[jobstore] job ${record.jobId} interrupted ${record.attempts} times – marking FAILED`);
+                const fail: AuditResult = {
+                    jobId: record.jobId,
+                    status: 'FAILED',
+                    error: `Job interrupted by service restart ${record.attempts} times`,
+                };
+                await this.store.saveResult(fail);
+                this.sendCallback(record.request, fail).catch(err => console.warn('[callback] error (ignored):', err));
+                continue;
             }
+
+            if (record.status === 'PROCESSING') {
+                console.log(`[jobstore] re-queueing job ${record.jobId} interrupted while PROCESSING`);
+                await this.store.updateStatus(record.jobId, 'QUEUED');
+            }
+            this.scheduler.enqueue(record.request);
+        }
+
+        if (pending.length) {
+            console.log(`[jobstore] restored ${this.scheduler.queuedCount + this.scheduler.activeCount} pending job(s)`);
+        }
+    }
+
+    private async runQueuedAudit(request: AuditRequest): Promise<void> {
+        const active: ActiveAudit = { controller: new AbortController(), page: null, context: null, finished: Promise.resolve() };
+        this.activeAudits.set(request.jobId, active);
+
+        active.finished = (async () => {
+            await this.store.updateStatus(request.jobId, 'PROCESSING')
+                .catch(err => console.error(`[jobstore] failed to mark ${request.jobId} PROCESSING:`, (err as Error).message));
+            await this.processAudit(request, active);
+        })();
+
+        try {
+            await active.finished;
         } finally {
-            this.pumping = false;
+            this.activeAudits.delete(request.jobId);
         }
     }
 
-    async getAuditStatus(jobId: string): Promise<string | null> {
-        return this.jobStatuses.get(jobId) || null;
+    /**
+     * Cancel a QUEUED or PROCESSING audit. Queued jobs are dropped from the
+     * queue; running ones are aborted by closing their page and context.
+     * Returns null when the job is unknown.
+     */
+    async cancelAudit(jobId: string, clientId: string | undefined): Promise<{ status: string; cancelled: boolean } | null> {
+        const job = await this.getAuditJob(jobId, clientId);
+        if (!job) return null;
+        if (job.status !== 'QUEUED' && job.status !== 'PROCESSING') {
+            return { status: job.status, cancelled: false };
+        }
+
+        if (this.scheduler.remove(jobId)) {
+            console.log(`[audit] job ${jobId} removed from queue`);
+            const cancelled: AuditResult = { jobId, status: 'CANCELLED', error: 'Cancelled before processing started' };
+            await this.store.saveResult(cancelled);
+            this.sendCallback(job.request, cancelled).catch(err => console.warn('[callback] error (ignored):', err));
+            return { status: 'CANCELLED', cancelled: true };
+        }
+
+        const active = this.activeAudits.get(jobId);
+        if (!active) return { status: job.status, cancelled: false };
+
+        console.log(`[audit] aborting job ${jobId}`);
+        active.controller.abort();
+        // Closing the page and context makes any in-flight Puppeteer call reject
+        try { await active.page?.close({ runBeforeUnload: false }); } catch { /* ignore */ }
+        try { await active.context?.close(); } catch { /* ignore */ }
+
+        await Promise.race([active.finished, new Promise(resolve => setTimeout(resolve, 10_000))]);
+        const after = await this.store.get(jobId);
+        return { status: after?.status || 'CANCELLED', cancelled: true };
+    }
+
+    async getAuditStatus(jobId: string, clientId: string | undefined): Promise<string | null> {
+        const job = await this.getAuditJob(jobId, clientId);
+        return job?.status || null;
+    }
+
+    /** Whether any client already uses `jobId`; callers may choose their own ids. */
+    async hasJob(jobId: string): Promise<boolean> {
+        await this.ready;
+        return !!(await this.store.get(jobId));
+    }
+
+    getQueuePosition(jobId: string): number | null {
+        return this.scheduler.positionOf(jobId);
+    }
+
+    listDeliveries(filter: { status?: DeliveryStatus; jobId?: string }, clientId: string | undefined): DeliveryRecord[] {
+        return this.outbox.list({ ...filter, clientId: clientId || DEFAULT_CLIENT_ID });
+    }
+
+    async replayDelivery(deliveryId: string, clientId: string | undefined): Promise<DeliveryRecord | null> {
+        const delivery = this.outbox.get(deliveryId);
+        if (!delivery || !isOwnedBy(delivery.clientId, clientId)) return null;
+        // Finished deliveries no longer hold their payload; resend the stored result
+        const job = delivery.payload === undefined ? await this.store.get(delivery.jobId) : null;
+        return this.outbox.replay(deliveryId, job?.result);
+    }
+
+    // Jobs of other API clients look the same as unknown ones
+    async getAuditJob(jobId: string, clientId: string | undefined): Promise<JobRecord | null> {
+        await this.ready;
+        const job = await this.store.get(jobId);
+        return job && isOwnedBy(job.request.clientId, clientId) ? job : null;
+    }
+
+    async getAuditArtifact(jobId: string, name: string, clientId: string | undefined): Promise<string | null> {
+        if (!(await this.getAuditJob(jobId, clientId))) return null;
+        return this.store.getArtifact(jobId, name);
     }
 
-    async getAuditDetails(jobId: string): Promise<AuditResult | null> {
-        return this.jobResults.get(jobId) || null;
+    async getAuditDetails(jobId: string, clientId: string | undefined): Promise<AuditResult | null> {
+        const job = await this.getAuditJob(jobId, clientId);
+        return job?.result || null;
     }
 
     async cleanup(): Promise<void> {
@@ -302,24 +399,12 @@ export class AuditService {
     // ---------- PageSpeed Insights API ----------
 
     private async getPageSpeedInsights(url: string): Promise<{
-        desktop: {
-            performanceScore: number;
-            firstContentfulPaint: number;
-            largestContentfulPaint: number;
-            firstInputDelay: number;
-            cumulativeLayoutShift: number;
-            speedIndex: number;
-            totalBlockingTime: number;
-        };
-        mobile: {
-            performanceScore: number;
-            firstContentfulPaint: number;
-            largestContentfulPaint: number;
-            firstInputDelay: number;
-            cumulativeLayoutShift: number;
-            speedIndex: number;
-            totalBlockingTime: number;
-        };
+        desktop: LighthouseMetrics;
+        mobile: LighthouseMetrics;
+        fieldData: AuditResults['fieldData'];
+        opportunities: AuditIssue[];
+        cacheStatus: 'live' | 'cached' | 'stale';
+        fetchedAt: string;
     } | null> {
         if (!config.pageSpeedApiKey) {
             console.warn('[pagespeed] No API key configured, skipping PageSpeed Insights');
@@ -330,10 +415,12 @@ export class AuditService {
             console.log('[pagespeed] Calling PageSpeed Insights API for:', url);
 
             // Fetch both desktop and mobile scores in parallel
-            const [desktopResponse, mobileResponse] = await Promise.all([
-                this.fetchPageSpeedStrategy(url, 'desktop'),
-                this.fetchPageSpeedStrategy(url, 'mobile')
+            const [desktop, mobile] = await Promise.all([
+                this.getPageSpeedStrategy(url, 'desktop'),
+                this.getPageSpeedStrategy(url, 'mobile')
             ]);
+            const desktopResponse = desktop?.result;
+            const mobileResponse = mobile?.result;
 
             if (!desktopResponse || !mobileResponse) {
                 console.error('[pagespeed] Failed to fetch both desktop and mobile metrics');
@@ -342,9 +429,20 @@ export class AuditService {
 
             console.log('[pagespeed] Successfully retrieved both desktop and mobile metrics');
 
+            const fieldData = desktopResponse.fieldData || mobileResponse.fieldData
+                ? { desktop: desktopResponse.fieldData, mobile: mobileResponse.fieldData }
+                : undefined;
+
             return {
-                desktop: desktopResponse,
-                mobile: mobileResponse
+                desktop: desktopResponse.metrics,
+                mobile: mobileResponse.metrics,
+                fieldData,
+                // Mobile is the stricter run and the one search ranking uses
+                opportunities: mobileResponse.opportunities.length ? mobileResponse.opportunities : desktopResponse.opportunities,
+                // Report the weakest of the two: any stale half makes the pair stale, any live half makes it live
+                cacheStatus: desktop!.cacheStatus === 'stale' || mobile!.cacheStatus === 'stale' ? 'stale'
+                    : desktop!.cacheStatus === 'live' || mobile!.cacheStatus === 'live' ? 'live' : 'cached',
+                fetchedAt: (desktop!.fetchedAt < mobile!.fetchedAt ? desktop! : mobile!).fetchedAt.toISOString()
             };
 
         } catch (error) {
@@ -353,15 +451,45 @@ export class AuditService {
         }
     }
 
-    private async fetchPageSpeedStrategy(url: string, strategy: 'desktop' | 'mobile'): Promise<{
-        performanceScore: number;
-        firstContentfulPaint: number;
-        largestContentfulPaint: number;
-        firstInputDelay: number;
-        cumulativeLayoutShift: number;
-        speedIndex: number;
-        totalBlockingTime: number;
+    /**
+     * One strategy through the response cache and quota guard. Fresh cache
+     * hits skip the API; when the quota is spent or the API fails, an expired
+     * entry is served as stale rather than dropping PSI data altogether.
+     */
+    private async getPageSpeedStrategy(url: string, strategy: 'desktop' | 'mobile'): Promise<{
+        result: PageSpeedStrategyResult;
+        cacheStatus: 'live' | 'cached' | 'stale';
+        fetchedAt: Date;
     } | null> {
+        const key = pageSpeedCacheKey(url, strategy);
+        const cached = this.psiCache.get(key);
+        if (cached?.fresh) {
+            psiCacheLookups.inc({ result: 'hit' });
+            console.log(`[pagespeed] ${strategy} cache hit (fetched ${cached.storedAt.toISOString()})`);
+            return { result: cached.value, cacheStatus: 'cached', fetchedAt: cached.storedAt };
+        }
+        psiCacheLookups.inc({ result: cached ? 'stale' : 'miss' });
+
+        const stale = cached && { result: cached.value, cacheStatus: 'stale' as const, fetchedAt: cached.storedAt };
+
+        if (!await this.psiQuota.acquire(config.pageSpeed.maxWaitMs)) {
+            psiThrottled.inc({ strategy });
+            console.warn(`[pagespeed] ${strategy} skipped by quota guard (${this.psiQuota.remainingToday} left today)${stale ? ', serving stale cache entry' : ''}`);
+            return stale || null;
+        }
+
+        const live = await this.fetchPageSpeedStrategy(url, strategy);
+        if (!live) {
+            if (stale) console.warn(`[pagespeed] ${strategy} live call failed, serving stale cache entry`);
+            return stale || null;
+        }
+
+        this.psiCache.set(key, live);
+        return { result: live, cacheStatus: 'live', fetchedAt: new Date() };
+    }
+
+    private async fetchPageSpeedStrategy(url: string, strategy: 'desktop' | 'mobile'): Promise<PageSpeedStrategyResult | null> {
+        let endPsiTimer: ((labels: { outcome: string }) => number) | null = null;
         try {
             const apiUrl = new URL('https://www.googleapis.com/pagespeedonline/v5/runPagespeed');
             apiUrl.searchParams.set('url', url);
@@ -371,6 +499,7 @@ export class AuditService {
 
             const controller = new AbortController();
             const timeout = setTimeout(() => controller.abort(), this.TIME.psi);
+            endPsiTimer = psiDuration.startTimer({ strategy });
 
             const response = await fetch(apiUrl.toString(), {
                 signal: controller.signal,
@@ -383,6 +512,13 @@ export class AuditService {
 
             if (!response.ok) {
                 console.error(`[pagespeed] ${strategy} API error:`, response.status, response.statusText);
+                endPsiTimer({ outcome: 'error' });
+                psiErrors.inc({ strategy, reason: `http_${response.status}` });
+                if (response.status === 429) {
+                    // Google's quota disagrees with ours; back off before the next call
+                    const retryAfter = parseInt(response.headers.get('retry-after') || '60');
+                    this.psiQuota.pause((Number.isFinite(retryAfter) ? retryAfter : 60) * 1000);
+                }
                 const errorText = await response.text().catch(() => '');
                 console.error(`[pagespeed] ${strategy} error details:`, errorText);
                 return null;
@@ -394,44 +530,23 @@ export class AuditService {
             const lighthouseResult = data.lighthouseResult;
             if (!lighthouseResult) {
                 console.error(`[pagespeed] No lighthouse result in ${strategy} response`);
+                endPsiTimer({ outcome: 'error' });
+                psiErrors.inc({ strategy, reason: 'no_result' });
                 return null;
             }
 
-            const categories = lighthouseResult.categories;
-            const audits = lighthouseResult.audits;
-
-            const performanceScore = Math.round((categories?.performance?.score || 0) * 100);
-
-            // Core Web Vitals and other metrics
-            const firstContentfulPaint = audits?.['first-contentful-paint']?.numericValue || 0;
-            const largestContentfulPaint = audits?.['largest-contentful-paint']?.numericValue || 0;
-            const firstInputDelay = audits?.['max-potential-fid']?.numericValue || 0; // FID approximation
-            const cumulativeLayoutShift = audits?.['cumulative-layout-shift']?.numericValue || 0;
-            const speedIndex = audits?.['speed-index']?.numericValue || 0;
-            const totalBlockingTime = audits?.['total-blocking-time']?.numericValue || 0;
-
-            console.log(`[pagespeed] Successfully retrieved ${strategy} metrics:`, {
-                performanceScore,
-                firstContentfulPaint: Math.round(firstContentfulPaint),
-                largestContentfulPaint: Math.round(largestContentfulPaint),
-                firstInputDelay: Math.round(firstInputDelay),
-                cumulativeLayoutShift: Math.round(cumulativeLayoutShift * 1000) / 1000,
-                speedIndex: Math.round(speedIndex),
-                totalBlockingTime: Math.round(totalBlockingTime),
-            });
-
-            return {
-                performanceScore,
-                firstContentfulPaint: Math.round(firstContentfulPaint),
-                largestContentfulPaint: Math.round(largestContentfulPaint),
-                firstInputDelay: Math.round(firstInputDelay),
-                cumulativeLayoutShift: Math.round(cumulativeLayoutShift * 1000) / 1000,
-                speedIndex: Math.round(speedIndex),
-                totalBlockingTime: Math.round(totalBlockingTime),
-            };
+            const metrics = extractLighthouseMetrics(lighthouseResult);
+            // Real-user CrUX data; missing for sites without enough Chrome traffic
+            const fieldData = extractFieldData(data);
+            console.log(`[pagespeed] Successfully retrieved ${strategy} metrics:`, metrics, fieldData ? `(field data: ${fieldData.scope})` : '(no field data)');
+            endPsiTimer({ outcome: 'ok' });
+            return { metrics, fieldData, opportunities: extractOpportunities(lighthouseResult) };
 
         } catch (error) {
-            if ((error as Error).name === 'AbortError') {
+            const reason = (error as Error).name === 'AbortError' ? 'timeout' : 'network';
+            endPsiTimer?.({ outcome: 'error' });
+            psiErrors.inc({ strategy, reason });
+            if (reason === 'timeout') {
                 console.error(`[pagespeed] ${strategy} request timeout`);
             } else {
                 console.error(`[pagespeed] Error calling ${strategy} PageSpeed Insights:`, (error as Error).message);
@@ -440,29 +555,57 @@ export class AuditService {
         }
     }
 
+    // ---------- Local Lighthouse ----------
+
+    private async getLocalLighthouse(browser: Browser, url: string): Promise<{
+        desktop: LighthouseMetrics;
+        mobile: LighthouseMetrics;
+        opportunities: AuditIssue[];
+    } | null> {
+        // Sequential on purpose: two concurrent Lighthouse runs don't fit a small instance
+        const desktop = await this.lighthouse.run(browser, url, 'desktop', this.TIME.lighthouse);
+        if (!desktop) return null;
+        const mobile = await this.lighthouse.run(browser, url, 'mobile', this.TIME.lighthouse);
+        if (!mobile) return null;
+
+        const mobileOpportunities = extractOpportunities(mobile.lhr);
+        return {
+            desktop: desktop.metrics,
+            mobile: mobile.metrics,
+            opportunities: mobileOpportunities.length ? mobileOpportunities : extractOpportunities(desktop.lhr),
+        };
+    }
+
     // ---------- Core flow ----------
 
-    private async processAudit(request: AuditRequest): Promise<void> {
+    private async processAudit(request: AuditRequest, active: ActiveAudit): Promise<void> {
+        const { signal } = active.controller;
+        const cancelled = new Promise<never>((_, rej) =>
+            signal.addEventListener('abort', () => rej(new Error('Job cancelled')), { once: true })
+        );
+        cancelled.catch(() => { /* only observed through the race below */ });
 
         let page: Page | null = null;
-        let context: any = null;
+        let context: BrowserContext | null = null;
+        const endJobTimer = jobDuration.startTimer();
         try {
             console.log('[route] queued', request.jobId);
             console.log(`[audit] job ${request.jobId} → ${request.websiteUrl}`);
 
             // Validate and normalize URL once at the top
-            const targetUrl = this.normalizeAndValidateUrl(request.websiteUrl);
+            const targetUrl = await this.normalizeAndValidateUrl(request.websiteUrl);
 
             // Quick preflight: don’t spawn Chrome if URL is dead
             try {
                 const ctrl = new AbortController();
                 const t = setTimeout(() => ctrl.abort(), 8_000);
-                const head = await fetch(targetUrl, { method: 'HEAD', signal: ctrl.signal });
+                const head = await safeFetch(targetUrl, { method: 'HEAD', signal: ctrl.signal });
                 clearTimeout(t);
                 console.log('[audit] preflight:', head.status);
             } catch (e) {
                 throw new Error(`Preflight failed: ${(e as Error).message}`);
             }
+            this.throwIfCancelled(request.jobId);
 
             // Browser operation with retry logic
             let browserRetries = 0;
@@ -473,44 +616,46 @@ export class AuditService {
                 try {
                     // Get warm browser and create incognito context
                     const browser = await this.getBrowserWithRetry();
-                    context = await browser.createBrowserContext();
+                    context = active.context = await browser.createBrowserContext();
 
                     // Create page off the context
-                    page = await this.createPageWithWatchdog(context, 25_000);
+                    page = active.page = await this.createPageWithWatchdog(context, 25_000);
                     this.hookPageLogs(page);
 
                     // Job-level watchdog so we never hang forever
                     const jobWatchdog = new Promise<never>((_, rej) =>
-                        setTimeout(() => rej(new Error('Job watchdog timeout')), this.TIME.job)
+                        setTimeout(() => rej(new Error('Job watchdog timeout')), this.jobTimeout(request))
                     );
 
                     const result = await Promise.race([
-                        this.runSinglePageAudit(page, { ...request, websiteUrl: targetUrl }),
+                        request.options?.crawl
+                            ? this.runCrawlAudit(context, page, { ...request, websiteUrl: targetUrl })
+                            : this.runSinglePageAudit(page, { ...request, websiteUrl: targetUrl }),
                         jobWatchdog,
+                        cancelled,
                     ]);
 
                     // If we get here, the audit succeeded
-                    this.jobStatuses.set(request.jobId, 'COMPLETED');
-                    this.jobResults.set(request.jobId, result);
+                    await this.store.saveResult(result);
                     console.log(`[audit] job ${request.jobId} completed`, {
                         performance: result.results?.performanceScore,
                         seo: result.results?.seoScore,
                         accessibility: result.results?.accessibilityScore,
                         bestPractices: result.results?.bestPracticesScore,
                     });
-                    this.sendCallback(result).catch(err => console.warn('[callback] error (ignored):', err));
+                    this.sendCallback(request, result).catch(err => console.warn('[callback] error (ignored):', err));
+                    endJobTimer({ outcome: 'completed' });
                     auditCompleted = true; // Success - exit the retry loop
 
                 } catch (auditError) {
                     const errText = auditError instanceof Error ? auditError.message : 'Unknown error';
                     console.error(`[audit] job ${request.jobId} attempt ${browserRetries + 1} failed:`, errText);
 
+                    // Closed pages after a cancel look like connectivity errors – never retry those
+                    if (signal.aborted) throw auditError;
+
                     // Check if this is a browser connectivity issue
-                    if (errText.includes('Target closed') || 
-                        errText.includes('Protocol error') || 
-                        errText.includes('Session closed') ||
-                        errText.includes('Connection closed') ||
-                        errText.includes('Page is closed')) {
+                    if (this.isBrowserConnectivityError(errText)) {
                         
                         browserRetries++;
                         if (browserRetries <= maxBrowserRetries) {
@@ -538,13 +683,24 @@ export class AuditService {
             }
 
         } catch (error) {
+            if (signal.aborted) {
+                console.log(`[audit] job ${request.jobId} cancelled`);
+                endJobTimer({ outcome: 'cancelled' });
+                const cancelledResult: AuditResult = { jobId: request.jobId, status: 'CANCELLED', error: 'Cancelled by client' };
+                await this.store.saveResult(cancelledResult).catch(err =>
+                    console.error(`[jobstore] failed to persist cancellation for ${request.jobId}:`, (err as Error).message));
+                this.sendCallback(request, cancelledResult).catch(err => console.warn('[callback] error (ignored):', err));
+                return;
+            }
+
             const errText = error instanceof Error ? `${error.name}: ${error.message}` : 'Unknown error';
             console.error(`[audit] job ${request.jobId} failed after all retries:`, errText);
+            endJobTimer({ outcome: 'failed' });
 
             const fail: AuditResult = { jobId: request.jobId, status: 'FAILED', error: errText };
-            this.jobStatuses.set(request.jobId, 'FAILED');
-            this.jobResults.set(request.jobId, fail);
-            this.sendCallback(fail).catch(err => console.warn('[callback] error (ignored):', err));
+            await this.store.saveResult(fail).catch(err =>
+                console.error(`[jobstore] failed to persist failure for ${request.jobId}:`, (err as Error).message));
+            this.sendCallback(request, fail).catch(err => console.warn('[callback] error (ignored):', err));
         } finally {
             // Close page and context only (keep browser warm)
             try { await page?.close({ runBeforeUnload: false }); } catch { /* ignore */ }
@@ -557,6 +713,33 @@ export class AuditService {
 
     // ---------- Helpers ----------
 
+    private jobTimeout(request: AuditRequest): number {
+        const crawl = request.options?.crawl;
+        // Every audited page gets the hreflang fetches, and the link-check pass when it is enabled
+        const perPage = config.hreflang.budgetMs + (request.options?.checkLinks ? config.linkCheck.budgetMs : 0);
+        // robots.txt and sitemaps are fetched once per site, plus once more to seed a crawl
+        const site = config.sitemap.budgetMs * (crawl?.useSitemap ? 2 : 1);
+        // Two sequential Lighthouse runs (desktop + mobile) on top of the page audit
+        const base = (request.options?.includeLighthouse && config.lighthouse.enabled
+            ? this.TIME.job + 2 * this.TIME.lighthouse
+            : this.TIME.job) + site + perPage;
+        return crawl ? base + (crawl.maxPages - 1) * (this.TIME.crawlPage + perPage) : base;
+    }
+
+    private throwIfCancelled(jobId: string): void {
+        if (this.activeAudits.get(jobId)?.controller.signal.aborted) {
+            throw new Error('Job cancelled');
+        }
+    }
+
+    private isBrowserConnectivityError(errText: string): boolean {
+        return errText.includes('Target closed') ||
+            errText.includes('Protocol error') ||
+            errText.includes('Session closed') ||
+            errText.includes('Connection closed') ||
+            errText.includes('Page is closed');
+    }
+
     private async createPageWithWatchdog(host: { newPage(): Promise<Page> }, timeoutMs: number): Promise<Page> {
         console.log('[audit] creating page…');
         const created = await Promise.race([
@@ -576,10 +759,97 @@ export class AuditService {
         page.on('requestfailed', r => console.warn('[requestfailed]', r.url(), r.failure()?.errorText));
     }
 
+    private webVitalItems(vitals: WebVitals | null): CategoryDetail['items'] {
+        if (!vitals) return [];
+        const items: CategoryDetail['items'] = [];
+
+        if (vitals.largestContentfulPaint !== undefined) {
+            items.push({
+                title: 'Largest Contentful Paint (Measured)',
+                value: `${vitals.largestContentfulPaint}ms`,
+                status: rateVital('largestContentfulPaint', vitals.largestContentfulPaint),
+                description: vitals.lcpElement
+                    ? `Largest element rendered was ${vitals.lcpElement}`
+                    : 'Time until the largest content element rendered in the audit browser'
+            });
+        }
+        items.push({
+            title: 'Cumulative Layout Shift (Measured)',
+            value: vitals.cumulativeLayoutShift.toString(),
+            status: rateVital('cumulativeLayoutShift', vitals.cumulativeLayoutShift),
+            description: vitals.layoutShiftSources.length
+                ? `Largest shifts from: ${vitals.layoutShiftSources.map(s => `${s.element} (${s.score})`).join(', ')}`
+                : 'No unexpected layout shifts observed'
+        });
+        if (vitals.interactionToNextPaint !== undefined) {
+            items.push({
+                title: 'Interaction to Next Paint (Measured)',
+                value: `${vitals.interactionToNextPaint}ms`,
+                status: rateVital('interactionToNextPaint', vitals.interactionToNextPaint),
+                description: 'Latency of a scripted click and keypress; real-user INP may differ'
+            });
+        }
+        if (vitals.firstContentfulPaint !== undefined) {
+            items.push({
+                title: 'First Contentful Paint (Measured)',
+                value: `${vitals.firstContentfulPaint}ms`,
+                status: rateVital('firstContentfulPaint', vitals.firstContentfulPaint),
+                description: 'Time until first content rendered in the audit browser'
+            });
+        }
+        if (vitals.timeToFirstByte !== undefined) {
+            items.push({
+                title: 'Time to First Byte',
+                value: `${vitals.timeToFirstByte}ms`,
+                status: rateVital('timeToFirstByte', vitals.timeToFirstByte),
+                description: 'Time until the first byte of the document arrived'
+            });
+        }
+        items.push({
+            title: 'Total Blocking Time (Measured)',
+            value: `${vitals.totalBlockingTime}ms`,
+            status: rateVital('totalBlockingTime', vitals.totalBlockingTime),
+            description: `${vitals.longTasks} long task(s) blocked the main thread`
+        });
+
+        return items;
+    }
+
+    private fieldDataItems(fieldData: AuditResults['fieldData']): CategoryDetail['items'] {
+        const items: CategoryDetail['items'] = [];
+        const status = { FAST: 'PASS', AVERAGE: 'WARNING', SLOW: 'FAIL' } as const;
+        const metrics = [
+            { key: 'largestContentfulPaint', name: 'Largest Contentful Paint', format: (v: number) => `${v}ms` },
+            { key: 'interactionToNextPaint', name: 'Interaction to Next Paint', format: (v: number) => `${v}ms` },
+            { key: 'cumulativeLayoutShift', name: 'Cumulative Layout Shift', format: (v: number) => v.toString() },
+        ] as const;
+
+        for (const strategy of ['mobile', 'desktop'] as const) {
+            const data = fieldData?.[strategy];
+            if (!data) continue;
+            for (const { key, name, format } of metrics) {
+                const metric = data[key];
+                if (!metric) continue;
+                const { good, needsImprovement, poor } = metric.distribution;
+                items.push({
+                    title: `${name} (Field, ${strategy === 'mobile' ? 'Mobile' : 'Desktop'})`,
+                    value: `${format(metric.percentile)} p75`,
+                    status: status[metric.category],
+                    description: `Real Chrome users on this ${data.scope === 'url' ? 'page' : 'origin'}: ` +
+                        `${Math.round(good * 100)}% good, ${Math.round(needsImprovement * 100)}% needs improvement, ${Math.round(poor * 100)}% poor`
+                });
+            }
+        }
+
+        return items;
+    }
+
     private async runSinglePageAudit(page: Page, request: AuditRequest): Promise<AuditResult> {
         // Use a more modern, less detectable user agent
         const ua = request.options?.customUserAgent ||
             'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+        // Stops the outbound fetches (sitemaps, hreflang alternates, links) when the job is cancelled
+        const signal = this.activeAudits.get(request.jobId)?.controller.signal;
 
         console.log('[audit] setUserAgent');
         await page.setUserAgent(ua);
@@ -597,19 +867,31 @@ export class AuditService {
         page.setDefaultTimeout(this.TIME.page);
         page.setDefaultNavigationTimeout(this.TIME.nav);
 
-        // Light request interception (only when not screenshotting)
-        if (!request.options?.includeScreenshot) {
-            await page.setRequestInterception(true);
-            const blocked = ['doubleclick.net', 'googletagmanager.com', 'facebook.net', 'youtube.com'];
-            page.on('request', r => {
-                const url = r.url();
-                if (blocked.some(d => url.includes(d))) return r.abort();
-                r.continue();
-            });
-        }
+        // Every request is checked for SSRF; trackers are also dropped when not screenshotting
+        const blocked = request.options?.includeScreenshot
+            ? []
+            : ['doubleclick.net', 'googletagmanager.com', 'facebook.net', 'youtube.com'];
+        await guardPageRequests(page, { tag: 'audit', block: url => blocked.some(d => url.includes(d)) });
+
+        // Observers must be in place before the page's own scripts run
+        await installWebVitals(page);
+        const resourceTracker = trackResourceFailures(page);
+        // robots.txt and sitemaps download while the page loads
+        void loadSiteSignals(request.websiteUrl, signal);
+        const consoleTracker = trackConsoleMessages(page);
+        const navigations = trackNavigations(page);
+        const har = request.options?.captureHar !== false
+            ? await recordHar(page).catch(e => {
+                console.warn('[audit] HAR recording unavailable:', (e as Error).message);
+                return null;
+            })
+            : null;
 
         console.log('[audit] navigating', request.websiteUrl);
-        const response = await this.progressiveGoto(page, request.websiteUrl);
+        const response = await this.progressiveGoto(page, request.websiteUrl, () => {
+            navigations.restart();
+            har?.restart();
+        });
         console.log('[audit] navigation ok:', response?.status());
 
         // Enhanced dynamic content wait with more resources
@@ -651,30 +933,56 @@ export class AuditService {
             loadTime = Number.isFinite(nav0.loadEventEnd) ? Math.floor(nav0.loadEventEnd) : 0;
         } catch { /* ignore */ }
 
+        console.log('[audit] collecting web vitals');
+        const vitals = await collectWebVitals(page);
+
         // Get PageSpeed Insights data if requested
-        let pageSpeedMetrics: NonNullable<NonNullable<AuditResult['results']>['pageSpeedMetrics']> | undefined;
+        let pageSpeedMetrics: AuditResults['pageSpeedMetrics'];
+        let fieldData: AuditResults['fieldData'];
+        let opportunities: AuditIssue[] = [];
         let performanceScore: number;
 
         if (request.options?.includePageSpeedInsights) {
             console.log('[audit] fetching PageSpeed Insights data');
             const pageSpeedData = await this.getPageSpeedInsights(request.websiteUrl);
             if (pageSpeedData) {
-                pageSpeedMetrics = pageSpeedData;
-                // Calculate combined performance score from desktop and mobile
-                // Weight: 60% desktop, 40% mobile (desktop slightly prioritized)
-                const desktopScore = pageSpeedData.desktop.performanceScore;
-                const mobileScore = pageSpeedData.mobile.performanceScore;
-                performanceScore = Math.round((desktopScore * 0.6) + (mobileScore * 0.4));
-
-                console.log(`[audit] combined performance score: ${performanceScore} (desktop: ${desktopScore}, mobile: ${mobileScore})`);
-            } else {
-                // Fallback to basic performance scoring if PageSpeed fails
-                performanceScore = Math.max(0, Math.min(100, 100 - Math.floor(loadTime / 100)));
+                pageSpeedMetrics = {
+                    source: 'pagespeed',
+                    cacheStatus: pageSpeedData.cacheStatus,
+                    fetchedAt: pageSpeedData.fetchedAt,
+                    desktop: pageSpeedData.desktop,
+                    mobile: pageSpeedData.mobile,
+                };
+                fieldData = pageSpeedData.fieldData;
+                opportunities = pageSpeedData.opportunities;
+            }
+        }
+
+        // Local Lighthouse when PSI was not requested or failed
+        if (!pageSpeedMetrics && request.options?.includeLighthouse && config.lighthouse.enabled) {
+            console.log('[audit] running local Lighthouse');
+            const lighthouseData = await this.getLocalLighthouse(page.browser(), request.websiteUrl);
+            if (lighthouseData) {
+                pageSpeedMetrics = { source: 'lighthouse', desktop: lighthouseData.desktop, mobile: lighthouseData.mobile };
+                opportunities = lighthouseData.opportunities;
             }
+        }
+
+        if (pageSpeedMetrics?.desktop && pageSpeedMetrics.mobile) {
+            // Calculate combined performance score from desktop and mobile
+            // Weight: 60% desktop, 40% mobile (desktop slightly prioritized)
+            const desktopScore = pageSpeedMetrics.desktop.performanceScore || 0;
+            const mobileScore = pageSpeedMetrics.mobile.performanceScore || 0;
+            performanceScore = Math.round((desktopScore * 0.6) + (mobileScore * 0.4));
+
+            console.log(`[audit] combined performance score: ${performanceScore} (desktop: ${desktopScore}, mobile: ${mobileScore}, source: ${pageSpeedMetrics.source})`);
         } else {
-            // Use basic performance scoring when PageSpeed Insights is not requested
-            performanceScore = Math.max(0, Math.min(100, 100 - Math.floor(loadTime / 100)));
+            // Score the locally measured vitals when neither PSI nor Lighthouse produced data
+            performanceScore = (vitals && scoreWebVitals(vitals))
+                ?? Math.max(0, Math.min(100, 100 - Math.floor(loadTime / 100)));
         }
+        this.throwIfCancelled(request.jobId);
+        const perfSource = pageSpeedMetrics?.source === 'lighthouse' ? 'Local Lighthouse' : 'Google PageSpeed Insights';
 
         // Basic SEO
         console.log('[audit] SEO checks');
@@ -686,8 +994,6 @@ export class AuditService {
                     const h1s = document.querySelectorAll('h1');
                     const viewport = document.querySelector('meta[name="viewport"]');
                     const metaKeywords = document.querySelector('meta[name="keywords"]');
-                    const ogTitle = document.querySelector('meta[property="og:title"]');
-                    const ogDescription = document.querySelector('meta[property="og:description"]');
                     const canonicalLink = document.querySelector('link[rel="canonical"]');
 
                     let score = 0;
@@ -789,20 +1095,6 @@ export class AuditService {
                     }
 
                     // Additional SEO checks
-                    details.push({
-                        title: 'Open Graph Title',
-                        value: ogTitle ? 'Present' : 'Missing',
-                        status: ogTitle ? 'PASS' : 'WARNING',
-                        description: ogTitle ? 'Page has Open Graph title for social sharing' : 'Consider adding Open Graph title'
-                    });
-
-                    details.push({
-                        title: 'Open Graph Description',
-                        value: ogDescription ? 'Present' : 'Missing',
-                        status: ogDescription ? 'PASS' : 'WARNING',
-                        description: ogDescription ? 'Page has Open Graph description for social sharing' : 'Consider adding Open Graph description'
-                    });
-
                     details.push({
                         title: 'Canonical URL',
                         value: canonicalLink ? 'Present' : 'Missing',
@@ -817,9 +1109,10 @@ export class AuditService {
 
         const seoScore = seoData.score;
 
-        // Basic a11y
+        // Accessibility: axe-core rule results, with the basic heuristic as fallback
         console.log('[audit] accessibility checks');
-        const accessibilityData = await page
+        const axeResult = await runAccessibilityEngine(page);
+        const accessibilityData = axeResult ? { score: axeResult.score, details: axeResult.items } : await page
             .evaluate(() => {
                 try {
                     const images = Array.from(document.querySelectorAll('img'));
@@ -1147,18 +1440,7 @@ export class AuditService {
                         description: hasFavicon ? 'Page has a favicon' : 'Consider adding a favicon for better user experience'
                     });
 
-                    // Check for robots meta tag or robots.txt reference (10% weight)
-                    const robotsMeta = document.querySelector('meta[name="robots"]');
-                    const hasRobotsDirective = !!robotsMeta;
-                    if (hasRobotsDirective) score += 5; // Partial credit for having robots directive
-                    totalChecks++;
-
-                    details.push({
-                        title: 'Robots Directive',
-                        value: hasRobotsDirective ? 'Present' : 'Not specified',
-                        status: hasRobotsDirective ? 'PASS' : 'WARNING',
-                        description: hasRobotsDirective ? 'Page has robots meta directive' : 'Consider adding robots meta tag or robots.txt for SEO control'
-                    });
+                    // Robots directive is scored after the page checks from robots.txt and the meta tags
 
                     return {
                         score: Math.round(Math.max(0, Math.min(100, score))),
@@ -1174,42 +1456,58 @@ export class AuditService {
                 return { score: 75, details: [] };
             });
 
-        const bestPracticesScore = bestPracticesData.score;
+        // The page has settled; later checks use their own pages or plain fetches
+        let network: NetworkSummary | undefined;
+        if (har) {
+            const log = await har.stop();
+            network = summarizeHar(log);
+            console.log(`[audit] HAR: ${network.requests} request(s), ${network.transferSize} bytes`);
+            await this.store.saveArtifact(request.jobId, 'audit.har', JSON.stringify(log))
+                .catch(err => console.warn('[jobstore] failed to store HAR:', (err as Error).message));
+        }
 
-        // Collect JavaScript errors and console warnings
-        console.log('[audit] collecting JavaScript errors and warnings');
-        const jsIssues = await page.evaluate(() => {
-            try {
-                const errors: string[] = [];
-                const warnings: string[] = [];
-                
-                // Check for global error handlers
-                if (window.onerror) {
-                    // We can't easily capture runtime errors in this context,
-                    // so we'll check for some common issues instead
-                }
-                
-                // Check for common problematic patterns
-                const scripts = Array.from(document.querySelectorAll('script:not([src])')).map(s => s.textContent || '');
-                let errorCount = 0;
-                let warningCount = 0;
-                
-                for (const script of scripts) {
-                    // Check for common error patterns
-                    if (script.includes('console.error') || script.includes('throw ')) errorCount++;
-                    if (script.includes('console.warn') || script.includes('deprecated')) warningCount++;
-                }
-                
-                // Check for missing alt attributes (these generate warnings)
-                const imgWithoutAlt = document.querySelectorAll('img:not([alt])').length;
-                if (imgWithoutAlt > 0) warningCount += imgWithoutAlt;
-                
-                return { errorCount, warningCount };
-            } catch {
-                return { errorCount: 0, warningCount: 0 };
-            }
+        // Crawl rules and sitemaps live outside the page; see indexability.ts
+        console.log('[audit] indexability');
+        const indexability = await analyzeIndexability(page, response, request.websiteUrl, { signal });
+
+        // Server redirects plus any meta refresh or script navigation during the waits above
+        const redirects = analyzeRedirects(page, await navigations.stop(), request.websiteUrl, response, {
+            canonical: indexability.report.canonical,
         });
 
+        console.log('[audit] hreflang');
+        const hreflang = await analyzeHreflang(page, response, request.websiteUrl, { userAgent: ua, signal });
+
+        console.log('[audit] structured data');
+        const structuredData = await auditStructuredData(page);
+
+        console.log('[audit] social previews');
+        const social = await auditSocialPreview(page, { render: request.options?.renderSocialPreviews !== false, userAgent: ua });
+
+        // Robots directive (5% weight): robots.txt or a robots meta tag
+        const hasRobotsDirective = indexability.report.robotsTxt.found || indexability.report.directives.meta.length > 0;
+        const bestPracticesScore = Math.min(100, bestPracticesData.score + (hasRobotsDirective ? 5 : 0));
+
+        // Headers and TLS of the main document; in-page checks can't see these
+        console.log('[audit] security headers and TLS');
+        const security = auditSecurity(response, request.websiteUrl);
+
+        const resourceFailures = await locateFailedResources(page, resourceTracker.stop());
+        if (resourceFailures.length) console.log(`[audit] ${resourceFailures.length} broken subresource(s)`);
+
+        const linkCheck = request.options?.checkLinks
+            ? await checkLinks(page, { ...config.linkCheck, userAgent: ua, signal })
+            : null;
+
+        // The scripted click for INP comes after everything that reads the DOM so it can't change what they see
+        if (vitals) vitals.interactionToNextPaint = await measureInteraction(page) ?? vitals.interactionToNextPaint;
+
+        const consoleEntries = consoleTracker.stop();
+        const consoleSummary = summarizeConsole(consoleEntries);
+        if (consoleEntries.length) {
+            console.log(`[audit] console: ${consoleSummary.exceptions} exception(s), ${consoleSummary.errors} error(s), ${consoleSummary.warnings} warning(s)`);
+        }
+
         // Optional screenshot
         let screenshot: string | undefined;
         if (request.options?.includeScreenshot) {
@@ -1222,16 +1520,47 @@ export class AuditService {
             }
         }
 
+        // Summary items for checks that also list every failure as an issue
+        const linkItem = linkCheck && {
+            title: 'Broken Links',
+            value: `${linkCheck.broken.length} of ${linkCheck.checked} checked`,
+            status: linkCheck.broken.some(l => l.sameOrigin) ? 'FAIL' : linkCheck.broken.length ? 'WARNING' : 'PASS' as 'PASS' | 'WARNING' | 'FAIL',
+            description: linkCheck.broken.length ? `${linkCheck.broken.length} link(s) lead to missing or failing pages` : 'All checked links resolve'
+        };
+        const resourceItem = {
+            title: 'Broken Resources',
+            value: resourceFailures.length === 0 ? 'None detected' : `${resourceFailures.length} failed`,
+            status: resourceFailures.length === 0 ? 'PASS' : resourceFailures.some(f => f.resourceType === 'script' || f.resourceType === 'stylesheet') ? 'FAIL' : 'WARNING' as 'PASS' | 'WARNING' | 'FAIL',
+            description: resourceFailures.length === 0 ? 'All images, scripts, stylesheets and fonts loaded' : 'Some images, scripts, stylesheets or fonts failed to load or returned an HTTP error'
+        };
+        const consoleItem = {
+            title: 'JavaScript Errors',
+            value: consoleSummary.exceptions + consoleSummary.errors === 0 ? 'None detected' : `${consoleSummary.exceptions + consoleSummary.errors} logged`,
+            status: consoleSummary.exceptions > 0 ? 'FAIL' : consoleSummary.errors > 0 ? 'WARNING' : 'PASS' as 'PASS' | 'WARNING' | 'FAIL',
+            description: consoleSummary.exceptions + consoleSummary.errors === 0
+                ? 'No uncaught exceptions or console errors during page load'
+                : `${consoleSummary.exceptions} uncaught exception(s) and ${consoleSummary.errors} console error(s) during page load`
+        };
+
         const results = {
             performanceScore,
             seoScore,
             accessibilityScore,
             bestPracticesScore,
+            ...(security && { securityScore: security.score }),
             metrics: {
                 loadTime,
-                cumulativeLayoutShift: pageSpeedMetrics?.desktop?.cumulativeLayoutShift || 0,
+                ...vitals,
+                cumulativeLayoutShift: vitals?.cumulativeLayoutShift ?? pageSpeedMetrics?.desktop?.cumulativeLayoutShift ?? 0,
             },
             ...(pageSpeedMetrics && { pageSpeedMetrics }),
+            ...(fieldData && { fieldData }),
+            indexability: indexability.report,
+            redirects: redirects.report,
+            ...(network && { network }),
+            ...(hreflang.report && { hreflang: hreflang.report }),
+            structuredData: structuredData.items,
+            socialPreview: social.preview,
             categoryDetails: {
                 performance: {
                     score: performanceScore,
@@ -1248,13 +1577,13 @@ export class AuditService {
                                 title: 'Desktop Performance Score',
                                 value: `${pageSpeedMetrics.desktop?.performanceScore || 0}/100`,
                                 status: (pageSpeedMetrics.desktop?.performanceScore || 0) >= 90 ? 'PASS' : (pageSpeedMetrics.desktop?.performanceScore || 0) >= 50 ? 'WARNING' : 'FAIL' as 'PASS' | 'WARNING' | 'FAIL',
-                                description: 'Google PageSpeed Insights desktop performance score'
+                                description: `${perfSource} desktop performance score`
                             },
                             {
                                 title: 'Mobile Performance Score',
                                 value: `${pageSpeedMetrics.mobile?.performanceScore || 0}/100`,
                                 status: (pageSpeedMetrics.mobile?.performanceScore || 0) >= 90 ? 'PASS' : (pageSpeedMetrics.mobile?.performanceScore || 0) >= 50 ? 'WARNING' : 'FAIL' as 'PASS' | 'WARNING' | 'FAIL',
-                                description: 'Google PageSpeed Insights mobile performance score'
+                                description: `${perfSource} mobile performance score`
                             }
                         ] : []),
                         {
@@ -1263,6 +1592,8 @@ export class AuditService {
                             status: loadTime < 2000 ? 'PASS' : loadTime < 4000 ? 'WARNING' : 'FAIL' as 'PASS' | 'WARNING' | 'FAIL',
                             description: loadTime < 2000 ? 'Page loads quickly' : loadTime < 4000 ? 'Page load time could be improved' : 'Page loads slowly, consider optimizing'
                         },
+                        ...this.webVitalItems(vitals),
+                        ...this.fieldDataItems(fieldData),
                         ...(pageSpeedMetrics ? [
                             {
                                 title: 'First Contentful Paint (Desktop)',
@@ -1317,7 +1648,15 @@ export class AuditService {
                 },
                 seo: {
                     score: seoScore,
-                    items: seoData.details
+                    items: [
+                        ...seoData.details,
+                        ...indexability.items,
+                        ...redirects.items,
+                        ...hreflang.items,
+                        structuredData.detail,
+                        ...social.items,
+                        ...(linkItem ? [linkItem] : [])
+                    ]
                 },
                 accessibility: {
                     score: accessibilityScore,
@@ -1328,19 +1667,22 @@ export class AuditService {
                     items: [
                         ...bestPracticesData.details,
                         {
-                            title: 'JavaScript Errors',
-                            value: jsIssues.errorCount === 0 ? 'None detected' : `${jsIssues.errorCount} detected`,
-                            status: jsIssues.errorCount === 0 ? 'PASS' : jsIssues.errorCount < 3 ? 'WARNING' : 'FAIL' as 'PASS' | 'WARNING' | 'FAIL',
-                            description: jsIssues.errorCount === 0 ? 'No JavaScript errors detected during audit' : `${jsIssues.errorCount} potential JavaScript errors found`
+                            title: 'Robots Directive',
+                            value: hasRobotsDirective ? 'Present' : 'Not specified',
+                            status: hasRobotsDirective ? 'PASS' : 'WARNING' as 'PASS' | 'WARNING' | 'FAIL',
+                            description: hasRobotsDirective ? 'Site has robots.txt or the page has a robots meta tag' : 'Consider adding robots.txt or a robots meta tag for crawl control'
                         },
+                        resourceItem,
+                        consoleItem,
                         {
                             title: 'Console Warnings',
-                            value: jsIssues.warningCount === 0 ? 'None detected' : `${jsIssues.warningCount} detected`,
-                            status: jsIssues.warningCount === 0 ? 'PASS' : jsIssues.warningCount < 5 ? 'WARNING' : 'FAIL' as 'PASS' | 'WARNING' | 'FAIL',
-                            description: jsIssues.warningCount === 0 ? 'No console warnings detected' : `${jsIssues.warningCount} potential console warnings found`
+                            value: consoleSummary.warnings === 0 ? 'None detected' : `${consoleSummary.warnings} logged`,
+                            status: consoleSummary.warnings === 0 ? 'PASS' : 'WARNING' as 'PASS' | 'WARNING' | 'FAIL',
+                            description: consoleSummary.warnings === 0 ? 'No console warnings during page load' : `${consoleSummary.warnings} console warning(s) during page load`
                         }
                     ]
-                }
+                },
+                ...(security && { security: { score: security.score, items: security.items } })
             },
             pagesCrawled: 1,
             screenshot,
@@ -1348,15 +1690,41 @@ export class AuditService {
 
         // Generate issues based on audit results
         console.log('[audit] generating issues from audit results');
-        const issues = this.extractIssues({
-            performanceScore,
-            seoScore,
-            accessibilityScore,
-            bestPracticesScore,
-            loadTime,
-            categoryDetails: results.categoryDetails,
-            pageSpeedMetrics
-        });
+        const issues = [
+            ...extractIssues({
+                performanceScore,
+                seoScore,
+                accessibilityScore,
+                bestPracticesScore,
+                loadTime,
+                webVitals: vitals,
+                // axe violations become issues directly below
+                categoryDetails: axeResult ? { ...results.categoryDetails, accessibility: undefined } : results.categoryDetails,
+                // These modules' issues are appended below
+                moduleItems: new Set([
+                    ...indexability.items,
+                    resourceItem,
+                    ...(linkItem ? [linkItem] : []),
+                    consoleItem,
+                    structuredData.detail,
+                    ...social.items,
+                    ...hreflang.items,
+                    ...redirects.items,
+                ]),
+                pageSpeedMetrics
+            }),
+            ...(axeResult?.issues ?? []),
+            ...opportunities,
+            ...(security?.issues ?? []),
+            ...indexability.issues,
+            ...redirects.issues,
+            ...hreflang.issues,
+            ...structuredData.issues,
+            ...social.issues,
+            ...resourceFailureIssues(resourceFailures, page.url()),
+            ...consoleIssues(consoleEntries),
+            ...brokenLinkIssues(linkCheck?.broken ?? []),
+        ];
 
         // Add issues to results
         const finalResults = {
@@ -1367,7 +1735,140 @@ export class AuditService {
         return { jobId: request.jobId, status: 'COMPLETED', results: finalResults };
     }
 
-    private async progressiveGoto(page: Page, url: string): Promise<HTTPResponse | null> {
+    // ---------- Crawl mode ----------
+
+    private async runCrawlAudit(context: BrowserContext, firstPage: Page, request: AuditRequest): Promise<AuditResult> {
+        const crawl = request.options!.crawl!;
+        // Leave one page worth of headroom so we return partial results instead of tripping the watchdog
+        const deadline = Date.now() + this.jobTimeout(request) - this.TIME.crawlPage;
+        const frontier = new CrawlFrontier(request.websiteUrl, crawl);
+
+        if (crawl.useSitemap) {
+            const stop = AbortSignal.timeout(config.sitemap.budgetMs);
+            const cancel = this.activeAudits.get(request.jobId)?.controller.signal;
+            const seeds = await fetchSitemapUrls(request.websiteUrl, crawl.maxPages * 5, cancel ? AbortSignal.any([stop, cancel]) : stop);
+            console.log(`[crawl] seeded ${frontier.add(seeds, 1)} url(s) from sitemap`);
+        }
+
+        const pages: CrawledPage[] = [];
+        let startResult: AuditResult | null = null;
+
+        for (let target = frontier.next(); target && pages.length < crawl.maxPages; target = frontier.next()) {
+            this.throwIfCancelled(request.jobId);
+            const isStart = pages.length === 0;
+            if (!isStart && Date.now() > deadline) {
+                console.warn(`[crawl] time budget exhausted after ${pages.length} page(s), ${frontier.size + 1} left`);
+                break;
+            }
+
+            const page = isStart ? firstPage : await this.createPageWithWatchdog(context, 25_000);
+            if (!isStart) this.hookPageLogs(page);
+
+            try {
+                console.log(`[crawl] (${pages.length + 1}/${crawl.maxPages}) depth ${target.depth} → ${target.url}`);
+                const result = await this.runSinglePageAudit(page, {
+                    ...request,
+                    websiteUrl: target.url,
+                    options: {
+                        ...request.options,
+                        // Screenshot and PSI are only worth their cost on the start page
+                        includeScreenshot: isStart && request.options?.includeScreenshot,
+                        includePageSpeedInsights: isStart && request.options?.includePageSpeedInsights,
+                        includeLighthouse: isStart && request.options?.includeLighthouse,
+                        renderSocialPreviews: isStart && request.options?.renderSocialPreviews !== false,
+                        // One HAR per job: the start page's
+                        captureHar: isStart && request.options?.captureHar !== false,
+                    },
+                });
+
+                if (isStart) {
+                    startResult = result;
+                    frontier.allowOrigin(page.url());
+                }
+
+                pages.push({
+                    url: target.url,
+                    depth: target.depth,
+                    status: 'COMPLETED',
+                    performanceScore: result.results?.performanceScore,
+                    seoScore: result.results?.seoScore,
+                    accessibilityScore: result.results?.accessibilityScore,
+                    bestPracticesScore: result.results?.bestPracticesScore,
+                    securityScore: result.results?.securityScore,
+                    issues: result.results?.issues,
+                    metrics: result.results?.metrics,
+                });
+
+                if (target.depth < crawl.maxDepth) {
+                    const added = frontier.add(await extractLinks(page), target.depth + 1, page.url());
+                    console.log(`[crawl] discovered ${added} new url(s) on ${target.url}`);
+                }
+            } catch (e) {
+                const errText = e instanceof Error ? e.message : 'Unknown error';
+                // The start page failing, or the browser going away, fails the whole job
+                if (isStart || this.isBrowserConnectivityError(errText)) throw e;
+                console.warn(`[crawl] page ${target.url} failed:`, errText);
+                pages.push({ url: target.url, depth: target.depth, status: 'FAILED', error: errText });
+            } finally {
+                if (!isStart) {
+                    try { await page.close({ runBeforeUnload: false }); } catch { /* ignore */ }
+                }
+            }
+        }
+
+        return this.aggregateCrawl(startResult!, pages);
+    }
+
+    /**
+     * Site-wide scores are the mean over successfully audited pages and issues
+     * are merged by category and title. The category breakdown is the start page's.
+     */
+    private aggregateCrawl(start: AuditResult, pages: CrawledPage[]): AuditResult {
+        const ok = pages.filter(p => p.status === 'COMPLETED');
+        const avg = (key: 'performanceScore' | 'seoScore' | 'accessibilityScore' | 'bestPracticesScore') =>
+            Math.round(ok.reduce((sum, p) => sum + (p[key] ?? 0), 0) / ok.length);
+        // Pages whose main response was missing have no security score
+        const secured = ok.filter(p => p.securityScore !== undefined);
+
+        type Issue = NonNullable<CrawledPage['issues']>[number];
+        const grouped = new Map<string, { issue: Issue; urls: string[] }>();
+        for (const p of ok) {
+            for (const issue of p.issues ?? []) {
+                const key = `${issue.category}|${issue.title}`;
+                const entry = grouped.get(key);
+                if (entry) entry.urls.push(p.url);
+                else grouped.set(key, { issue, urls: [p.url] });
+            }
+        }
+
+        const issues = Array.from(grouped.values())
+            .sort((a, b) => b.urls.length - a.urls.length)
+            .map(({ issue, urls }) => ok.length > 1
+                ? { ...issue, description: `${issue.description} Found on ${urls.length} of ${ok.length} pages.` }
+                : issue);
+
+        console.log(`[crawl] aggregated ${ok.length} page(s), ${pages.length - ok.length} failed, ${issues.length} distinct issue(s)`);
+
+        return {
+            jobId: start.jobId,
+            status: 'COMPLETED',
+            results: {
+                ...start.results,
+                performanceScore: avg('performanceScore'),
+                seoScore: avg('seoScore'),
+                accessibilityScore: avg('accessibilityScore'),
+                bestPracticesScore: avg('bestPracticesScore'),
+                ...(secured.length > 0 && {
+                    securityScore: Math.round(secured.reduce((sum, p) => sum + p.securityScore!, 0) / secured.length),
+                }),
+                issues,
+                pagesCrawled: ok.length,
+                pages,
+            },
+        };
+    }
+
+    private async progressiveGoto(page: Page, url: string, onAttempt?: () => void): Promise<HTTPResponse | null> {
         // Enhanced navigation strategies for JS-heavy sites with better resource allocation
         const attempts: Array<{ name: string; opts: Parameters<Page['goto']>[1]; allowErrors?: boolean }> = [
             // Start with basic strategy but allow more time
@@ -1390,6 +1891,7 @@ export class AuditService {
                 }
 
                 console.log(`[audit] goto (${name})`, { timeout: opts?.timeout, waitUntil: opts?.waitUntil || 'default' });
+                onAttempt?.();
                 const res = await page.goto(url, opts as any);
 
                 if (!res) {
@@ -1443,6 +1945,11 @@ export class AuditService {
                     console.error('[audit] Network connectivity issue, stopping attempts');
                     break;
                 }
+                // Another strategy won't break a redirect loop
+                if (error.message.includes('net::ERR_TOO_MANY_REDIRECTS')) {
+                    console.error('[audit] Redirect loop, stopping attempts');
+                    break;
+                }
 
                 // For timeout errors, try the next strategy
                 if (error.message.includes('timeout') || error.message.includes('Navigation timeout')) {
@@ -1471,315 +1978,18 @@ export class AuditService {
         throw new Error(`Navigation failed after enhanced strategies. Last error: ${lastError?.message || 'Unknown error'}`);
     }
 
-    // ---------- Issue extraction from audit results ----------
-
-    private extractIssues(auditData: {
-        performanceScore: number;
-        seoScore: number;
-        accessibilityScore: number;
-        bestPracticesScore: number;
-        loadTime: number;
-        categoryDetails?: {
-            performance?: { items: Array<{ title: string; status: string; description: string }> };
-            seo?: { items: Array<{ title: string; status: string; description: string }> };
-            accessibility?: { items: Array<{ title: string; status: string; description: string }> };
-            bestPractices?: { items: Array<{ title: string; status: string; description: string }> };
-        };
-        pageSpeedMetrics?: {
-            desktop?: {
-                firstContentfulPaint?: number;
-                largestContentfulPaint?: number;
-                cumulativeLayoutShift?: number;
-                totalBlockingTime?: number;
-            };
-            mobile?: {
-                firstContentfulPaint?: number;
-                largestContentfulPaint?: number;
-                cumulativeLayoutShift?: number;
-                totalBlockingTime?: number;
-            };
-        };
-    }) {
-        const issues: Array<{
-            type: 'ERROR' | 'WARNING' | 'INFO';
-            category: 'PERFORMANCE' | 'SEO' | 'ACCESSIBILITY' | 'BEST_PRACTICES';
-            title: string;
-            description: string;
-            impact: 'HIGH' | 'MEDIUM' | 'LOW';
-            recommendation: string;
-        }> = [];
-
-        // Performance Issues
-        if (auditData.performanceScore < 50) {
-            issues.push({
-                type: 'ERROR',
-                category: 'PERFORMANCE',
-                title: 'Poor Performance Score',
-                description: `Overall performance score is ${auditData.performanceScore}/100 (combined desktop & mobile), which is below acceptable standards.`,
-                impact: 'HIGH',
-                recommendation: 'Optimize images, minify CSS/JS, enable compression, and reduce server response times for both desktop and mobile.'
-            });
-        } else if (auditData.performanceScore < 70) {
-            issues.push({
-                type: 'WARNING',
-                category: 'PERFORMANCE',
-                title: 'Below Average Performance',
-                description: `Overall performance score is ${auditData.performanceScore}/100 (combined desktop & mobile), which could be improved.`,
-                impact: 'MEDIUM',
-                recommendation: 'Consider optimizing images, reducing JavaScript execution time, and improving server response times for both platforms.'
-            });
-        }
-
-        // Page load time issues
-        if (auditData.loadTime > 5000) {
-            issues.push({
-                type: 'ERROR',
-                category: 'PERFORMANCE',
-                title: 'Slow Page Load Time',
-                description: `Page takes ${Math.round(auditData.loadTime)}ms to load, which is significantly slower than recommended.`,
-                impact: 'HIGH',
-                recommendation: 'Optimize server response time, compress assets, and consider using a CDN.'
-            });
-        } else if (auditData.loadTime > 3000) {
-            issues.push({
-                type: 'WARNING',
-                category: 'PERFORMANCE',
-                title: 'Page Load Time Could Be Improved',
-                description: `Page takes ${Math.round(auditData.loadTime)}ms to load. Aim for under 3 seconds.`,
-                impact: 'MEDIUM',
-                recommendation: 'Optimize images, minify resources, and reduce HTTP requests.'
-            });
-        }
-
-        // Core Web Vitals issues from PageSpeed data
-        if (auditData.pageSpeedMetrics) {
-            const { desktop, mobile } = auditData.pageSpeedMetrics;
-
-            // Largest Contentful Paint issues
-            if (desktop?.largestContentfulPaint && desktop.largestContentfulPaint > 4000) {
-                issues.push({
-                    type: 'ERROR',
-                    category: 'PERFORMANCE',
-                    title: 'Poor Largest Contentful Paint (Desktop)',
-                    description: `LCP is ${Math.round(desktop.largestContentfulPaint)}ms on desktop. Good LCP is under 2.5 seconds.`,
-                    impact: 'HIGH',
-                    recommendation: 'Optimize server response times, remove render-blocking resources, and optimize the largest element.'
-                });
-            }
-
-            if (mobile?.largestContentfulPaint && mobile.largestContentfulPaint > 4000) {
-                issues.push({
-                    type: 'ERROR',
-                    category: 'PERFORMANCE',
-                    title: 'Poor Largest Contentful Paint (Mobile)',
-                    description: `LCP is ${Math.round(mobile.largestContentfulPaint)}ms on mobile. Good LCP is under 2.5 seconds.`,
-                    impact: 'HIGH',
-                    recommendation: 'Optimize for mobile: compress images, reduce JavaScript, and improve server response times.'
-                });
-            }
-
-            // Cumulative Layout Shift issues
-            if (desktop?.cumulativeLayoutShift && desktop.cumulativeLayoutShift > 0.25) {
-                issues.push({
-                    type: 'WARNING',
-                    category: 'PERFORMANCE',
-                    title: 'High Cumulative Layout Shift (Desktop)',
-                    description: `CLS score is ${desktop.cumulativeLayoutShift}, indicating visual instability.`,
-                    impact: 'MEDIUM',
-                    recommendation: 'Add size attributes to images and videos, avoid inserting content above existing content.'
-                });
-            }
-
-            if (mobile?.cumulativeLayoutShift && mobile.cumulativeLayoutShift > 0.25) {
-                issues.push({
-                    type: 'WARNING',
-                    category: 'PERFORMANCE',
-                    title: 'High Cumulative Layout Shift (Mobile)',
-                    description: `CLS score is ${mobile.cumulativeLayoutShift}, indicating visual instability on mobile.`,
-                    impact: 'MEDIUM',
-                    recommendation: 'Ensure mobile layouts are stable by reserving space for dynamic content.'
-                });
-            }
-        }
-
-        // SEO Issues
-        if (auditData.seoScore < 50) {
-            issues.push({
-                type: 'ERROR',
-                category: 'SEO',
-                title: 'Poor SEO Score',
-                description: `SEO score is ${auditData.seoScore}/100, which may significantly impact search rankings.`,
-                impact: 'HIGH',
-                recommendation: 'Review meta tags, heading structure, image alt text, and content quality.'
-            });
-        } else if (auditData.seoScore < 70) {
-            issues.push({
-                type: 'WARNING',
-                category: 'SEO',
-                title: 'SEO Score Needs Improvement',
-                description: `SEO score is ${auditData.seoScore}/100. There are opportunities for improvement.`,
-                impact: 'MEDIUM',
-                recommendation: 'Optimize meta descriptions, improve heading hierarchy, and add structured data.'
-            });
-        }
-
-        // Check SEO category details for specific issues
-        if (auditData.categoryDetails?.seo?.items) {
-            for (const item of auditData.categoryDetails.seo.items) {
-                if (item.status === 'FAIL') {
-                    let impact: 'HIGH' | 'MEDIUM' | 'LOW' = 'MEDIUM';
-                    let recommendation = 'Please review and fix this SEO issue.';
-
-                    // Customize based on specific SEO issues
-                    if (item.title.toLowerCase().includes('title')) {
-                        impact = 'HIGH';
-                        recommendation = 'Add a descriptive, unique title tag under 60 characters.';
-                    } else if (item.title.toLowerCase().includes('description')) {
-                        impact = 'HIGH';
-                        recommendation = 'Add a compelling meta description between 150-160 characters.';
-                    } else if (item.title.toLowerCase().includes('heading')) {
-                        impact = 'MEDIUM';
-                        recommendation = 'Ensure proper heading hierarchy with a single H1 tag.';
-                    }
-
-                    issues.push({
-                        type: 'ERROR',
-                        category: 'SEO',
-                        title: item.title,
-                        description: item.description,
-                        impact,
-                        recommendation
-                    });
-                }
-            }
-        }
-
-        // Accessibility Issues
-        if (auditData.accessibilityScore < 50) {
-            issues.push({
-                type: 'ERROR',
-                category: 'ACCESSIBILITY',
-                title: 'Poor Accessibility Score',
-                description: `Accessibility score is ${auditData.accessibilityScore}/100, making the site difficult to use for people with disabilities.`,
-                impact: 'HIGH',
-                recommendation: 'Add alt text to images, ensure proper color contrast, and provide keyboard navigation.'
-            });
-        } else if (auditData.accessibilityScore < 80) {
-            issues.push({
-                type: 'WARNING',
-                category: 'ACCESSIBILITY',
-                title: 'Accessibility Could Be Improved',
-                description: `Accessibility score is ${auditData.accessibilityScore}/100. Consider improving for better inclusivity.`,
-                impact: 'MEDIUM',
-                recommendation: 'Review form labels, heading structure, and ensure all interactive elements are accessible.'
-            });
-        }
-
-        // Check accessibility category details for specific issues
-        if (auditData.categoryDetails?.accessibility?.items) {
-            for (const item of auditData.categoryDetails.accessibility.items) {
-                if (item.status === 'FAIL') {
-                    let impact: 'HIGH' | 'MEDIUM' | 'LOW' = 'MEDIUM';
-                    let recommendation = 'Please review and fix this accessibility issue.';
-
-                    // Customize based on specific accessibility issues
-                    if (item.title.toLowerCase().includes('alt')) {
-                        impact = 'HIGH';
-                        recommendation = 'Add descriptive alt text to all images for screen readers.';
-                    } else if (item.title.toLowerCase().includes('label')) {
-                        impact = 'HIGH';
-                        recommendation = 'Ensure all form inputs have proper labels for screen readers.';
-                    } else if (item.title.toLowerCase().includes('heading')) {
-                        impact = 'MEDIUM';
-                        recommendation = 'Use proper heading hierarchy (H1-H6) for screen reader navigation.';
-                    }
-
-                    issues.push({
-                        type: 'ERROR',
-                        category: 'ACCESSIBILITY',
-                        title: item.title,
-                        description: item.description,
-                        impact,
-                        recommendation
-                    });
-                }
-            }
-        }
-
-        // Best Practices Issues
-        if (auditData.bestPracticesScore < 70) {
-            issues.push({
-                type: 'WARNING',
-                category: 'BEST_PRACTICES',
-                title: 'Best Practices Score Below Recommended',
-                description: `Best practices score is ${auditData.bestPracticesScore}/100. Following web standards is important for security and performance.`,
-                impact: 'MEDIUM',
-                recommendation: 'Ensure HTTPS usage, avoid deprecated APIs, and follow modern web development practices.'
-            });
-        }
-
-        // Check best practices category details for specific issues
-        if (auditData.categoryDetails?.bestPractices?.items) {
-            for (const item of auditData.categoryDetails.bestPractices.items) {
-                if (item.status === 'FAIL') {
-                    issues.push({
-                        type: 'WARNING',
-                        category: 'BEST_PRACTICES',
-                        title: item.title,
-                        description: item.description,
-                        impact: 'MEDIUM',
-                        recommendation: 'Follow modern web development best practices for better security and performance.'
-                    });
-                }
-            }
-        }
-
-        return issues;
-    }
-
     // ---------- Callback ----------
 
-    private async sendCallback(result: AuditResult): Promise<void> {
-        if (!config.callbackUrl) {
+    // Hands the result to the outbox, which owns retries and the delivery log
+    private async sendCallback(request: AuditRequest, result: AuditResult): Promise<void> {
+        const callbackUrl = resolveCallbackUrl(request.clientId, request.callbackUrl);
+        if (!callbackUrl) {
             console.log('[callback] no callbackUrl configured – skipping');
             return;
         }
-        try {
-            const body = JSON.stringify(result);
-            const signature = crypto.createHmac('sha256', config.webhookSecret).update(body).digest('hex');
-
-            const controller = new AbortController();
-            const t = setTimeout(() => controller.abort(), 15_000);
-
-            const resp = await fetch(config.callbackUrl, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-Signature': `sha256=${signature}`,
-                    'X-API-Key': config.apiKey,
-                },
-                body,
-                signal: controller.signal,
-            }).catch((e) => {
-                clearTimeout(t);
-                throw e;
-            });
-
-            clearTimeout(t);
-
-            if (!resp.ok) {
-                console.error('[callback] failed:', resp.status, resp.statusText);
-                const text = await resp.text().catch(() => '');
-                if (text) console.error('[callback] body:', text);
-            } else {
-                console.log('[callback] ok');
-            }
-        } catch (e) {
-            if ((e as Error).name === 'AbortError') {
-                console.error('[callback] timeout');
-            } else {
-                console.error('[callback] error:', (e as Error).message);
-            }
-        }
+        await this.outbox.enqueue(result.jobId, callbackUrl, result, request.clientId);
     }
-}
\ No newline at end of file
+}
+
+// One instance per process: it owns the job store, queue and callback outbox
+export const auditService = new AuditService();
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { consoleIssues, summarizeConsole, type ConsoleEntry } from './consoleCapture.js';
+
+const entries: ConsoleEntry[] = [
+  { kind: 'warning', message: 'Deprecated API', count: 1 },
+  { kind: 'error', message: 'Request failed', count: 2 },
+  { kind: 'exception', message: `TypeError: x is undefined\n    at init (https://example.com/app.js:3:9)`, source: 'https://example.com/app.js:3:9', count: 3 },
+  { kind: 'error', message: 'Something else', count: 5 },
+];
+
+describe('summarizeConsole', () => {
+  it('counts repeated messages per kind', () => {
+    expect(summarizeConsole(entries)).toEqual({ exceptions: 3, errors: 7, warnings: 1 });
+  });
+});
+
+describe('consoleIssues', () => {
+  it('orders issues by kind, then by count, with the source as the URL', () => {
+    const issues = consoleIssues(entries);
+    expect(issues.map(i => i.title)).toEqual([
+      'Uncaught JavaScript Exception: TypeError: x is undefined',
+      'Console Error: Something else',
+      'Console Error: Request failed',
+      'Console Warning: Deprecated API',
+    ]);
+    expect(issues[0]).toMatchObject({ type: 'ERROR', impact: 'HIGH', occurrences: 3, urls: ['https://example.com/app.js:3:9'] });
+    expect(issues[0].description).toContain('occurred 3 times at https://example.com/app.js:3:9');
+    expect(issues[3].description).toContain('occurred once');
+    expect(issues[3].urls).toBeUndefined();
+  });
+
+  it('truncates long headlines and caps the issues per kind', () => {
+    const many: ConsoleEntry[] = Array.from({ length: 20 }, (_, i) => ({ kind: 'warning', message: `${'w'.repeat(100)}${i}`, count: 1 }));
+    const issues = consoleIssues(many);
+    expect(issues).toHaveLength(15);
+    expect(issues[0].title).toBe(`Console Warning: ${'w'.repeat(77)}…`);
+  });
+});
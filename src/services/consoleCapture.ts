@@ -0,0 +1,161 @@
+// services/consoleCapture.ts
+import type { ConsoleMessage, Page } from 'puppeteer';
+import type { AuditIssue } from '../types/audit.js';
+
+export interface ConsoleEntry {
+  kind: 'exception' | 'error' | 'warning';
+  message: string;
+  // Script URL with 1-based line:column when the browser reported one
+  source?: string;
+  stack?: string;
+  count: number;
+}
+
+export interface ConsoleSummary {
+  exceptions: number;
+  errors: number;
+  warnings: number;
+}
+
+// Reported with more detail by the resource tracker (or caused by our own request blocking)
+const IGNORED_MESSAGES = [/^Failed to load resource/i, /net::ERR_BLOCKED_BY_CLIENT/];
+
+const MAX_ENTRIES = 100;
+const MAX_MESSAGE = 500;
+const MAX_STACK = 2000;
+const MAX_ISSUES_PER_KIND = 15;
+
+function formatLocation(url?: string, line?: number, column?: number): string | undefined {
+  if (!url) return undefined;
+  // CDP locations are 0-based; DevTools shows 1-based
+  return line === undefined ? url : `${url}:${line + 1}:${(column ?? 0) + 1}`;
+}
+
+// First "at fn (url:line:col)" or "at url:line:col" frame of a V8 stack; already 1-based
+function sourceFromStack(stack: string | undefined): string | undefined {
+  const frame = stack?.match(/\n\s+at (?:.*? \()?((?:https?|file):\/\/[^\s)]+:\d+:\d+)\)?/);
+  return frame?.[1];
+}
+
+/**
+ * Start collecting console errors/warnings and uncaught exceptions on the
+ * page. Call before navigating; `stop()` detaches the listeners and returns
+ * the entries, deduplicated by kind, message and source with a count.
+ */
+export function trackConsoleMessages(page: Page): { stop(): ConsoleEntry[] } {
+  const entries = new Map<string, ConsoleEntry>();
+
+  const record = (entry: Omit<ConsoleEntry, 'count'>) => {
+    if (IGNORED_MESSAGES.some(re => re.test(entry.message))) return;
+    const message = entry.message.slice(0, MAX_MESSAGE);
+    const key = `${entry.kind}|${message}|${entry.source ?? ''}`;
+    const existing = entries.get(key);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+    if (entries.size >= MAX_ENTRIES) return;
+    entries.set(key, { ...entry, message, stack: entry.stack?.slice(0, MAX_STACK), count: 1 });
+  };
+
+  const onConsole = (msg: ConsoleMessage) => {
+    const type = msg.type();
+    if (type !== 'error' && type !== 'warn') return;
+    const { url, lineNumber, columnNumber } = msg.location();
+    const frames = msg.stackTrace();
+    record({
+      kind: type === 'error' ? 'error' : 'warning',
+      message: msg.text(),
+      source: formatLocation(url, lineNumber, columnNumber),
+      stack: frames.length > 1
+        ? frames.map(f => `    at ${formatLocation(f.url, f.lineNumber, f.columnNumber) ?? '<anonymous>'}`).join('\n')
+        : undefined,
+    });
+  };
+  const onPageError = (error: unknown) => {
+    const err = error instanceof Error ? error : new Error(String(error));
+    record({
+      kind: 'exception',
+      message: err.message || String(error),
+      source: sourceFromStack(err.stack),
+      stack: err.stack,
+    });
+  };
+
+  page.on('console', onConsole);
+  page.on('pageerror', onPageError);
+
+  return {
+    stop() {
+      page.off('console', onConsole);
+      page.off('pageerror', onPageError);
+      return Array.from(entries.values());
+    },
+  };
+}
+
+/** Occurrence totals per kind, counting repeats. */
+export function summarizeConsole(entries: ConsoleEntry[]): ConsoleSummary {
+  const summary: ConsoleSummary = { exceptions: 0, errors: 0, warnings: 0 };
+  for (const e of entries) {
+    if (e.kind === 'exception') summary.exceptions += e.count;
+    else if (e.kind === 'error') summary.errors += e.count;
+    else summary.warnings += e.count;
+  }
+  return summary;
+}
+
+// ---------- Issues ----------
+
+const KINDS: Record<ConsoleEntry['kind'], { label: string; type: AuditIssue['type']; impact: AuditIssue['impact']; recommendation: string }> = {
+  exception: {
+    label: 'Uncaught JavaScript Exception',
+    type: 'ERROR',
+    impact: 'HIGH',
+    recommendation: 'Fix the error at the reported source; code after the throw did not run, so features may be broken for visitors.',
+  },
+  error: {
+    label: 'Console Error',
+    type: 'WARNING',
+    impact: 'MEDIUM',
+    recommendation: 'Investigate the logged error; it usually points to a failed request, a missing dependency or a bug in page scripts.',
+  },
+  warning: {
+    label: 'Console Warning',
+    type: 'INFO',
+    impact: 'LOW',
+    recommendation: 'Review the warning; deprecations and misconfigurations reported here tend to become errors in future browser versions.',
+  },
+};
+
+function headline(message: string): string {
+  const first = message.split('\n')[0];
+  return first.length > 80 ? `${first.slice(0, 77)}…` : first;
+}
+
+export function consoleIssues(entries: ConsoleEntry[]): AuditIssue[] {
+  const order: ConsoleEntry['kind'][] = ['exception', 'error', 'warning'];
+  const issues: AuditIssue[] = [];
+
+  for (const kind of order) {
+    const { label, type, impact, recommendation } = KINDS[kind];
+    const ofKind = entries.filter(e => e.kind === kind).sort((a, b) => b.count - a.count);
+
+    for (const entry of ofKind.slice(0, MAX_ISSUES_PER_KIND)) {
+      const times = entry.count === 1 ? 'once' : `${entry.count} times`;
+      issues.push({
+        type,
+        category: 'BEST_PRACTICES',
+        title: `${label}: ${headline(entry.message)}`,
+        description: `${entry.message} (occurred ${times}${entry.source ? ` at ${entry.source}` : ''}).`,
+        impact,
+        recommendation,
+        occurrences: entry.count,
+        stack: entry.stack,
+        ...(entry.source && { urls: [entry.source] }),
+      });
+    }
+  }
+
+  return issues;
+}
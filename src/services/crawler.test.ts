@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { CrawlFrontier, globToRegExp, normalizeCrawlUrl } from './crawler.js';
+
+describe('globToRegExp', () => {
+  it('matches * within a segment and ** across segments', () => {
+    expect(globToRegExp('/blog/*').test('/blog/post-1')).toBe(true);
+    expect(globToRegExp('/blog/*').test('/blog/2024/post-1')).toBe(false);
+    expect(globToRegExp('/blog/**').test('/blog/2024/post-1')).toBe(true);
+    expect(globToRegExp('/page-?').test('/page-2')).toBe(true);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(globToRegExp('/search?q=a.b').test('/search?q=a.b')).toBe(true);
+    expect(globToRegExp('/a.b').test('/axb')).toBe(false);
+  });
+});
+
+describe('normalizeCrawlUrl', () => {
+  it('resolves relative links and drops fragments, default ports and non-http schemes', () => {
+    expect(normalizeCrawlUrl('../about#team', 'https://Example.com:443/docs/intro')).toBe('https://example.com/about');
+    expect(normalizeCrawlUrl('mailto:hi@example.com')).toBeNull();
+    expect(normalizeCrawlUrl('not a url')).toBeNull();
+  });
+});
+
+describe('CrawlFrontier', () => {
+  const options = { maxPages: 10, maxDepth: 2 };
+
+  it('starts with the start URL and hands out pages breadth-first', () => {
+    const frontier = new CrawlFrontier('https://example.com/', options);
+    expect(frontier.next()).toEqual({ url: 'https://example.com/', depth: 0 });
+
+    frontier.add(['/deep'], 2, 'https://example.com/');
+    frontier.add(['/a', '/b'], 1, 'https://example.com/');
+    expect([frontier.next(), frontier.next(), frontier.next()].map(t => t?.url)).toEqual([
+      'https://example.com/a',
+      'https://example.com/b',
+      'https://example.com/deep',
+    ]);
+  });
+
+  it('skips duplicates, other origins, downloads and links beyond the max depth', () => {
+    const frontier = new CrawlFrontier('https://example.com/', options);
+    const added = frontier.add([
+      'https://example.com/',
+      'https://example.com/about#team',
+      'https://example.com/about',
+      'https://other.example/',
+      'https://example.com/brochure.pdf',
+    ], 1);
+    expect(added).toBe(1);
+    expect(frontier.add(['https://example.com/too-deep'], 3)).toBe(0);
+  });
+
+  it('applies include and exclude patterns to the path and query', () => {
+    const frontier = new CrawlFrontier('https://example.com/', { ...options, include: ['/blog/**'], exclude: ['/blog/*?print=*'] });
+    frontier.add(['/blog/a', '/blog/a?print=1', '/shop/item'], 1, 'https://example.com/');
+    frontier.next();
+    expect(frontier.next()?.url).toBe('https://example.com/blog/a');
+    expect(frontier.size).toBe(0);
+  });
+
+  it('accepts links on origins allowed after a redirect', () => {
+    const frontier = new CrawlFrontier('http://example.com/', options);
+    frontier.allowOrigin('https://example.com/');
+    expect(frontier.add(['https://example.com/a'], 1)).toBe(1);
+  });
+});
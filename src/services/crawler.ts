@@ -0,0 +1,135 @@
+// services/crawler.ts
+import type { Page } from 'puppeteer';
+
+export interface CrawlOptions {
+  maxPages: number;
+  maxDepth: number;
+  /** Glob patterns matched against the URL path and query; empty means everything */
+  include?: string[];
+  exclude?: string[];
+  /** Seed the frontier from /sitemap.xml in addition to discovered links */
+  useSitemap?: boolean;
+}
+
+export interface CrawlTarget {
+  url: string;
+  depth: number;
+}
+
+// Links to these are downloads, not pages worth auditing
+const NON_HTML_EXTENSIONS = /\.(pdf|zip|gz|rar|7z|exe|dmg|msi|jpe?g|png|gif|webp|avif|svg|ico|mp3|mp4|mov|avi|webm|woff2?|ttf|css|js|json|xml|txt|docx?|xlsx?|pptx?)$/i;
+
+/**
+ * Translate a glob into a RegExp. `**` matches across path segments,
+ * `*` within one segment and `?` a single character.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        re += '.*';
+        i++;
+      } else {
+        re += '[^/]*';
+      }
+    } else if (c === '?') {
+      re += '.';
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * Canonical form used for de-duplication. Fragments are dropped; URL itself
+ * lowercases the host and strips default ports.
+ */
+export function normalizeCrawlUrl(raw: string, base?: string): string | null {
+  try {
+    const u = new URL(raw, base);
+    if (!['http:', 'https:'].includes(u.protocol)) return null;
+    u.hash = '';
+    return u.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Breadth-first frontier of same-origin URLs still to be audited.
+ */
+export class CrawlFrontier {
+  private readonly origins = new Set<string>();
+  private readonly seen = new Set<string>();
+  private readonly pending: CrawlTarget[] = [];
+  private readonly include: RegExp[];
+  private readonly exclude: RegExp[];
+
+  constructor(startUrl: string, private readonly options: CrawlOptions) {
+    this.include = (options.include || []).map(globToRegExp);
+    this.exclude = (options.exclude || []).map(globToRegExp);
+    this.allowOrigin(startUrl);
+
+    // The start URL is always audited, whatever the include/exclude patterns say
+    const start = normalizeCrawlUrl(startUrl);
+    if (start) {
+      this.seen.add(start);
+      this.pending.push({ url: start, depth: 0 });
+    }
+  }
+
+  /** Treat another origin as internal, e.g. the target of an http→https redirect. */
+  allowOrigin(url: string): void {
+    try { this.origins.add(new URL(url).origin); } catch { /* ignore */ }
+  }
+
+  add(urls: string[], depth: number, base?: string): number {
+    if (depth > this.options.maxDepth) return 0;
+    let added = 0;
+    for (const raw of urls) {
+      const url = normalizeCrawlUrl(raw, base);
+      if (!url || this.seen.has(url) || !this.accepts(url)) continue;
+      this.seen.add(url);
+      this.pending.push({ url, depth });
+      added++;
+    }
+    return added;
+  }
+
+  next(): CrawlTarget | undefined {
+    this.pending.sort((a, b) => a.depth - b.depth);
+    return this.pending.shift();
+  }
+
+  get size(): number {
+    return this.pending.length;
+  }
+
+  private accepts(url: string): boolean {
+    const u = new URL(url);
+    if (!this.origins.has(u.origin)) return false;
+    if (NON_HTML_EXTENSIONS.test(u.pathname)) return false;
+
+    const target = u.pathname + u.search;
+    if (this.include.length && !this.include.some(re => re.test(target))) return false;
+    if (this.exclude.some(re => re.test(target))) return false;
+    return true;
+  }
+}
+
+/** Every `<a href>` on the page, resolved to an absolute URL. */
+export async function extractLinks(page: Page): Promise<string[]> {
+  try {
+    return await page.$$eval('a[href]', anchors =>
+      anchors
+        .filter(a => !(a.getAttribute('rel') || '').split(/\s+/).includes('nofollow'))
+        .map(a => (a as HTMLAnchorElement).href)
+    );
+  } catch (e) {
+    console.warn('[crawl] link extraction failed:', (e as Error).message);
+    return [];
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { extractFieldData } from './fieldData.js';
+
+const distributions = [{ proportion: 0.8123 }, { proportion: 0.15 }, { proportion: 0.0377 }];
+
+describe('extractFieldData', () => {
+  it('reads URL-level CrUX metrics and unscales CLS', () => {
+    expect(extractFieldData({
+      loadingExperience: {
+        overall_category: 'AVERAGE',
+        metrics: {
+          LARGEST_CONTENTFUL_PAINT_MS: { percentile: 2300, category: 'FAST', distributions },
+          CUMULATIVE_LAYOUT_SHIFT_SCORE: { percentile: 12, category: 'AVERAGE', distributions },
+          INTERACTION_TO_NEXT_PAINT: { percentile: 180, category: 'FAST', distributions },
+        },
+      },
+    })).toEqual({
+      scope: 'url',
+      overallCategory: 'AVERAGE',
+      largestContentfulPaint: { percentile: 2300, category: 'FAST', distribution: { good: 0.812, needsImprovement: 0.15, poor: 0.038 } },
+      cumulativeLayoutShift: { percentile: 0.12, category: 'AVERAGE', distribution: { good: 0.812, needsImprovement: 0.15, poor: 0.038 } },
+      interactionToNextPaint: { percentile: 180, category: 'FAST', distribution: { good: 0.812, needsImprovement: 0.15, poor: 0.038 } },
+    });
+  });
+
+  it('falls back to origin data when the URL has none', () => {
+    const fieldData = extractFieldData({
+      loadingExperience: { metrics: {} },
+      originLoadingExperience: { metrics: { LARGEST_CONTENTFUL_PAINT_MS: { percentile: 3100, category: 'AVERAGE', distributions } } },
+    });
+    expect(fieldData?.scope).toBe('origin');
+    expect(fieldData?.largestContentfulPaint?.percentile).toBe(3100);
+  });
+
+  it('reports PSI origin fallbacks as origin scope', () => {
+    const fieldData = extractFieldData({
+      loadingExperience: { origin_fallback: true, metrics: { INTERACTION_TO_NEXT_PAINT: { percentile: 250, category: 'AVERAGE', distributions } } },
+    });
+    expect(fieldData?.scope).toBe('origin');
+  });
+
+  it('returns undefined without Core Web Vitals or with unknown categories', () => {
+    expect(extractFieldData({})).toBeUndefined();
+    expect(extractFieldData({ loadingExperience: { metrics: { FIRST_CONTENTFUL_PAINT_MS: { percentile: 900, category: 'FAST' } } } })).toBeUndefined();
+    expect(extractFieldData({ loadingExperience: { metrics: { LARGEST_CONTENTFUL_PAINT_MS: { percentile: 900, category: 'NONE' } } } })).toBeUndefined();
+  });
+});
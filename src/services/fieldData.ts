@@ -0,0 +1,61 @@
+// services/fieldData.ts
+import type { FieldData, FieldMetric } from '../types/audit.js';
+
+interface CruxMetric {
+  percentile?: number;
+  category?: string;
+  distributions?: Array<{ min?: number; max?: number; proportion?: number }>;
+}
+
+interface LoadingExperience {
+  overall_category?: string;
+  origin_fallback?: boolean;
+  metrics?: Record<string, CruxMetric>;
+}
+
+const CATEGORIES = new Set<FieldMetric['category']>(['FAST', 'AVERAGE', 'SLOW']);
+
+function toCategory(value: string | undefined): FieldMetric['category'] | undefined {
+  return CATEGORIES.has(value as FieldMetric['category']) ? value as FieldMetric['category'] : undefined;
+}
+
+function toFieldMetric(metric: CruxMetric | undefined, scale = 1): FieldMetric | undefined {
+  const category = toCategory(metric?.category);
+  if (!metric || typeof metric.percentile !== 'number' || !category) return undefined;
+
+  // CrUX always reports three buckets: good, needs improvement, poor
+  const [good, needsImprovement, poor] = (metric.distributions ?? []).map(d => Math.round((d.proportion ?? 0) * 1000) / 1000);
+
+  return {
+    percentile: metric.percentile / scale,
+    category,
+    distribution: { good: good ?? 0, needsImprovement: needsImprovement ?? 0, poor: poor ?? 0 },
+  };
+}
+
+/**
+ * Pull CrUX field data out of a PSI response. Uses the URL-level
+ * `loadingExperience` and falls back to `originLoadingExperience`.
+ * Returns undefined when neither has Core Web Vitals.
+ */
+export function extractFieldData(psi: {
+  loadingExperience?: LoadingExperience;
+  originLoadingExperience?: LoadingExperience;
+}): FieldData | undefined {
+  const url = psi.loadingExperience;
+  const experience = url?.metrics && Object.keys(url.metrics).length ? url : psi.originLoadingExperience;
+  const metrics = experience?.metrics;
+  if (!metrics) return undefined;
+
+  const fieldData: FieldData = {
+    scope: experience === url && !url?.origin_fallback ? 'url' : 'origin',
+    overallCategory: toCategory(experience?.overall_category),
+    largestContentfulPaint: toFieldMetric(metrics.LARGEST_CONTENTFUL_PAINT_MS),
+    // PSI reports CLS percentiles multiplied by 100
+    cumulativeLayoutShift: toFieldMetric(metrics.CUMULATIVE_LAYOUT_SHIFT_SCORE, 100),
+    interactionToNextPaint: toFieldMetric(metrics.INTERACTION_TO_NEXT_PAINT),
+  };
+
+  const hasVitals = fieldData.largestContentfulPaint || fieldData.cumulativeLayoutShift || fieldData.interactionToNextPaint;
+  return hasVitals ? fieldData : undefined;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeHar, type Har, type HarEntry } from './harRecorder.js';
+
+const START = Date.parse('2024-05-01T10:00:00.000Z');
+
+function entry(url: string, startMs: number, time: number, overrides: Partial<HarEntry> = {}, status = 200): HarEntry {
+  return {
+    pageref: 'page_1',
+    startedDateTime: new Date(START + startMs).toISOString(),
+    time,
+    request: { method: 'GET', url, httpVersion: 'HTTP/2', headers: [], queryString: [], cookies: [], headersSize: -1, bodySize: 0 },
+    response: {
+      status, statusText: '', httpVersion: 'HTTP/2', headers: [], cookies: [],
+      content: { size: 100, mimeType: 'text/plain' }, redirectURL: '', headersSize: -1, bodySize: 100,
+    },
+    cache: {},
+    timings: { blocked: 0, dns: -1, connect: -1, ssl: -1, send: 0, wait: time, receive: 0 },
+    _resourceType: 'script',
+    _initiator: { type: 'parser' },
+    _transferSize: 1_000,
+    ...overrides,
+  };
+}
+
+function har(entries: HarEntry[]): Har {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'test', version: '1' },
+      pages: [{ startedDateTime: new Date(START).toISOString(), id: 'page_1', title: '', pageTimings: { onContentLoad: 800, onLoad: -1 } }],
+      entries,
+    },
+  };
+}
+
+describe('summarizeHar', () => {
+  it('totals the requests and counts only failures the site caused', () => {
+    const summary = summarizeHar(har([
+      entry('https://example.com/', 0, 300, { _resourceType: 'document' }),
+      entry('https://example.com/missing.js', 50, 20, {}, 404),
+      entry('https://example.com/broken.js', 60, 10, { _error: 'net::ERR_CONNECTION_RESET' }, 0),
+      entry('https://ads.example/ad.js', 70, 5, { _error: 'net::ERR_BLOCKED_BY_CLIENT' }, 0),
+      entry('https://example.com/cached.css', 80, 1, { _fromCache: 'memory', _transferSize: 0 }),
+    ]));
+
+    expect(summary).toMatchObject({ requests: 5, transferSize: 4_000, failed: 2, fromCache: 1, onContentLoad: 800 });
+    // A negative timing means the event never fired
+    expect(summary.onLoad).toBeUndefined();
+  });
+
+  it('charts the document plus the slowest requests in start order', () => {
+    const entries = [
+      entry('https://example.com/', 0, 5, { _resourceType: 'document' }),
+      ...Array.from({ length: 30 }, (_, i) => entry(`https://example.com/${i}.js`, 100 + i, i + 1)),
+    ];
+    const { waterfall } = summarizeHar(har(entries));
+
+    expect(waterfall).toHaveLength(25);
+    expect(waterfall[0]).toMatchObject({ url: 'https://example.com/', start: 0, protocol: 'HTTP/2' });
+    expect(waterfall.slice(1).map(r => r.duration)).toEqual(Array.from({ length: 24 }, (_, i) => i + 7));
+  });
+});
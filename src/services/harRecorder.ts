@@ -0,0 +1,329 @@
+// services/harRecorder.ts
+import type { CDPSession, Page, Protocol } from 'puppeteer';
+import type { NetworkRequest, NetworkSummary } from '../types/audit.js';
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+/** HAR 1.2 entry plus the underscore-prefixed custom fields Chrome DevTools also writes. */
+export interface HarEntry {
+  pageref: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: [];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: [];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: HarTimings;
+  serverIPAddress?: string;
+  _resourceType: string;
+  _priority?: string;
+  _initiator: { type: string; url?: string; lineNumber?: number };
+  _transferSize: number;
+  _fromCache?: NetworkRequest['fromCache'];
+  _error?: string;
+}
+
+export interface Har {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: Array<{
+      startedDateTime: string;
+      id: string;
+      title: string;
+      pageTimings: { onContentLoad: number; onLoad: number };
+    }>;
+    entries: HarEntry[];
+  };
+}
+
+// What the CDP events tell us about one request (or one hop of a redirect)
+interface PendingEntry {
+  request: Protocol.Network.Request;
+  // Seconds since the epoch / monotonic seconds, as CDP reports them
+  wallTime: number;
+  timestamp: number;
+  initiator: Protocol.Network.Initiator;
+  resourceType: string;
+  response?: Protocol.Network.Response;
+  redirectURL?: string;
+  dataLength: number;
+  encodedDataLength?: number;
+  endTimestamp?: number;
+  fromCache?: NetworkRequest['fromCache'];
+  error?: string;
+}
+
+const PAGE_ID = 'page_1';
+const MAX_ENTRIES = 2000;
+const WATERFALL_ROWS = 25;
+
+const HTTP_VERSIONS: Record<string, string> = { 'h2': 'HTTP/2', 'h3': 'HTTP/3', 'http/1.1': 'HTTP/1.1', 'http/1.0': 'HTTP/1.0' };
+
+function ms(seconds: number): number {
+  return Math.round(seconds * 1000 * 100) / 100;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toHeaders(headers: Record<string, string> | undefined): HarHeader[] {
+  // CDP joins repeated headers with newlines
+  return Object.entries(headers ?? {}).flatMap(([name, value]) => String(value).split('\n').map(v => ({ name, value: v })));
+}
+
+function queryString(url: string): HarHeader[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function httpVersion(protocol: string | undefined): string {
+  return protocol ? HTTP_VERSIONS[protocol.toLowerCase()] ?? protocol.toUpperCase() : '';
+}
+
+/**
+ * Record every request the page makes over its own CDP session and turn
+ * them into a HAR. Call before navigating; `restart()` drops what an
+ * abandoned navigation attempt recorded and `stop()` detaches and builds
+ * the HAR. data: URLs are skipped.
+ */
+export async function recordHar(page: Page): Promise<{ restart(): void; stop(): Promise<Har> }> {
+  const session: CDPSession = await page.createCDPSession();
+  let entries: PendingEntry[] = [];
+  let live = new Map<string, PendingEntry>();
+  let timings: { contentLoad?: number; load?: number } = {};
+
+  session.on('Network.requestWillBeSent', (e: Protocol.Network.RequestWillBeSentEvent) => {
+    // A redirect reuses the request ID; close the previous hop with the 3xx response
+    const previous = live.get(e.requestId);
+    if (previous && e.redirectResponse) {
+      previous.response = e.redirectResponse;
+      previous.redirectURL = e.request.url;
+      previous.encodedDataLength = e.redirectResponse.encodedDataLength;
+      previous.endTimestamp = e.timestamp;
+    }
+    live.delete(e.requestId);
+    if (e.request.url.startsWith('data:') || entries.length >= MAX_ENTRIES) return;
+
+    const entry: PendingEntry = {
+      request: e.request,
+      wallTime: e.wallTime,
+      timestamp: e.timestamp,
+      initiator: e.initiator,
+      resourceType: e.type ?? 'Other',
+      dataLength: 0,
+    };
+    live.set(e.requestId, entry);
+    entries.push(entry);
+  });
+  session.on('Network.requestServedFromCache', (e: Protocol.Network.RequestServedFromCacheEvent) => {
+    const entry = live.get(e.requestId);
+    if (entry) entry.fromCache = 'memory';
+  });
+  session.on('Network.responseReceived', (e: Protocol.Network.ResponseReceivedEvent) => {
+    const entry = live.get(e.requestId);
+    if (!entry) return;
+    entry.response = e.response;
+    entry.resourceType = e.type;
+    if (e.response.fromServiceWorker) entry.fromCache = 'service-worker';
+    else if (e.response.fromDiskCache) entry.fromCache ??= 'disk';
+  });
+  session.on('Network.dataReceived', (e: Protocol.Network.DataReceivedEvent) => {
+    const entry = live.get(e.requestId);
+    if (entry) entry.dataLength += e.dataLength;
+  });
+  session.on('Network.loadingFinished', (e: Protocol.Network.LoadingFinishedEvent) => {
+    const entry = live.get(e.requestId);
+    if (!entry) return;
+    entry.encodedDataLength = e.encodedDataLength;
+    entry.endTimestamp = e.timestamp;
+    live.delete(e.requestId);
+  });
+  session.on('Network.loadingFailed', (e: Protocol.Network.LoadingFailedEvent) => {
+    const entry = live.get(e.requestId);
+    if (!entry) return;
+    entry.error = e.canceled ? 'canceled' : e.blockedReason ? `${e.errorText} (${e.blockedReason})` : e.errorText;
+    entry.endTimestamp = e.timestamp;
+    live.delete(e.requestId);
+  });
+  session.on('Page.domContentEventFired', (e: Protocol.Page.DomContentEventFiredEvent) => { timings.contentLoad = e.timestamp; });
+  session.on('Page.loadEventFired', (e: Protocol.Page.LoadEventFiredEvent) => { timings.load = e.timestamp; });
+
+  await session.send('Network.enable');
+  await session.send('Page.enable');
+
+  return {
+    restart() {
+      entries = [];
+      live = new Map();
+      timings = {};
+    },
+    async stop() {
+      await session.detach().catch(() => { /* page already closed */ });
+      const title = await page.title().catch(() => '');
+      return buildHar(entries, timings, title);
+    },
+  };
+}
+
+function entryTimings(entry: PendingEntry): HarTimings {
+  const end = entry.endTimestamp ?? entry.timestamp;
+  const t = entry.response?.timing;
+  if (!t) {
+    // Cache hits and failures before a connection carry no timing breakdown
+    return { blocked: 0, dns: -1, connect: -1, ssl: -1, send: 0, wait: Math.max(0, ms(end - entry.timestamp)), receive: 0 };
+  }
+
+  // Timing offsets are in ms relative to requestTime; anything before that was queueing
+  const queued = (t.requestTime - entry.timestamp) * 1000;
+  const firstActivity = [t.dnsStart, t.connectStart, t.sendStart].find(v => v >= 0) ?? 0;
+  return {
+    blocked: round(Math.max(0, queued + firstActivity)),
+    dns: t.dnsStart >= 0 ? round(t.dnsEnd - t.dnsStart) : -1,
+    // HAR counts TLS inside connect
+    connect: t.connectStart >= 0 ? round(t.connectEnd - t.connectStart) : -1,
+    ssl: t.sslStart >= 0 ? round(t.sslEnd - t.sslStart) : -1,
+    send: round(Math.max(0, t.sendEnd - t.sendStart)),
+    wait: round(Math.max(0, t.receiveHeadersEnd - t.sendEnd)),
+    receive: round(Math.max(0, (end - t.requestTime) * 1000 - t.receiveHeadersEnd)),
+  };
+}
+
+function toHarEntry(entry: PendingEntry): HarEntry {
+  const res = entry.response;
+  const timings = entryTimings(entry);
+  const version = httpVersion(res?.protocol);
+  const frame = entry.initiator.stack?.callFrames[0];
+  const bodySize = entry.request.postData?.length ?? 0;
+
+  return {
+    pageref: PAGE_ID,
+    startedDateTime: new Date(entry.wallTime * 1000).toISOString(),
+    time: round(timings.blocked + Math.max(0, timings.dns) + Math.max(0, timings.connect) + timings.send + timings.wait + timings.receive),
+    request: {
+      method: entry.request.method,
+      url: entry.request.url,
+      httpVersion: version,
+      headers: toHeaders(entry.request.headers),
+      queryString: queryString(entry.request.url),
+      cookies: [],
+      headersSize: -1,
+      bodySize,
+    },
+    response: {
+      status: res?.status ?? 0,
+      statusText: res?.statusText ?? '',
+      httpVersion: version,
+      headers: toHeaders(res?.headers),
+      cookies: [],
+      content: { size: entry.dataLength, mimeType: res?.mimeType || 'x-unknown' },
+      redirectURL: entry.redirectURL ?? '',
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings,
+    ...(res?.remoteIPAddress && { serverIPAddress: res.remoteIPAddress }),
+    _resourceType: entry.resourceType.toLowerCase(),
+    ...(entry.request.initialPriority && { _priority: entry.request.initialPriority }),
+    _initiator: {
+      type: entry.initiator.type,
+      ...((entry.initiator.url || frame?.url) && { url: entry.initiator.url || frame?.url }),
+      ...(entry.initiator.lineNumber !== undefined && { lineNumber: entry.initiator.lineNumber }),
+    },
+    _transferSize: entry.fromCache === 'memory' ? 0 : entry.encodedDataLength ?? 0,
+    ...(entry.fromCache && { _fromCache: entry.fromCache }),
+    ...(entry.error && { _error: entry.error }),
+  };
+}
+
+function buildHar(entries: PendingEntry[], timings: { contentLoad?: number; load?: number }, title: string): Har {
+  const first = entries[0];
+  const since = (timestamp?: number) => (first && timestamp !== undefined ? ms(timestamp - first.timestamp) : -1);
+
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'puppeteer-audit-service', version: process.env.npm_package_version || '1.0.0' },
+      pages: [{
+        startedDateTime: new Date((first?.wallTime ?? Date.now() / 1000) * 1000).toISOString(),
+        id: PAGE_ID,
+        title,
+        pageTimings: { onContentLoad: since(timings.contentLoad), onLoad: since(timings.load) },
+      }],
+      entries: entries.map(toHarEntry),
+    },
+  };
+}
+
+/**
+ * Totals plus a waterfall of the slowest requests for the report. The
+ * main document is always included; rows are ordered by start time.
+ */
+export function summarizeHar(har: Har): NetworkSummary {
+  const entries = har.log.entries;
+  const origin = entries.length ? Date.parse(entries[0].startedDateTime) : 0;
+  const { onContentLoad, onLoad } = har.log.pages[0]?.pageTimings ?? {};
+
+  const rows: NetworkRequest[] = entries.map(e => ({
+    url: e.request.url,
+    resourceType: e._resourceType,
+    ...(e.response.content.mimeType !== 'x-unknown' && { mimeType: e.response.content.mimeType }),
+    status: e.response.status,
+    ...(e.response.httpVersion && { protocol: e.response.httpVersion }),
+    start: Math.max(0, Date.parse(e.startedDateTime) - origin),
+    duration: e.time,
+    transferSize: e._transferSize,
+    ...(e._fromCache && { fromCache: e._fromCache }),
+    ...(e._error && { error: e._error }),
+  }));
+
+  const document = rows.find(r => r.resourceType === 'document');
+  const slowest = rows.filter(r => r !== document).sort((a, b) => b.duration - a.duration).slice(0, WATERFALL_ROWS - (document ? 1 : 0));
+
+  return {
+    requests: rows.length,
+    transferSize: rows.reduce((sum, r) => sum + r.transferSize, 0),
+    // Requests the audit itself blocked, or the browser abandoned, aren't the site's failures
+    failed: rows.filter(r => (r.error && r.error !== 'canceled' && !r.error.includes('ERR_BLOCKED_BY_CLIENT')) || r.status >= 400).length,
+    fromCache: rows.filter(r => r.fromCache).length,
+    ...(onContentLoad !== undefined && onContentLoad >= 0 && { onContentLoad }),
+    ...(onLoad !== undefined && onLoad >= 0 && { onLoad }),
+    waterfall: [...(document ? [document] : []), ...slowest].sort((a, b) => a.start - b.start),
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseLinkHeader, validateHreflang } from './hreflang.js';
+
+describe('validateHreflang', () => {
+  it('accepts languages, scripts, regions and x-default', () => {
+    for (const code of ['en', 'de-AT', 'pt-br', 'zh-Hant-TW', 'x-default', 'X-Default']) {
+      expect(validateHreflang(code), code).toBeNull();
+    }
+  });
+
+  it('suggests the country code Google expects for common mistakes', () => {
+    expect(validateHreflang('en-UK')).toEqual({ problem: '"UK" is not an ISO 3166-1 country code', suggestion: 'en-GB' });
+    expect(validateHreflang('en-EU')).toEqual({ problem: '"EU" is not an ISO 3166-1 country code', suggestion: 'en' });
+  });
+
+  it('suggests the language for a country code used as one', () => {
+    expect(validateHreflang('jp')).toEqual({ problem: '"jp" is not an ISO 639-1 language code', suggestion: 'ja' });
+    expect(validateHreflang('jp-JP')).toEqual({ problem: '"jp" is not an ISO 639-1 language code', suggestion: 'ja-JP' });
+    expect(validateHreflang('english')).toEqual({ problem: '"english" is not an ISO 639-1 language code', suggestion: undefined });
+  });
+
+  it('replaces underscores only when the result is valid', () => {
+    expect(validateHreflang('en_US')).toEqual({ problem: 'uses an underscore instead of a hyphen', suggestion: 'en-US' });
+    expect(validateHreflang('en_UK')).toEqual({ problem: 'uses an underscore instead of a hyphen', suggestion: undefined });
+  });
+
+  it('rejects numeric regions and malformed values', () => {
+    expect(validateHreflang('es-419')).toEqual({ problem: 'numeric region "419" is not supported by Google', suggestion: undefined });
+    expect(validateHreflang('en-US-x')).toEqual({ problem: 'is not a language code with an optional region' });
+  });
+});
+
+describe('parseLinkHeader', () => {
+  it('reads hreflang alternates and the canonical from one header', () => {
+    const header = '<https://example.com/de/>; rel="alternate"; hreflang="de", ' +
+      '<https://example.com/>; rel=canonical, ' +
+      '<https://example.com/fr/>; hreflang=fr; rel="alternate nofollow"';
+    expect(parseLinkHeader(header)).toEqual({
+      alternates: [
+        { hreflang: 'de', href: 'https://example.com/de/' },
+        { hreflang: 'fr', href: 'https://example.com/fr/' },
+      ],
+      canonical: 'https://example.com/',
+    });
+  });
+
+  it('skips alternates without hreflang and keeps the first canonical', () => {
+    const header = '<https://example.com/feed>; rel="alternate"; type="application/rss+xml", ' +
+      '<https://example.com/a>; rel="canonical", <https://example.com/b>; rel="canonical"';
+    expect(parseLinkHeader(header)).toEqual({ alternates: [], canonical: 'https://example.com/a' });
+  });
+
+  it('returns nothing for an empty header', () => {
+    expect(parseLinkHeader('')).toEqual({ alternates: [], canonical: undefined });
+  });
+});
@@ -0,0 +1,496 @@
+// services/hreflang.ts
+import type { HTTPResponse, Page } from 'puppeteer';
+import type { AuditIssue, CategoryDetail, Hreflang, HreflangAlternate, HreflangAnnotation } from '../types/audit.js';
+import { config } from '../config/index.js';
+import { normalizeCrawlUrl } from './crawler.js';
+import { loadSiteSignals } from './indexability.js';
+import { readUpTo, safeFetch, UnsafeUrlError } from './urlSafety.js';
+
+export interface HreflangResult {
+  // Undefined when the page declares no hreflang annotations
+  report?: Hreflang;
+  issues: AuditIssue[];
+  items: CategoryDetail['items'];
+}
+
+interface PageLinks {
+  status?: number;
+  finalUrl?: string;
+  canonical?: string;
+  // Normalized hrefs of every hreflang annotation on the page
+  alternates: string[];
+  error?: string;
+  blocked?: boolean;
+}
+
+type Finding = Omit<AuditIssue, 'category'>;
+
+const MAX_ALTERNATES = 25;
+const FETCH_CONCURRENCY = 4;
+const FETCH_TIMEOUT = 10_000;
+// hreflang links belong in <head>; no need to read whole pages
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+const MAX_LISTED_URLS = 10;
+
+// Alternates of one page are usually audited (or fetched) again for the others in a crawl
+const PAGE_CACHE_TTL = 10 * 60_000;
+const PAGE_CACHE_MAX = 500;
+const pageCache = new Map<string, { at: number; links: Promise<PageLinks> }>();
+
+// ---------- Codes ----------
+
+// ISO 639-1 languages and ISO 3166-1 alpha-2 regions, the only ones Google accepts
+const LANGUAGES = new Set((
+  'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy da de dv dz ee el en eo es et eu ' +
+  'fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is it iu ja jv ka kg ki kj kk kl km kn ko ' +
+  'kr ks ku kv kw ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ny oc oj om or os pa pi ' +
+  'pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ss st su sv sw ta te tg th ti tk tl tn to tr ts tt tw ty ug uk ' +
+  'ur uz ve vi vo wa wo xh yi yo za zh zu'
+).split(' '));
+
+const REGIONS = new Set((
+  'ad ae af ag ai al am ao aq ar as at au aw ax az ba bb bd be bf bg bh bi bj bl bm bn bo bq br bs bt bv bw by bz ca cc cd cf cg ch ' +
+  'ci ck cl cm cn co cr cu cv cw cx cy cz de dj dk dm do dz ec ee eg eh er es et fi fj fk fm fo fr ga gb gd ge gf gg gh gi gl gm gn ' +
+  'gp gq gr gs gt gu gw gy hk hm hn hr ht hu id ie il im in io iq ir is it je jm jo jp ke kg kh ki km kn kp kr kw ky kz la lb lc li ' +
+  'lk lr ls lt lu lv ly ma mc md me mf mg mh mk ml mm mn mo mp mq mr ms mt mu mv mw mx my mz na nc ne nf ng ni nl no np nr nu nz om ' +
+  'pa pe pf pg ph pk pl pm pn pr ps pt pw py qa re ro rs ru rw sa sb sc sd se sg sh si sj sk sl sm sn so sr ss st sv sx sy sz tc td ' +
+  'tf tg th tj tk tl tm tn to tr tt tv tw tz ua ug um us uy uz va vc ve vg vi vn vu wf ws ye yt za zm zw'
+).split(' '));
+
+// Country codes and retired codes commonly used where a language belongs
+const LANGUAGE_FIXES: Record<string, string> = {
+  jp: 'ja', cn: 'zh', gr: 'el', dk: 'da', se: 'sv', cz: 'cs', kr: 'ko', ua: 'uk', us: 'en', gb: 'en', ee: 'et', si: 'sl', rs: 'sr',
+  in: 'id', iw: 'he', ji: 'yi',
+};
+const REGION_FIXES: Record<string, string> = { uk: 'gb', en: 'gb', eu: '' };
+
+/**
+ * Check an hreflang value against Google's format: an ISO 639-1 language,
+ * optionally an ISO 15924 script and an ISO 3166-1 alpha-2 region, or
+ * "x-default". Returns the problem and a suggested replacement, or null.
+ */
+export function validateHreflang(value: string): { problem: string; suggestion?: string } | null {
+  const code = value.trim();
+  if (code.toLowerCase() === 'x-default') return null;
+  if (code.includes('_')) {
+    const fixed = code.replace(/_/g, '-');
+    return { problem: 'uses an underscore instead of a hyphen', suggestion: validateHreflang(fixed) ? undefined : fixed };
+  }
+
+  const m = code.match(/^([a-z]+)(?:-([a-z]{4}))?(?:-([a-z0-9]+))?$/i);
+  if (!m) return { problem: 'is not a language code with an optional region' };
+  const [, lang, script, region] = m.map(p => p?.toLowerCase());
+
+  if (!LANGUAGES.has(lang)) {
+    const fix = LANGUAGE_FIXES[lang];
+    return { problem: `"${lang}" is not an ISO 639-1 language code`, suggestion: fix && [fix, script, region?.toUpperCase()].filter(Boolean).join('-') };
+  }
+  if (region && !REGIONS.has(region)) {
+    const fix = REGION_FIXES[region];
+    return {
+      problem: /^\d{3}$/.test(region)
+        ? `numeric region "${region}" is not supported by Google`
+        : `"${region.toUpperCase()}" is not an ISO 3166-1 country code`,
+      suggestion: fix === undefined ? undefined : [lang, script, fix.toUpperCase()].filter(Boolean).join('-'),
+    };
+  }
+  return null;
+}
+
+// ---------- Parsing ----------
+
+/** rel="alternate" hreflang entries (and the canonical) from a Link header. */
+export function parseLinkHeader(value: string): { alternates: Array<{ hreflang: string; href: string }>; canonical?: string } {
+  const alternates: Array<{ hreflang: string; href: string }> = [];
+  let canonical: string | undefined;
+  const re = /<([^>]*)>((?:\s*;\s*[a-z*-]+\s*=\s*(?:"[^"]*"|[^;,\s]*))*)/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(value))) {
+    const params: Record<string, string> = {};
+    for (const p of m[2].matchAll(/;\s*([a-z*-]+)\s*=\s*(?:"([^"]*)"|([^;,\s]*))/gi)) {
+      params[p[1].toLowerCase()] = (p[2] ?? p[3] ?? '').trim();
+    }
+    const rels = (params.rel || '').toLowerCase().split(/\s+/);
+    if (rels.includes('alternate') && params.hreflang) alternates.push({ hreflang: params.hreflang, href: m[1].trim() });
+    if (rels.includes('canonical') && !canonical) canonical = m[1].trim();
+  }
+  return { alternates, canonical };
+}
+
+function decodeHtmlEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/** <link rel="alternate" hreflang> and <link rel="canonical"> from raw HTML. */
+function parseHtmlLinks(html: string): { alternates: Array<{ hreflang: string; href: string }>; canonical?: string } {
+  const head = html.split(/<\/head\s*>/i)[0];
+  const alternates: Array<{ hreflang: string; href: string }> = [];
+  let canonical: string | undefined;
+  for (const tag of head.match(/<link\b[^>]*>/gi) ?? []) {
+    const attr = (name: string) => {
+      const m = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+      return m ? decodeHtmlEntities((m[1] ?? m[2] ?? m[3]).trim()) : undefined;
+    };
+    const rels = (attr('rel') || '').toLowerCase().split(/\s+/);
+    const href = attr('href');
+    const hreflang = attr('hreflang');
+    if (!href) continue;
+    if (rels.includes('alternate') && hreflang) alternates.push({ hreflang, href });
+    if (rels.includes('canonical') && !canonical) canonical = href;
+  }
+  return { alternates, canonical };
+}
+
+// ---------- Alternates ----------
+
+async function fetchPageLinks(url: string, stop: AbortSignal, userAgent?: string): Promise<PageLinks> {
+  try {
+    const res = await safeFetch(url, {
+      signal: AbortSignal.any([AbortSignal.timeout(FETCH_TIMEOUT), stop]),
+      headers: userAgent ? { 'User-Agent': userAgent } : undefined,
+    });
+    const base = res.url || url;
+    const header = parseLinkHeader(res.headers.get('link') ?? '');
+    let html: ReturnType<typeof parseHtmlLinks> = { alternates: [] };
+    if (res.ok && /html/i.test(res.headers.get('content-type') ?? 'text/html')) {
+      html = parseHtmlLinks((await readUpTo(res, MAX_HTML_BYTES)).toString('utf8'));
+    } else {
+      await res.body?.cancel().catch(() => { /* ignore */ });
+    }
+    const canonical = html.canonical ?? header.canonical;
+    return {
+      status: res.status,
+      finalUrl: normalizeCrawlUrl(base) !== normalizeCrawlUrl(url) ? base : undefined,
+      canonical: canonical ? normalizeCrawlUrl(canonical, base) ?? undefined : undefined,
+      alternates: [...header.alternates, ...html.alternates]
+        .map(a => normalizeCrawlUrl(a.href, base))
+        .filter((u): u is string => !!u),
+    };
+  } catch (e) {
+    return {
+      alternates: [],
+      blocked: e instanceof UnsafeUrlError,
+      error: ['AbortError', 'TimeoutError'].includes((e as Error).name) ? 'timeout' : (e as Error).message,
+    };
+  }
+}
+
+function cachePageLinks(url: string, links: Promise<PageLinks>): Promise<PageLinks> {
+  pageCache.delete(url);
+  pageCache.set(url, { at: Date.now(), links });
+  while (pageCache.size > PAGE_CACHE_MAX) {
+    pageCache.delete(pageCache.keys().next().value!);
+  }
+  return links;
+}
+
+function getPageLinks(url: string, stop: AbortSignal, userAgent?: string): Promise<PageLinks> {
+  const cached = pageCache.get(url);
+  if (cached && Date.now() - cached.at < PAGE_CACHE_TTL) return cached.links;
+  const links = fetchPageLinks(url, stop, userAgent).finally(() => {
+    // A fetch cut short by the budget or a cancel says nothing about the page
+    if (stop.aborted && pageCache.get(url)?.links === links) pageCache.delete(url);
+  });
+  return cachePageLinks(url, links);
+}
+
+// ---------- Audit ----------
+
+function listUrls(urls: string[]): string {
+  const shown = urls.slice(0, MAX_LISTED_URLS).join(', ');
+  return urls.length > MAX_LISTED_URLS ? `${shown} and ${urls.length - MAX_LISTED_URLS} more` : shown;
+}
+
+/**
+ * Collect hreflang annotations from <link> tags, the Link header and the
+ * site's sitemaps, validate them and fetch each alternate to confirm it
+ * links back. Alternates are cached, so a crawl fetches each one once;
+ * those not fetched within `config.hreflang.budgetMs`, or before `signal`
+ * aborts, are left out.
+ */
+export async function analyzeHreflang(
+  page: Page,
+  response: HTTPResponse | null,
+  requestedUrl: string,
+  options: { userAgent?: string; signal?: AbortSignal } = {}
+): Promise<HreflangResult> {
+  const pageUrl = page.url() || requestedUrl;
+  const self = normalizeCrawlUrl(pageUrl) ?? pageUrl;
+  const selfUrls = new Set([self, normalizeCrawlUrl(requestedUrl) ?? requestedUrl]);
+  const site = await loadSiteSignals(pageUrl, options.signal);
+
+  const onPage = await page.evaluate(() => ({
+    links: Array.from(document.querySelectorAll('link[rel~="alternate" i][hreflang]')).map(l => ({
+      hreflang: l.getAttribute('hreflang') || '',
+      href: l.getAttribute('href') || '',
+    })),
+    canonical: (document.querySelector('link[rel~="canonical" i]') as HTMLLinkElement | null)?.href || undefined,
+  })).catch(() => ({ links: [] as Array<{ hreflang: string; href: string }>, canonical: undefined }));
+  const header = parseLinkHeader(response?.headers()['link'] ?? '');
+  const fromSitemap = Array.from(selfUrls, u => site.sitemapAlternates.get(u) ?? []).find(a => a.length) ?? [];
+
+  const annotations: HreflangAnnotation[] = [];
+  const collect = (entries: Array<{ hreflang: string; href: string }>, source: HreflangAnnotation['source']) => {
+    for (const { hreflang, href } of entries) {
+      const absolute = normalizeCrawlUrl(href, pageUrl);
+      if (!hreflang.trim() || !absolute) continue;
+      annotations.push({ hreflang: hreflang.trim(), href: absolute, ...(!/^https?:\/\//i.test(href) && { relative: true }), source });
+    }
+  };
+  collect(onPage.links, 'html');
+  collect(header.alternates, 'header');
+  collect(fromSitemap, 'sitemap');
+
+  // Later audits of this page's alternates can check their return link without refetching it
+  const status = response?.status() ?? 0;
+  if (status > 0 && status < 400) {
+    const canonical = onPage.canonical ?? header.canonical;
+    void cachePageLinks(self, Promise.resolve({
+      status,
+      canonical: canonical ? normalizeCrawlUrl(canonical, pageUrl) ?? undefined : undefined,
+      alternates: annotations.filter(a => a.source !== 'sitemap').map(a => a.href),
+    }));
+  }
+
+  if (!annotations.length) {
+    return {
+      issues: [],
+      items: [{
+        title: 'hreflang',
+        value: 'Not used',
+        status: 'PASS',
+        description: 'No hreflang annotations; they are only needed when the site has language or regional versions',
+      }],
+    };
+  }
+
+  const findings: Finding[] = [];
+
+  const codes = new Map<string, Set<string>>();
+  for (const a of annotations) {
+    const code = a.hreflang.toLowerCase();
+    if (!codes.has(code)) codes.set(code, new Set());
+    codes.get(code)!.add(a.href);
+  }
+
+  for (const code of new Set(annotations.map(a => a.hreflang))) {
+    const invalid = validateHreflang(code);
+    if (!invalid) continue;
+    findings.push({
+      type: 'ERROR',
+      title: `Invalid hreflang Code: ${code}`,
+      description: `hreflang="${code}" ${invalid.problem}; search engines ignore this annotation.`,
+      impact: 'MEDIUM',
+      recommendation: invalid.suggestion
+        ? `Use "${invalid.suggestion}" instead.`
+        : 'Use an ISO 639-1 language code, optionally followed by an ISO 3166-1 alpha-2 region (e.g. "en-GB"), or "x-default".',
+    });
+  }
+
+  const relative = Array.from(new Set(annotations.filter(a => a.relative).map(a => a.href)));
+  if (relative.length) {
+    findings.push({
+      type: 'WARNING',
+      title: 'Relative hreflang URLs',
+      description: `${relative.length} hreflang annotation(s) use relative URLs: ${listUrls(relative)}.`,
+      impact: 'LOW',
+      recommendation: 'Use fully qualified URLs, including the protocol, in hreflang annotations.',
+      urls: relative,
+    });
+  }
+
+  const conflicts = Array.from(codes).filter(([, hrefs]) => hrefs.size > 1);
+  if (conflicts.length) {
+    findings.push({
+      type: 'ERROR',
+      title: 'Conflicting hreflang Annotations',
+      description: `The same hreflang points to different URLs: ${conflicts.map(([code, hrefs]) => `${code} → ${Array.from(hrefs).join(' / ')}`).join('; ')}.`,
+      impact: 'MEDIUM',
+      recommendation: 'Give every language/region code exactly one URL across <link> tags, HTTP headers and sitemaps.',
+    });
+  }
+
+  const selfReference = annotations.some(a => selfUrls.has(a.href));
+  if (!selfReference) {
+    findings.push({
+      type: 'WARNING',
+      title: 'Missing Self-Referencing hreflang',
+      description: 'The page lists its alternates but not itself, so search engines cannot tell which language version it is.',
+      impact: 'LOW',
+      recommendation: 'Include an hreflang annotation for the page itself alongside its alternates.',
+    });
+  }
+
+  const xDefault = Array.from(codes.get('x-default') ?? [])[0];
+  if (!xDefault) {
+    findings.push({
+      type: 'INFO',
+      title: 'No x-default hreflang',
+      description: 'None of the annotations is x-default, so visitors whose language matches no version get no designated fallback.',
+      impact: 'LOW',
+      recommendation: 'Add hreflang="x-default" pointing to the language selector or the default version of the page.',
+    });
+  }
+
+  const canonical = onPage.canonical ?? header.canonical;
+  const canonicalUrl = canonical ? normalizeCrawlUrl(canonical, pageUrl) : null;
+  if (canonicalUrl && !selfUrls.has(canonicalUrl)) {
+    findings.push({
+      type: 'ERROR',
+      title: 'hreflang on Non-Canonical Page',
+      description: `The page declares hreflang alternates but its canonical points to ${canonicalUrl}; Google ignores hreflang on non-canonical pages.`,
+      impact: 'MEDIUM',
+      recommendation: 'Make every language version canonical to itself, and put the hreflang annotations on canonical URLs only.',
+    });
+  }
+
+  const onPageSet = new Set(annotations.filter(a => a.source !== 'sitemap').map(a => `${a.hreflang.toLowerCase()} ${a.href}`));
+  const sitemapSet = new Set(annotations.filter(a => a.source === 'sitemap').map(a => `${a.hreflang.toLowerCase()} ${a.href}`));
+  if (onPageSet.size && sitemapSet.size &&
+      (onPageSet.size !== sitemapSet.size || Array.from(onPageSet).some(k => !sitemapSet.has(k)))) {
+    findings.push({
+      type: 'WARNING',
+      title: 'hreflang Sources Disagree',
+      description: 'The sitemap lists different hreflang alternates for this page than its <link> tags or Link header.',
+      impact: 'LOW',
+      recommendation: 'Declare hreflang in one place, or keep the page and sitemap annotations identical.',
+    });
+  }
+
+  const alternates = await checkAlternates(annotations, selfUrls, site.sitemapAlternates, options);
+  findings.push(...alternateFindings(alternates));
+
+  const report: Hreflang = { annotations, alternates, selfReference, xDefault };
+  const issues = findings.map(f => ({ ...f, category: 'SEO' as const }));
+  console.log(`[hreflang] ${annotations.length} annotation(s), ${alternates.length} alternate(s) checked, ${issues.length} issue(s)`);
+  return { report, issues, items: hreflangItems(report, findings, codes.size) };
+}
+
+async function checkAlternates(
+  annotations: HreflangAnnotation[],
+  selfUrls: Set<string>,
+  sitemapAlternates: Map<string, Array<{ hreflang: string; href: string }>>,
+  options: { userAgent?: string; signal?: AbortSignal }
+): Promise<HreflangAlternate[]> {
+  const targets = new Map<string, Set<string>>();
+  for (const a of annotations) {
+    if (selfUrls.has(a.href)) continue;
+    if (!targets.has(a.href)) targets.set(a.href, new Set());
+    targets.get(a.href)!.add(a.hreflang);
+  }
+
+  const queue = Array.from(targets.keys()).slice(0, MAX_ALTERNATES);
+  const total = queue.length;
+  const results = new Map<string, HreflangAlternate>();
+  const budget = AbortSignal.timeout(config.hreflang.budgetMs);
+  const stop = options.signal ? AbortSignal.any([budget, options.signal]) : budget;
+
+  const worker = async () => {
+    for (let url = queue.shift(); url && !stop.aborted; url = queue.shift()) {
+      const links = await getPageLinks(url, stop, options.userAgent);
+      if (stop.aborted && links.error) break;
+      const alternate: HreflangAlternate = { url, hreflang: Array.from(targets.get(url)!) };
+      if (links.status !== undefined) alternate.status = links.status;
+      if (links.finalUrl) alternate.finalUrl = links.finalUrl;
+      if (links.canonical) alternate.canonical = links.canonical;
+      if (links.error) alternate.error = links.blocked ? `Not checked: ${links.error}` : links.error;
+
+      if (!links.error && (links.status ?? 0) < 400) {
+        // Sitemaps are only known for the audited site; other origins are judged by their pages
+        const declared = [...links.alternates, ...(sitemapAlternates.get(url) ?? []).map(a => normalizeCrawlUrl(a.href, url))];
+        alternate.returnLink = declared.some(href => !!href && selfUrls.has(href));
+      }
+      results.set(url, alternate);
+    }
+  };
+  await Promise.all(Array.from({ length: FETCH_CONCURRENCY }, worker));
+  if (results.size < total) console.log(`[hreflang] ${total - results.size} alternate(s) skipped: budget spent or job cancelled`);
+
+  // Keep annotation order rather than completion order
+  return Array.from(targets.keys()).filter(u => results.has(u)).map(u => results.get(u)!);
+}
+
+function alternateFindings(alternates: HreflangAlternate[]): Finding[] {
+  const findings: Finding[] = [];
+
+  const broken = alternates.filter(a => (a.status ?? 0) >= 400 || (a.error && !a.error.startsWith('Not checked')));
+  if (broken.length) {
+    findings.push({
+      type: 'ERROR',
+      title: 'Broken hreflang Alternates',
+      description: `${broken.length} alternate URL(s) could not be loaded: ${broken.map(a => `${a.url} (${a.error ?? `HTTP ${a.status}`})`).slice(0, MAX_LISTED_URLS).join(', ')}.`,
+      impact: 'MEDIUM',
+      recommendation: 'Point hreflang annotations only at live pages that return 200.',
+      urls: broken.map(a => a.url),
+    });
+  }
+
+  const missing = alternates.filter(a => a.returnLink === false).map(a => a.url);
+  if (missing.length) {
+    findings.push({
+      type: 'ERROR',
+      title: 'Missing hreflang Return Links',
+      description: `${missing.length} alternate(s) do not link back to this page: ${listUrls(missing)}. Google ignores hreflang pairs that are not confirmed from both sides.`,
+      impact: 'MEDIUM',
+      recommendation: 'Add reciprocal hreflang annotations so every language version lists all the others, including this page.',
+      urls: missing,
+    });
+  }
+
+  const redirected = alternates.filter(a => a.finalUrl);
+  if (redirected.length) {
+    findings.push({
+      type: 'WARNING',
+      title: 'hreflang Alternates Redirect',
+      description: `${redirected.length} alternate URL(s) redirect: ${redirected.map(a => `${a.url} → ${a.finalUrl}`).slice(0, MAX_LISTED_URLS).join(', ')}.`,
+      impact: 'LOW',
+      recommendation: 'Reference the final URL of each language version in hreflang annotations.',
+      urls: redirected.map(a => a.url),
+    });
+  }
+
+  const nonCanonical = alternates.filter(a => a.canonical && a.canonical !== (normalizeCrawlUrl(a.finalUrl ?? a.url) ?? a.url));
+  if (nonCanonical.length) {
+    findings.push({
+      type: 'WARNING',
+      title: 'hreflang Alternates Not Canonical',
+      description: `${nonCanonical.length} alternate(s) are canonicalized to another URL: ${nonCanonical.map(a => `${a.url} → ${a.canonical}`).slice(0, MAX_LISTED_URLS).join(', ')}.`,
+      impact: 'MEDIUM',
+      recommendation: 'Point hreflang annotations at the canonical URL of each language version.',
+      urls: nonCanonical.map(a => a.url),
+    });
+  }
+
+  return findings;
+}
+
+function hreflangItems(report: Hreflang, findings: Finding[], versions: number): CategoryDetail['items'] {
+  const status = (list: Finding[]): 'PASS' | 'FAIL' | 'WARNING' =>
+    list.some(f => f.type === 'ERROR') ? 'FAIL' : list.some(f => f.type === 'WARNING') ? 'WARNING' : 'PASS';
+  const sources = Array.from(new Set(report.annotations.map(a => a.source)));
+  const sourceNames = { html: '<link> tags', header: 'Link header', sitemap: 'sitemap' };
+  const returnFindings = findings.filter(f => /Alternates|Return Links/.test(f.title));
+  const checked = report.alternates.filter(a => a.returnLink !== undefined);
+
+  return [
+    {
+      title: 'hreflang',
+      value: `${versions} language version(s)`,
+      status: status(findings.filter(f => !returnFindings.includes(f))),
+      description: `Declared in ${sources.map(s => sourceNames[s]).join(', ')}; ${report.xDefault ? 'has' : 'no'} x-default, ${report.selfReference ? 'self-referencing' : 'missing self-reference'}`,
+    },
+    {
+      title: 'hreflang Return Links',
+      value: `${checked.filter(a => a.returnLink).length}/${report.alternates.length} confirmed`,
+      status: report.alternates.length ? status(returnFindings) : 'PASS',
+      description: report.alternates.length
+        ? 'Alternates fetched and checked for a link back to this page'
+        : 'The page lists no alternates other than itself',
+    },
+  ];
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { AuditResults } from '../types/audit.js';
+import { HTMLTemplateService } from './htmlTemplateService.js';
+
+const PAYLOAD = '"><script>alert(1)</script>';
+
+function render(results: Partial<AuditResults>): string {
+  return new HTMLTemplateService().generateHTMLReport({
+    auditId: 'audit-1',
+    websiteUrl: 'https://example.com/',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    completedAt: new Date('2026-01-01T00:01:00Z'),
+    results: {
+      performanceScore: 90,
+      seoScore: 90,
+      accessibilityScore: 90,
+      bestPracticesScore: 90,
+      securityScore: 90,
+      issues: [],
+      pagesCrawled: 1,
+      ...results,
+    },
+    branding: {},
+  });
+}
+
+describe('HTMLTemplateService', () => {
+  it('escapes values from every rendered section', () => {
+    const html = render({
+      redirects: {
+        requestedUrl: 'http://example.com/',
+        finalUrl: 'https://example.com/',
+        finalStatus: PAYLOAD as unknown as number,
+        hops: [{ url: 'http://example.com/', status: PAYLOAD as unknown as number, type: 'http', location: 'https://example.com/', changes: [] }],
+        loop: false,
+      },
+      network: {
+        requests: 1,
+        transferSize: 1000,
+        failed: 0,
+        fromCache: 0,
+        waterfall: [{ url: 'https://example.com/', resourceType: PAYLOAD, status: PAYLOAD as unknown as number, start: 0, duration: 50, transferSize: 1000 }],
+      },
+      socialPreview: {
+        tags: {},
+        cards: { facebook: { domain: 'example.com' }, linkedin: { domain: 'example.com' }, x: { domain: 'example.com' } },
+        images: [],
+        renders: { facebook: PAYLOAD },
+      },
+      categoryDetails: {
+        security: { score: 90, items: [{ title: 'HSTS', value: '', status: PAYLOAD as 'PASS', description: '' }] },
+      },
+    });
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+  });
+
+  it('renders the redirect chain and waterfall', () => {
+    const html = render({
+      redirects: {
+        requestedUrl: 'http://example.com/',
+        finalUrl: 'https://example.com/',
+        finalStatus: 200,
+        hops: [{ url: 'http://example.com/', status: 301, type: 'http', location: 'https://example.com/', changes: ['http-to-https'] }],
+        loop: false,
+      },
+      network: {
+        requests: 1,
+        transferSize: 2048,
+        failed: 0,
+        fromCache: 0,
+        waterfall: [{ url: 'https://example.com/app.js', resourceType: 'script', status: 200, start: 0, duration: 50, transferSize: 2048 }],
+      },
+    });
+
+    expect(html).toContain('>301</td>');
+    expect(html).toContain('http-to-https');
+    expect(html).toContain('background: #d97706;');
+  });
+});
@@ -1,5 +1,5 @@
 // services/htmlTemplateService.ts
-import type { AuditResults, AuditIssue } from '../types/audit.js';
+import type { AuditResults, AuditIssue, FieldData, FieldMetric } from '../types/audit.js';
 
 export interface BrandingConfig {
   companyName?: string;
@@ -19,6 +19,16 @@ export interface ReportData {
   branding: BrandingConfig;
 }
 
+// Titles, descriptions, URLs and header values come from the audited site; never insert them raw
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 export class HTMLTemplateService {
   /**
    * Generate a complete HTML report for PDF generation
@@ -34,7 +44,7 @@ export class HTMLTemplateService {
 <head>
 <meta charset="UTF-8">
 <meta name="viewport" content="width=device-width, initial-scale=1.0">
-<title>SEO Audit Report - ${websiteUrl}</title>
+<title>SEO Audit Report - ${escapeHtml(websiteUrl)}</title>
 <style>
 ${this.getBaseStyles()}
 ${this.getCustomStyles(primaryColor, secondaryColor)}
@@ -53,13 +63,17 @@ ${this.generateFooter(branding, auditId)}
 ${this.generatePageHeader('Performance', branding)}
 ${this.generatePerformanceSection(results)}
 ${this.generateWebVitalsSection(results)}
-${this.generateSEOIssues(results.issues.filter((issue: AuditIssue) => issue.category === 'PERFORMANCE'))}
+${this.generateWaterfall(results)}
+${this.generateOpportunities(results.issues.filter((issue: AuditIssue) => issue.category === 'PERFORMANCE' && issue.savings))}
+${this.generateSEOIssues(results.issues.filter((issue: AuditIssue) => issue.category === 'PERFORMANCE' && !issue.savings))}
 ${this.generateFooter(branding, auditId)}
 </div>
 <div class="page-break"></div>
 <div class="page seo-analysis">
 ${this.generatePageHeader('SEO', branding)}
 ${this.generateSEOSection(results)}
+${this.generateRedirectChain(results)}
+${this.generateSocialPreviews(results)}
 ${this.generateSEOIssues(results.issues.filter((issue: AuditIssue) => issue.category === 'SEO'))}
 ${this.generateFooter(branding, auditId)}
 </div>
@@ -77,7 +91,14 @@ ${this.generateBestPracticesSection(results)}
 ${this.generateBestPracticesIssues(results.issues.filter((issue: AuditIssue) => issue.category === 'BEST_PRACTICES'))}
 ${this.generateFooter(branding, auditId)}
 </div>
-<div class="page-break"></div>
+${results.securityScore !== undefined ? `<div class="page-break"></div>
+<div class="page security-analysis">
+${this.generatePageHeader('Security', branding)}
+${this.generateSecuritySection(results)}
+${this.generateBestPracticesIssues(results.issues.filter((issue: AuditIssue) => issue.category === 'SECURITY'))}
+${this.generateFooter(branding, auditId)}
+</div>
+` : ''}<div class="page-break"></div>
 <div class="page summary">
 ${this.generatePageHeader('Summary & Next Steps', branding)}
 ${this.generateSummarySection(results)}
@@ -583,14 +604,14 @@ strong {
     return `<div class="header">
 <div class="header-content">
 <div class="company-info">
-${branding.companyName ? `<div class="company-name">${branding.companyName}</div>` : ''}
-${branding.website ? `<div style="font-size: 10px; line-height: 1.3;">${branding.website}</div>` : ''}
-${branding.contactEmail ? `<div style="font-size: 10px; line-height: 1.3;">${branding.contactEmail}</div>` : ''}
+${branding.companyName ? `<div class="company-name">${escapeHtml(branding.companyName)}</div>` : ''}
+${branding.website ? `<div style="font-size: 10px; line-height: 1.3;">${escapeHtml(branding.website)}</div>` : ''}
+${branding.contactEmail ? `<div style="font-size: 10px; line-height: 1.3;">${escapeHtml(branding.contactEmail)}</div>` : ''}
 </div>
 </div>
 </div>
 <div class="report-title">SEO Audit Report</div>
-<div class="report-subtitle">${websiteUrl}</div>
+<div class="report-subtitle">${escapeHtml(websiteUrl)}</div>
 <div class="report-date">Generated on ${completedAt.toLocaleDateString('en-US', {
         year: 'numeric',
         month: 'long',
@@ -715,11 +736,11 @@ ${branding.contactEmail ? `<div style="font-size: 10px; line-height: 1.3;">${bra
           ${issues.map(issue => `
             <li class="issue-item issue-${issue.type.toLowerCase()}">
               <div class="issue-header">
-                <div class="issue-title">${issue.title}</div>
+                <div class="issue-title">${escapeHtml(issue.title)}</div>
                 <div class="issue-type type-${issue.type.toLowerCase()}">${issue.type}</div>
               </div>
-              <div class="issue-description">${issue.description}</div>
-              <div class="issue-recommendation"><strong>Recommendation:</strong> ${issue.recommendation}</div>
+              <div class="issue-description">${escapeHtml(issue.description)}</div>
+              <div class="issue-recommendation"><strong>Recommendation:</strong> ${escapeHtml(issue.recommendation)}</div>
             </li>
           `).join('')}
         </ul>
@@ -749,9 +770,11 @@ with fast loading times and optimal user experience.
 
   private generateWebVitalsSection(results: AuditResults): string {
     const metrics = results.metrics;
-    const pageSpeedMetrics = results.pageSpeedMetrics;
+    // Search ranking uses mobile Core Web Vitals, so prefer the mobile run
+    const pageSpeedMetrics = results.pageSpeedMetrics?.mobile ?? results.pageSpeedMetrics?.desktop;
+    const fieldData = results.fieldData?.mobile ?? results.fieldData?.desktop;
 
-    if (!metrics && !pageSpeedMetrics) {
+    if (!metrics && !pageSpeedMetrics && !fieldData) {
       return `
         <div class="section">
           <div class="section-title">Core Web Vitals</div>
@@ -777,11 +800,12 @@ with fast loading times and optimal user experience.
       });
     }
 
-    if (pageSpeedMetrics?.largestContentfulPaint) {
+    const lcp = pageSpeedMetrics?.largestContentfulPaint || metrics?.largestContentfulPaint;
+    if (lcp) {
       vitals.push({
         name: 'Largest Contentful Paint',
-        value: `${(pageSpeedMetrics.largestContentfulPaint / 1000).toFixed(1)}s`,
-        status: getVitalStatus(pageSpeedMetrics.largestContentfulPaint, { good: 2500, needs: 4000 }),
+        value: `${(lcp / 1000).toFixed(1)}s`,
+        status: getVitalStatus(lcp, { good: 2500, needs: 4000 }),
         threshold: 'Good: < 2.5s | Needs Improvement: < 4.0s'
       });
     }
@@ -795,12 +819,14 @@ with fast loading times and optimal user experience.
       });
     }
 
-    if (pageSpeedMetrics?.firstInputDelay) {
+    // Lab runs have no real interactions, so prefer real-user INP
+    const inp = fieldData?.interactionToNextPaint?.percentile ?? metrics?.interactionToNextPaint;
+    if (inp !== undefined) {
       vitals.push({
-        name: 'First Input Delay',
-        value: `${pageSpeedMetrics.firstInputDelay}ms`,
-        status: getVitalStatus(pageSpeedMetrics.firstInputDelay, { good: 100, needs: 300 }),
-        threshold: 'Good: < 100ms | Needs Improvement: < 300ms'
+        name: fieldData?.interactionToNextPaint ? 'Interaction to Next Paint (p75)' : 'Interaction to Next Paint',
+        value: `${Math.round(inp)}ms`,
+        status: getVitalStatus(inp, { good: 200, needs: 500 }),
+        threshold: 'Good: < 200ms | Needs Improvement: < 500ms'
       });
     }
 
@@ -831,10 +857,129 @@ with fast loading times and optimal user experience.
             </div>
           `).join('')}
         </div>
+        ${this.generateFieldDataTable(fieldData)}
       </div>
     `;
   }
 
+  private generateFieldDataTable(fieldData: FieldData | undefined): string {
+    if (!fieldData) return '';
+
+    const rows: Array<{ name: string; metric?: FieldMetric; format: (v: number) => string }> = [
+      { name: 'Largest Contentful Paint', metric: fieldData.largestContentfulPaint, format: v => `${(v / 1000).toFixed(1)}s` },
+      { name: 'Interaction to Next Paint', metric: fieldData.interactionToNextPaint, format: v => `${Math.round(v)}ms` },
+      { name: 'Cumulative Layout Shift', metric: fieldData.cumulativeLayoutShift, format: v => v.toFixed(2) },
+    ];
+    const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+    return `
+        <div style="margin-top: 18px;">
+          <div style="font-weight: 600; margin-bottom: 6px;">Real-User Experience (Chrome UX Report)</div>
+          <p style="margin-bottom: 10px; font-size: 11px; line-height: 1.4;">
+            75th percentile of the last 28 days of Chrome users visiting ${fieldData.scope === 'url' ? 'this page' : 'this site (not enough data for the page alone)'}.
+          </p>
+          <table style="width: 100%; border-collapse: collapse; font-size: 11px;">
+            <tr style="text-align: left; border-bottom: 1px solid #e5e7eb;">
+              <th style="padding: 6px;">Metric</th>
+              <th style="padding: 6px;">p75</th>
+              <th style="padding: 6px; width: 50%;">Good / Needs Improvement / Poor</th>
+            </tr>
+            ${rows.filter(r => r.metric).map(({ name, metric, format }) => `
+            <tr style="border-bottom: 1px solid #f3f4f6;">
+              <td style="padding: 6px;">${name}</td>
+              <td style="padding: 6px; font-weight: 600;">${format(metric!.percentile)}</td>
+              <td style="padding: 6px;">
+                <div style="display: flex; height: 12px; border-radius: 3px; overflow: hidden;">
+                  <div style="width: ${pct(metric!.distribution.good)}; background: #059669;"></div>
+                  <div style="width: ${pct(metric!.distribution.needsImprovement)}; background: #d97706;"></div>
+                  <div style="width: ${pct(metric!.distribution.poor)}; background: #dc2626;"></div>
+                </div>
+                <div style="margin-top: 2px; color: #6b7280;">${pct(metric!.distribution.good)} / ${pct(metric!.distribution.needsImprovement)} / ${pct(metric!.distribution.poor)}</div>
+              </td>
+            </tr>`).join('')}
+          </table>
+        </div>`;
+  }
+
+  private generateWaterfall(results: AuditResults): string {
+    const network = results.network;
+    if (!network?.waterfall.length) return '';
+
+    const rows = network.waterfall;
+    const span = Math.max(...rows.map(r => r.start + r.duration), network.onLoad ?? 0, 1);
+    const pct = (v: number) => `${Math.min(100, (v / span) * 100).toFixed(2)}%`;
+    const colors: Record<string, string> = {
+      document: '#2563eb', stylesheet: '#7c3aed', script: '#d97706', image: '#059669', font: '#db2777', fetch: '#0891b2', xhr: '#0891b2',
+    };
+    const size = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MiB` : `${Math.round(bytes / 1024)} KiB`;
+    const label = (url: string) => {
+      try {
+        const u = new URL(url);
+        const file = u.pathname.split('/').filter(Boolean).pop();
+        return file ? `${u.host}/…/${file}` : u.host;
+      } catch {
+        return url;
+      }
+    };
+    const marker = (at: number | undefined, color: string) =>
+      at === undefined ? '' : `<div style="position: absolute; top: 0; bottom: 0; left: ${pct(at)}; border-left: 1px dashed ${color};"></div>`;
+
+    return `<div class="section">
+<div class="section-title">Network Waterfall</div>
+<p style="margin-bottom: 10px; font-size: 11px; line-height: 1.4;">
+The page made <strong>${escapeHtml(network.requests)}</strong> request${network.requests === 1 ? '' : 's'} transferring <strong>${size(network.transferSize)}</strong>${network.failed ? `, ${escapeHtml(network.failed)} failed` : ''}. 
+Shown are the ${rows.length} slowest, in start order${network.onLoad !== undefined ? `; the dashed lines mark DOMContentLoaded (blue) and load (red) at ${Math.round(network.onContentLoad ?? 0)}ms and ${Math.round(network.onLoad)}ms` : ''}. 
+The full HAR can be downloaded from the audit API.
+</p>
+<table style="width: 100%; border-collapse: collapse; font-size: 10px; table-layout: fixed;">
+${rows.map(r => `<tr style="border-bottom: 1px solid #f3f4f6;">
+<td style="padding: 3px 6px; width: 38%; overflow: hidden; white-space: nowrap; text-overflow: ellipsis;" title="${escapeHtml(r.url)}">${escapeHtml(label(r.url))}</td>
+<td style="padding: 3px 6px; width: 8%; color: ${r.error || r.status >= 400 ? '#dc2626' : '#6b7280'};">${r.error ? 'failed' : escapeHtml(r.status || '')}</td>
+<td style="padding: 3px 6px; width: 10%; text-align: right; color: #6b7280;">${r.fromCache ? 'cache' : size(r.transferSize)}</td>
+<td style="padding: 3px 6px;">
+<div style="position: relative; height: 10px;">
+${marker(network.onContentLoad, '#2563eb')}${marker(network.onLoad, '#dc2626')}
+<div style="position: absolute; top: 2px; height: 6px; left: ${pct(r.start)}; width: ${pct(Math.max(r.duration, span / 200))}; background: ${escapeHtml(colors[r.resourceType] ?? '#9ca3af')}; border-radius: 2px;"></div>
+</div>
+</td>
+<td style="padding: 3px 6px; width: 8%; text-align: right;">${Math.round(r.duration)}ms</td>
+</tr>`).join('')}
+</table>
+</div>`;
+  }
+
+  private generateOpportunities(opportunities: AuditIssue[]): string {
+    if (opportunities.length === 0) return '';
+
+    const ranked = [...opportunities].sort((a, b) =>
+      (b.savings?.ms ?? 0) - (a.savings?.ms ?? 0) || (b.savings?.bytes ?? 0) - (a.savings?.bytes ?? 0)
+    );
+    const formatSavings = ({ ms, bytes }: NonNullable<AuditIssue['savings']>) => [
+      ms ? (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`) : '',
+      bytes ? (bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MiB` : `${Math.round(bytes / 1024)} KiB`) : '',
+    ].filter(Boolean).join(' · ') || '—';
+
+    return `<div class="section">
+<div class="section-title">Opportunities</div>
+<p style="margin-bottom: 10px; font-size: 11px; line-height: 1.4;">
+Suggestions that could make the page load faster, ranked by estimated savings. Savings are estimates from Lighthouse.
+</p>
+<table style="width: 100%; border-collapse: collapse; font-size: 11px;">
+<tr style="text-align: left; border-bottom: 1px solid #e5e7eb;">
+<th style="padding: 6px;">Opportunity</th>
+<th style="padding: 6px; white-space: nowrap;">Est. Savings</th>
+</tr>
+${ranked.slice(0, 12).map(issue => `<tr style="border-bottom: 1px solid #f3f4f6;">
+<td style="padding: 6px;">
+<strong>${escapeHtml(issue.title)}</strong>
+${issue.urls?.length ? `<div style="margin-top: 3px; color: #6b7280; word-break: break-all;">${issue.urls.slice(0, 3).map(escapeHtml).join('<br>')}${issue.urls.length > 3 ? `<br>+ ${issue.urls.length - 3} more` : ''}</div>` : ''}
+</td>
+<td style="padding: 6px; white-space: nowrap; font-weight: 600;">${formatSavings(issue.savings!)}</td>
+</tr>`).join('')}
+</table>
+</div>`;
+  }
+
   private generateSEOSection(results: AuditResults): string {
     const seoIssues = results.issues.filter((issue: AuditIssue) => issue.category === 'SEO');
 
@@ -854,6 +999,57 @@ that could help increase your search engine visibility and rankings.
 </div>`;
   }
 
+  private generateRedirectChain(results: AuditResults): string {
+    const chain = results.redirects;
+    if (!chain?.hops.length) return '';
+    const typeLabel = { 'http': 'Server', 'refresh-header': 'Refresh header', 'meta-refresh': 'Meta refresh', 'javascript': 'JavaScript' };
+
+    return `<div class="section">
+<div class="section-title">Redirect Chain</div>
+<p style="margin-bottom: 10px;">
+${chain.loop ? '<strong style="color: #dc2626;">The redirects loop.</strong> ' : ''}The requested URL went through 
+${chain.hops.length} redirect${chain.hops.length > 1 ? 's' : ''} before reaching <strong style="word-break: break-all;">${escapeHtml(chain.finalUrl)}</strong>.
+</p>
+<table style="width: 100%; border-collapse: collapse; font-size: 11px;">
+<tr style="text-align: left; border-bottom: 1px solid #e5e7eb;">
+<th style="padding: 6px;">#</th>
+<th style="padding: 6px;">URL</th>
+<th style="padding: 6px;">Redirect</th>
+<th style="padding: 6px;">Changes</th>
+</tr>
+${chain.hops.map((hop, i) => `<tr style="border-bottom: 1px solid #f3f4f6;">
+<td style="padding: 6px;">${i + 1}</td>
+<td style="padding: 6px; word-break: break-all;">${escapeHtml(hop.url)}</td>
+<td style="padding: 6px; font-weight: 600; color: ${hop.type === 'http' ? '#374151' : '#d97706'};">${escapeHtml(hop.status ?? typeLabel[hop.type])}</td>
+<td style="padding: 6px;">${escapeHtml(hop.changes.join(', '))}</td>
+</tr>`).join('')}
+<tr>
+<td style="padding: 6px;">${chain.hops.length + 1}</td>
+<td style="padding: 6px; word-break: break-all;">${escapeHtml(chain.hops[chain.hops.length - 1].location)}</td>
+<td style="padding: 6px; font-weight: 600;">${chain.loop ? '' : escapeHtml(chain.finalStatus)}</td>
+<td style="padding: 6px;"></td>
+</tr>
+</table>
+</div>`;
+  }
+
+  private generateSocialPreviews(results: AuditResults): string {
+    const renders = results.socialPreview?.renders;
+    if (!renders || !Object.values(renders).some(Boolean)) return '';
+    const networks: Array<[keyof typeof renders, string]> = [['facebook', 'Facebook'], ['linkedin', 'LinkedIn'], ['x', 'X']];
+
+    return `<div class="section">
+<div class="section-title">Social Share Previews</div>
+<p style="margin-bottom: 10px;">How a link to this page appears when shared, based on its Open Graph and Twitter Card tags.</p>
+<div style="display: flex; gap: 10px; align-items: flex-start;">
+${networks.filter(([key]) => renders[key]).map(([key, label]) => `<div style="flex: 1; min-width: 0;">
+<div style="font-size: 11px; font-weight: 600; color: #6b7280; margin-bottom: 4px;">${label}</div>
+<img src="data:image/jpeg;base64,${escapeHtml(renders[key])}" alt="${label} link preview" style="width: 100%; border-radius: 4px;">
+</div>`).join('')}
+</div>
+</div>`;
+  }
+
   private generateSEOIssues(issues: AuditIssue[]): string {
     if (issues.length === 0) {
       return `<div class="section">
@@ -869,11 +1065,11 @@ No issues found in this category.
 <ul class="issues-list">
 ${issues.map(issue => `<li class="issue-item issue-${issue.type.toLowerCase()}">
 <div class="issue-header">
-<div class="issue-title">${issue.title}</div>
+<div class="issue-title">${escapeHtml(issue.title)}</div>
 <div class="issue-type type-${issue.type.toLowerCase()}">${issue.type}</div>
 </div>
-<div class="issue-description">${issue.description}</div>
-<div class="issue-recommendation"><strong>Recommendation:</strong> ${issue.recommendation}</div>
+<div class="issue-description">${escapeHtml(issue.description)}</div>
+<div class="issue-recommendation"><strong>Recommendation:</strong> ${escapeHtml(issue.recommendation)}</div>
 </li>`).join('')}
 </ul>
 </div>`;
@@ -914,11 +1110,11 @@ No issues found in this category.
 <ul class="issues-list">
 ${issues.map(issue => `<li class="issue-item issue-${issue.type.toLowerCase()}">
 <div class="issue-header">
-<div class="issue-title">${issue.title}</div>
+<div class="issue-title">${escapeHtml(issue.title)}</div>
 <div class="issue-type type-${issue.type.toLowerCase()}">${issue.type}</div>
 </div>
-<div class="issue-description">${issue.description}</div>
-<div class="issue-recommendation"><strong>Recommendation:</strong> ${issue.recommendation}</div>
+<div class="issue-description">${escapeHtml(issue.description)}</div>
+<div class="issue-recommendation"><strong>Recommendation:</strong> ${escapeHtml(issue.recommendation)}</div>
 </li>`).join('')}
 </ul>
 </div>`;
@@ -944,6 +1140,32 @@ and maintains high standards for security and user experience.
 </div>`;
   }
 
+  private generateSecuritySection(results: AuditResults): string {
+    const checks = results.categoryDetails?.security?.items ?? [];
+    const statusColor = { PASS: '#059669', WARNING: '#d97706', FAIL: '#dc2626' };
+
+    return `<div class="section">
+<div class="section-title">Security Overview</div>
+<p style="margin-bottom: 14px;">
+Security headers and a healthy TLS setup protect your visitors against cross-site scripting, clickjacking and 
+interception. Your security score of <strong>${results.securityScore ?? 0}/100</strong> is based on the response 
+headers and certificate of your main page.
+</p>
+${checks.length > 0 ? `<table style="width: 100%; border-collapse: collapse; font-size: 11px;">
+<tr style="text-align: left; border-bottom: 1px solid #e5e7eb;">
+<th style="padding: 6px;">Check</th>
+<th style="padding: 6px;">Status</th>
+<th style="padding: 6px;">Details</th>
+</tr>
+${checks.map(item => `<tr style="border-bottom: 1px solid #f3f4f6;">
+<td style="padding: 6px; font-weight: 600;">${escapeHtml(item.title)}</td>
+<td style="padding: 6px; color: ${escapeHtml(statusColor[item.status])}; font-weight: 600;">${escapeHtml(item.status)}</td>
+<td style="padding: 6px; word-break: break-all;">${escapeHtml(item.description)}</td>
+</tr>`).join('')}
+</table>` : ''}
+</div>`;
+  }
+
   private generateBestPracticesIssues(issues: AuditIssue[]): string {
     if (issues.length === 0) {
       return `<div class="section">
@@ -959,11 +1181,11 @@ No issues found in this category.
 <ul class="issues-list">
 ${issues.map(issue => `<li class="issue-item issue-${issue.type.toLowerCase()}">
 <div class="issue-header">
-<div class="issue-title">${issue.title}</div>
+<div class="issue-title">${escapeHtml(issue.title)}</div>
 <div class="issue-type type-${issue.type.toLowerCase()}">${issue.type}</div>
 </div>
-<div class="issue-description">${issue.description}</div>
-<div class="issue-recommendation"><strong>Recommendation:</strong> ${issue.recommendation}</div>
+<div class="issue-description">${escapeHtml(issue.description)}</div>
+<div class="issue-recommendation"><strong>Recommendation:</strong> ${escapeHtml(issue.recommendation)}</div>
 </li>`).join('')}
 </ul>
 </div>`;
@@ -992,7 +1214,8 @@ ${issues.map(issue => `<li class="issue-item issue-${issue.type.toLowerCase()}">
       'PERFORMANCE': 'Performance Issues',
       'SEO': 'SEO Issues',
       'ACCESSIBILITY': 'Accessibility Issues',
-      'BEST_PRACTICES': 'Best Practices Issues'
+      'BEST_PRACTICES': 'Best Practices Issues',
+      'SECURITY': 'Security Issues'
     };
 
     return `
@@ -1007,14 +1230,14 @@ ${issues.map(issue => `<li class="issue-item issue-${issue.type.toLowerCase()}">
               ${categoryIssues.map((issue: AuditIssue, index: number) => `
                 <li class="issue-item issue-${issue.type.toLowerCase()}">
                   <div class="issue-header">
-                    <div class="issue-title">${index + 1}. ${issue.title}</div>
+                    <div class="issue-title">${index + 1}. ${escapeHtml(issue.title)}</div>
                     <div class="issue-type type-${issue.type.toLowerCase()}">${issue.type}</div>
                   </div>
                   <div style="margin-bottom: 10px;">
                     <span class="recommendation-impact impact-${issue.impact.toLowerCase()}">${issue.impact} Impact</span>
                   </div>
-                  <div class="issue-description">${issue.description}</div>
-                  <div class="issue-recommendation"><strong>Recommendation:</strong> ${issue.recommendation}</div>
+                  <div class="issue-description">${escapeHtml(issue.description)}</div>
+                  <div class="issue-recommendation"><strong>Recommendation:</strong> ${escapeHtml(issue.recommendation)}</div>
                 </li>
               `).join('')}
             </ul>
@@ -1090,9 +1313,9 @@ ${issues.map(issue => `<li class="issue-item issue-${issue.type.toLowerCase()}">
               <div class="recommendations-row">
                 ${row.map((issue: AuditIssue, index: number) => `
                   <div class="recommendation-card priority-high">
-                    <div class="recommendation-title">${highPriorityIssues.indexOf(issue) + 1}. ${issue.title}</div>
+                    <div class="recommendation-title">${highPriorityIssues.indexOf(issue) + 1}. ${escapeHtml(issue.title)}</div>
                     <div class="recommendation-impact impact-high">High Impact</div>
-                    <p style="font-size: 11px; line-height: 1.4;">${issue.recommendation}</p>
+                    <p style="font-size: 11px; line-height: 1.4;">${escapeHtml(issue.recommendation)}</p>
                   </div>
                 `).join('')}
               </div>
@@ -1107,9 +1330,9 @@ ${issues.map(issue => `<li class="issue-item issue-${issue.type.toLowerCase()}">
               <div class="recommendations-row">
                 ${row.map((issue: AuditIssue, index: number) => `
                   <div class="recommendation-card priority-medium">
-                    <div class="recommendation-title">${mediumPriorityIssues.indexOf(issue) + 1}. ${issue.title}</div>
+                    <div class="recommendation-title">${mediumPriorityIssues.indexOf(issue) + 1}. ${escapeHtml(issue.title)}</div>
                     <div class="recommendation-impact impact-medium">Medium Impact</div>
-                    <p style="font-size: 11px; line-height: 1.4;">${issue.recommendation}</p>
+                    <p style="font-size: 11px; line-height: 1.4;">${escapeHtml(issue.recommendation)}</p>
                   </div>
                 `).join('')}
               </div>
@@ -1131,11 +1354,11 @@ ${issues.map(issue => `<li class="issue-item issue-${issue.type.toLowerCase()}">
     return `
       <div class="footer">
         <div class="footer-left">
-          ${branding.companyName ? `Generated by ${branding.companyName} | ` : ''}
+          ${branding.companyName ? `Generated by ${escapeHtml(branding.companyName)} | ` : ''}
           Powered by Meizo.io
         </div>
         <div class="footer-right">
-          Audit ID: ${auditId}
+          Audit ID: ${escapeHtml(auditId)}
         </div>
       </div>
     `;
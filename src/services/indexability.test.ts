@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedByRobots, parseRobotsDirectives, parseRobotsTxt } from './indexability.js';
+
+const ROBOTS = `
+# Consecutive User-agent lines share one group
+User-agent: Googlebot/2.1
+User-agent: bingbot
+Disallow: /private
+Allow: /private/press   # trailing comment
+Disallow:
+
+User-agent: *
+Disallow: /
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive user-agents and collects sitemaps', () => {
+    const robots = parseRobotsTxt(ROBOTS);
+    expect(robots.groups).toEqual([
+      {
+        agents: ['googlebot', 'bingbot'],
+        rules: [{ allow: false, path: '/private' }, { allow: true, path: '/private/press' }],
+      },
+      { agents: ['*'], rules: [{ allow: false, path: '/' }] },
+    ]);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('starts a new group for a user-agent after rules', () => {
+    const robots = parseRobotsTxt('User-agent: a\nDisallow: /x\nUser-agent: b\nDisallow: /y');
+    expect(robots.groups.map(g => g.agents)).toEqual([['a'], ['b']]);
+  });
+});
+
+describe('isAllowedByRobots', () => {
+  const robots = parseRobotsTxt(ROBOTS);
+
+  it('uses the group naming the agent instead of *', () => {
+    expect(isAllowedByRobots(robots, 'https://example.com/about')).toEqual({ allowed: true, rule: undefined });
+    expect(isAllowedByRobots(robots, 'https://example.com/about', 'duckduckbot')).toEqual({ allowed: false, rule: 'Disallow: /' });
+  });
+
+  it('lets the longest matching rule win', () => {
+    expect(isAllowedByRobots(robots, 'https://example.com/private/notes').allowed).toBe(false);
+    expect(isAllowedByRobots(robots, 'https://example.com/private/press/2024')).toEqual({ allowed: true, rule: 'Allow: /private/press' });
+  });
+
+  it('lets Allow win a tie between rules of equal length', () => {
+    const tie = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page');
+    expect(isAllowedByRobots(tie, 'https://example.com/page', 'any')).toEqual({ allowed: true, rule: 'Allow: /page' });
+    const reversed = parseRobotsTxt('User-agent: *\nAllow: /page\nDisallow: /page');
+    expect(isAllowedByRobots(reversed, 'https://example.com/page', 'any').allowed).toBe(true);
+  });
+
+  it('supports * wildcards and the $ anchor, matching the query string too', () => {
+    const wild = parseRobotsTxt('User-agent: *\nDisallow: /*.pdf$\nDisallow: /*?sessionid=');
+    expect(isAllowedByRobots(wild, 'https://example.com/files/report.pdf', 'any').allowed).toBe(false);
+    expect(isAllowedByRobots(wild, 'https://example.com/files/report.pdf.html', 'any').allowed).toBe(true);
+    expect(isAllowedByRobots(wild, 'https://example.com/cart?sessionid=1', 'any').allowed).toBe(false);
+  });
+
+  it('allows everything when no group applies', () => {
+    expect(isAllowedByRobots(parseRobotsTxt('User-agent: bingbot\nDisallow: /'), 'https://example.com/').allowed).toBe(true);
+  });
+});
+
+describe('parseRobotsDirectives', () => {
+  it('keeps unscoped and googlebot directives and expands none', () => {
+    expect(parseRobotsDirectives(['googlebot: none', 'bingbot: noindex', 'max-snippet: 20, noarchive']))
+      .toEqual(['noindex', 'nofollow', 'max-snippet: 20', 'noarchive']);
+  });
+});
@@ -0,0 +1,441 @@
+// services/indexability.ts
+import type { HTTPResponse, Page } from 'puppeteer';
+import type { AuditIssue, CategoryDetail, Indexability, SitemapInfo } from '../types/audit.js';
+import { config } from '../config/index.js';
+import { normalizeCrawlUrl } from './crawler.js';
+import { inspectSitemaps, type SitemapAlternate } from './sitemap.js';
+import { readUpTo, safeFetch } from './urlSafety.js';
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsTxt {
+  groups: Array<{ agents: string[]; rules: RobotsRule[] }>;
+  sitemaps: string[];
+}
+
+export interface IndexabilityResult {
+  report: Indexability;
+  issues: AuditIssue[];
+  items: CategoryDetail['items'];
+}
+
+export interface SiteSignals {
+  robotsTxt: { url: string; status?: number; found: boolean; parsed?: RobotsTxt; error?: string };
+  sitemaps: SitemapInfo[];
+  sitemapUrls: Set<string>;
+  // hreflang alternates declared in sitemaps, keyed by normalized page URL
+  sitemapAlternates: Map<string, SitemapAlternate[]>;
+  // /sitemap.xml was tried because robots.txt listed none, and it doesn't exist
+  noSitemap: boolean;
+}
+
+const AGENT = 'googlebot';
+const ROBOTS_TIMEOUT = 10_000;
+// Google ignores anything past the first 500 KiB of robots.txt
+const ROBOTS_MAX_BYTES = 500 * 1024;
+const MAX_ROOT_SITEMAPS = 3;
+
+// robots.txt and sitemaps are per site; crawls and repeat audits reuse them for a while.
+// Each entry may hold a few hundred thousand sitemap URLs, so only a handful are kept.
+const SITE_CACHE_TTL = 10 * 60_000;
+const SITE_CACHE_MAX = 5;
+const siteCache = new Map<string, { at: number; signals: Promise<SiteSignals> }>();
+
+// Directives whose value contains a colon, so "name: value" isn't a user-agent prefix
+const VALUED_DIRECTIVES = new Set(['max-snippet', 'max-image-preview', 'max-video-preview', 'unavailable_after']);
+
+// ---------- robots.txt ----------
+
+/** Parse robots.txt into user-agent groups (consecutive User-agent lines share one) and Sitemap URLs. */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const robots: RobotsTxt = { groups: [], sitemaps: [] };
+  let current: RobotsTxt['groups'][number] | null = null;
+  let inAgentLines = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, '').trim();
+    const m = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2].trim();
+
+    if (key === 'user-agent') {
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: [] };
+        robots.groups.push(current);
+      }
+      // Only the product token counts: "Googlebot/2.1" → "googlebot"
+      current.agents.push(value.split('/')[0].trim().toLowerCase());
+      inAgentLines = true;
+    } else if (key === 'allow' || key === 'disallow') {
+      inAgentLines = false;
+      // An empty Disallow allows everything, which is the default anyway
+      if (current && value) current.rules.push({ allow: key === 'allow', path: value });
+    } else if (key === 'sitemap') {
+      if (value) robots.sitemaps.push(value);
+    } else {
+      inAgentLines = false;
+    }
+  }
+
+  return robots;
+}
+
+function ruleMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Decide whether `agent` may crawl `url` the way Google does: the group
+ * naming the agent wins over `*`, then the longest matching rule, with
+ * Allow winning ties.
+ */
+export function isAllowedByRobots(robots: RobotsTxt, url: string, agent = AGENT): { allowed: boolean; rule?: string } {
+  const { pathname, search } = new URL(url);
+  const path = `${pathname}${search}`;
+
+  const named = robots.groups.filter(g => g.agents.includes(agent));
+  const groups = named.length ? named : robots.groups.filter(g => g.agents.includes('*'));
+
+  let best: RobotsRule | undefined;
+  for (const rule of groups.flatMap(g => g.rules)) {
+    if (!ruleMatches(rule.path, path)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+
+  return {
+    allowed: !best || best.allow,
+    rule: best && `${best.allow ? 'Allow' : 'Disallow'}: ${best.path}`,
+  };
+}
+
+/**
+ * Flatten robots meta/X-Robots-Tag values into the directives that apply to
+ * `agent`. Values may be scoped ("googlebot: noindex"); "none" expands to
+ * noindex + nofollow.
+ */
+export function parseRobotsDirectives(values: string[], agent = AGENT): string[] {
+  const directives = new Set<string>();
+
+  for (const value of values) {
+    let body = value.trim();
+    const scoped = body.match(/^([a-z0-9_-]+)\s*:\s*(.*)$/i);
+    if (scoped && !VALUED_DIRECTIVES.has(scoped[1].toLowerCase())) {
+      if (scoped[1].toLowerCase() !== agent) continue;
+      body = scoped[2];
+    }
+    for (const token of body.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)) {
+      if (token === 'none') {
+        directives.add('noindex');
+        directives.add('nofollow');
+      } else {
+        directives.add(token);
+      }
+    }
+  }
+
+  return Array.from(directives);
+}
+
+async function fetchRobotsTxt(origin: string, signal: AbortSignal): Promise<SiteSignals['robotsTxt']> {
+  const url = new URL('/robots.txt', origin).toString();
+  try {
+    const res = await safeFetch(url, { signal: AbortSignal.any([AbortSignal.timeout(ROBOTS_TIMEOUT), signal]) });
+    if (!res.ok) {
+      await res.body?.cancel().catch(() => { /* ignore */ });
+      return { url, status: res.status, found: false };
+    }
+    const text = (await readUpTo(res, ROBOTS_MAX_BYTES)).subarray(0, ROBOTS_MAX_BYTES).toString('utf8');
+    return { url, status: res.status, found: true, parsed: parseRobotsTxt(text) };
+  } catch (e) {
+    console.warn(`[indexability] failed to fetch ${url}:`, (e as Error).message);
+    return { url, found: false, error: (e as Error).message };
+  }
+}
+
+async function fetchSiteSignals(origin: string, signal: AbortSignal): Promise<SiteSignals> {
+  const robotsTxt = await fetchRobotsTxt(origin, signal);
+
+  const listed = robotsTxt.parsed?.sitemaps ?? [];
+  const roots = listed.length
+    ? listed.slice(0, MAX_ROOT_SITEMAPS).map(url => ({ url, source: 'robots' as const }))
+    : [{ url: new URL('/sitemap.xml', origin).toString(), source: 'default' as const }];
+  const { sitemaps, pageUrls, alternates } = await inspectSitemaps(roots, signal);
+
+  // A missing /sitemap.xml just means there is no sitemap, not a broken one
+  const noSitemap = !listed.length && sitemaps[0]?.type === 'invalid' && (sitemaps[0].status ?? 0) >= 400;
+
+  return {
+    robotsTxt,
+    sitemaps: noSitemap ? [] : sitemaps,
+    sitemapUrls: new Set(Array.from(pageUrls, u => normalizeCrawlUrl(u) ?? u)),
+    sitemapAlternates: new Map(Array.from(alternates, ([u, links]) => [normalizeCrawlUrl(u) ?? u, links])),
+    noSitemap,
+  };
+}
+
+/**
+ * robots.txt and sitemap data for the URL's origin, cached for a few
+ * minutes. The fetches stop after `config.sitemap.budgetMs`, or when
+ * `signal` (the job that started them) aborts, in which case the partial
+ * result is not cached. Never rejects; call early to overlap the fetches
+ * with page load.
+ */
+export function loadSiteSignals(url: string, signal?: AbortSignal): Promise<SiteSignals> {
+  const origin = new URL(url).origin;
+  for (const [key, entry] of siteCache) {
+    if (Date.now() - entry.at >= SITE_CACHE_TTL) siteCache.delete(key);
+  }
+  const cached = siteCache.get(origin);
+  if (cached) return cached.signals;
+
+  const budget = AbortSignal.timeout(config.sitemap.budgetMs);
+  const signals = fetchSiteSignals(origin, signal ? AbortSignal.any([budget, signal]) : budget).catch((e): SiteSignals => {
+    console.warn(`[indexability] ${origin}:`, (e as Error).message);
+    return { robotsTxt: { url: `${origin}/robots.txt`, found: false, error: (e as Error).message }, sitemaps: [], sitemapUrls: new Set(), sitemapAlternates: new Map(), noSitemap: false };
+  }).finally(() => {
+    if (signal?.aborted && siteCache.get(origin)?.signals === signals) siteCache.delete(origin);
+  });
+  siteCache.delete(origin);
+  siteCache.set(origin, { at: Date.now(), signals });
+  while (siteCache.size > SITE_CACHE_MAX) {
+    siteCache.delete(siteCache.keys().next().value!);
+  }
+  return signals;
+}
+
+// ---------- Verdict ----------
+
+type Finding = Omit<AuditIssue, 'category'>;
+
+/**
+ * Combine robots.txt, robots meta tags, X-Robots-Tag, HTTP status, the
+ * canonical link and sitemap membership into an indexable yes/no verdict.
+ */
+export async function analyzeIndexability(
+  page: Page,
+  response: HTTPResponse | null,
+  requestedUrl: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<IndexabilityResult> {
+  const pageUrl = page.url() || requestedUrl;
+  const site = await loadSiteSignals(pageUrl, options.signal);
+
+  const onPage = await page.evaluate(() => ({
+    meta: Array.from(document.querySelectorAll('meta[name]'))
+      .filter(m => ['robots', 'googlebot'].includes((m.getAttribute('name') || '').toLowerCase()))
+      .map(m => m.getAttribute('content') || ''),
+    canonical: document.querySelector('link[rel="canonical"]')?.getAttribute('href') || undefined,
+  })).catch(() => ({ meta: [] as string[], canonical: undefined }));
+
+  const headerValues = (response?.headers()['x-robots-tag'] ?? '').split('\n').filter(Boolean);
+  const directives = { meta: parseRobotsDirectives(onPage.meta), header: parseRobotsDirectives(headerValues) };
+  const all = new Set([...directives.meta, ...directives.header]);
+
+  const robots = site.robotsTxt;
+  const serverError = (robots.status ?? 0) >= 500;
+  const decision = robots.parsed ? isAllowedByRobots(robots.parsed, pageUrl) : { allowed: !serverError, rule: undefined };
+
+  const self = normalizeCrawlUrl(pageUrl);
+  const canonical = onPage.canonical ? normalizeCrawlUrl(onPage.canonical, pageUrl) ?? onPage.canonical : undefined;
+  const hasUrlset = site.sitemaps.some(s => s.type === 'urlset');
+  const inSitemap = hasUrlset
+    ? site.sitemapUrls.has(self ?? pageUrl) || site.sitemapUrls.has(normalizeCrawlUrl(requestedUrl) ?? requestedUrl)
+    : undefined;
+
+  const blockers: Finding[] = [];
+  const warnings: Finding[] = [];
+  const status = response?.status() ?? 0;
+
+  if (status >= 400) {
+    blockers.push({
+      type: 'ERROR',
+      title: 'Page Not Indexable: HTTP Error',
+      description: `The page returned HTTP ${status}; error pages are not indexed.`,
+      impact: 'HIGH',
+      recommendation: 'Serve the page with a 200 status, or redirect the URL to its replacement.',
+    });
+  }
+  if (serverError) {
+    blockers.push({
+      type: 'ERROR',
+      title: 'Page Not Indexable: robots.txt Unavailable',
+      description: `robots.txt returned HTTP ${robots.status}. Google treats a robots.txt server error as if the whole site were disallowed.`,
+      impact: 'HIGH',
+      recommendation: 'Make /robots.txt return 200 (or 404 if the site has no crawl rules).',
+    });
+  } else if (!decision.allowed) {
+    blockers.push({
+      type: 'ERROR',
+      title: 'Page Not Indexable: Blocked by robots.txt',
+      description: `robots.txt blocks Googlebot from this URL (${decision.rule}).`,
+      impact: 'HIGH',
+      recommendation: 'Remove or narrow the Disallow rule if this page should appear in search results.',
+    });
+  }
+  if (all.has('noindex')) {
+    const where = [directives.meta.includes('noindex') && 'a robots meta tag', directives.header.includes('noindex') && 'the X-Robots-Tag header']
+      .filter(Boolean).join(' and ');
+    blockers.push({
+      type: 'ERROR',
+      title: 'Page Not Indexable: noindex',
+      description: `The page is excluded from search results by noindex in ${where}.`,
+      impact: 'HIGH',
+      recommendation: 'Remove the noindex directive if this page should appear in search results.',
+    });
+  }
+  if (canonical && self && canonical !== self) {
+    blockers.push({
+      type: 'WARNING',
+      title: 'Page Not Indexable: Canonicalized',
+      description: `The canonical link points to ${canonical}, so search engines will index that URL instead of this one.`,
+      impact: 'MEDIUM',
+      recommendation: 'Point the canonical link at the page itself unless this URL is an intentional duplicate.',
+    });
+  }
+
+  if (!decision.allowed && all.has('noindex')) {
+    warnings.push({
+      type: 'WARNING',
+      title: 'noindex Hidden by robots.txt',
+      description: 'robots.txt blocks crawling, so Googlebot never sees the noindex directive; the URL can still be indexed (without content) from links.',
+      impact: 'MEDIUM',
+      recommendation: 'Allow crawling of the page so the noindex takes effect, or drop the noindex and rely on robots.txt alone.',
+    });
+  }
+  if (all.has('noindex') && all.has('nofollow')) {
+    warnings.push({
+      type: 'WARNING',
+      title: 'noindex Combined with nofollow',
+      description: 'The page is dropped from search results and its links are not followed, so pages only linked from here may not be discovered.',
+      impact: 'LOW',
+      recommendation: 'Use "noindex, follow" unless the links on this page should also be ignored.',
+    });
+  } else if (all.has('nofollow')) {
+    warnings.push({
+      type: 'WARNING',
+      title: 'Links Not Followed (nofollow)',
+      description: 'The page can be indexed, but a page-level nofollow tells search engines not to follow any of its links.',
+      impact: 'MEDIUM',
+      recommendation: 'Remove the page-level nofollow and use rel="nofollow" on individual links instead.',
+    });
+  }
+  if (inSitemap && blockers.length) {
+    warnings.push({
+      type: 'WARNING',
+      title: 'Non-Indexable Page in Sitemap',
+      description: 'The page is listed in the sitemap but is not indexable, which sends search engines conflicting signals.',
+      impact: 'LOW',
+      recommendation: 'Only list canonical, indexable URLs in sitemaps.',
+    });
+  }
+  if (robots.error) {
+    warnings.push({
+      type: 'WARNING',
+      title: 'robots.txt Could Not Be Fetched',
+      description: `Requesting ${robots.url} failed (${robots.error}). Google postpones crawling while robots.txt is unreachable.`,
+      impact: 'MEDIUM',
+      recommendation: 'Make sure /robots.txt responds quickly with 200 or 404.',
+    });
+  }
+  if (site.noSitemap) {
+    warnings.push({
+      type: 'INFO',
+      title: 'No XML Sitemap',
+      description: 'robots.txt lists no Sitemap and /sitemap.xml does not exist.',
+      impact: 'LOW',
+      recommendation: 'Publish an XML sitemap and reference it from robots.txt with a Sitemap: line.',
+    });
+  } else if (inSitemap === false && !blockers.length) {
+    warnings.push({
+      type: 'INFO',
+      title: 'Page Not in Sitemap',
+      description: 'The page is indexable but not listed in any sitemap that was found.',
+      impact: 'LOW',
+      recommendation: 'Add the page to the XML sitemap so search engines discover changes sooner.',
+    });
+  }
+  for (const sitemap of site.sitemaps.filter(s => s.errors.length)) {
+    warnings.push({
+      type: 'WARNING',
+      title: `Sitemap Errors: ${sitemap.url}`,
+      description: sitemap.errors.join('; '),
+      impact: 'LOW',
+      recommendation: 'Fix the sitemap so it follows the sitemaps.org protocol; search engines skip invalid entries or whole files.',
+    });
+  }
+
+  const report: Indexability = {
+    indexable: blockers.length === 0,
+    reasons: blockers.map(f => f.description),
+    warnings: warnings.map(f => f.title),
+    robotsTxt: {
+      url: robots.url,
+      status: robots.status,
+      found: robots.found,
+      allowed: decision.allowed,
+      matchedRule: decision.rule,
+      error: robots.error,
+    },
+    directives,
+    canonical,
+    sitemaps: site.sitemaps,
+    inSitemap,
+  };
+
+  const issues = [...blockers, ...warnings].map(f => ({ ...f, category: 'SEO' as const }));
+  return { report, issues, items: indexabilityItems(report) };
+}
+
+function indexabilityItems(report: Indexability): CategoryDetail['items'] {
+  const directives = Array.from(new Set([...report.directives.meta, ...report.directives.header]));
+  const urlsets = report.sitemaps.filter(s => s.type === 'urlset');
+  const sitemapErrors = report.sitemaps.reduce((n, s) => n + s.errors.length, 0);
+
+  return [
+    {
+      title: 'Indexable',
+      value: report.indexable ? 'Yes' : 'No',
+      status: report.indexable ? 'PASS' : 'FAIL',
+      description: report.indexable ? 'Googlebot can crawl and index this page' : report.reasons.join(' '),
+    },
+    {
+      title: 'robots.txt',
+      value: report.robotsTxt.found
+        ? (report.robotsTxt.allowed ? 'Allows this page' : `Blocks this page (${report.robotsTxt.matchedRule})`)
+        : report.robotsTxt.status ? `HTTP ${report.robotsTxt.status}` : 'Unreachable',
+      status: !report.robotsTxt.allowed ? 'FAIL' : report.robotsTxt.error ? 'WARNING' : 'PASS',
+      description: report.robotsTxt.found
+        ? `Rules for Googlebot in ${report.robotsTxt.url}`
+        : report.robotsTxt.error ? `Could not fetch ${report.robotsTxt.url}` : 'No robots.txt; all URLs may be crawled',
+    },
+    {
+      title: 'Robots Directives',
+      value: directives.length ? directives.join(', ') : 'None',
+      status: directives.includes('noindex') ? 'FAIL' : directives.includes('nofollow') ? 'WARNING' : 'PASS',
+      description: 'Combined robots meta tags and X-Robots-Tag header that apply to Googlebot',
+    },
+    {
+      title: 'XML Sitemap',
+      value: report.sitemaps.length
+        ? `${report.sitemaps.length} sitemap(s), ${urlsets.reduce((n, s) => n + s.entries, 0)} URLs`
+        : 'Not found',
+      status: !report.sitemaps.length || sitemapErrors ? 'WARNING' : 'PASS',
+      description: !report.sitemaps.length
+        ? 'No sitemap in robots.txt or at /sitemap.xml'
+        : sitemapErrors
+          ? `${sitemapErrors} sitemap problem(s) found`
+          : report.inSitemap ? 'Sitemaps are valid and list this page' : 'Sitemaps are valid but do not list this page',
+    },
+  ];
+}
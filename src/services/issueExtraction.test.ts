@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { AuditIssue, CategoryDetail } from '../types/audit.js';
+import { extractIssues } from './issueExtraction.js';
+
+const scores = { performanceScore: 100, seoScore: 100, accessibilityScore: 100, bestPracticesScore: 100, loadTime: 500 };
+
+// What analyzeIndexability returns for a page with <meta name="robots" content="noindex">
+const indexability: { items: CategoryDetail['items']; issues: AuditIssue[] } = {
+  items: [
+    { title: 'Indexable', value: 'No', status: 'FAIL', description: 'The page has a noindex directive.' },
+    { title: 'robots.txt', value: 'Allows this page', status: 'PASS', description: 'Rules for Googlebot' },
+    { title: 'Robots Directives', value: 'noindex', status: 'FAIL', description: 'Combined robots meta tags' },
+  ],
+  issues: [{
+    type: 'ERROR',
+    category: 'SEO',
+    title: 'Page Not Indexable: noindex',
+    description: 'The page is excluded from search results by noindex in a robots meta tag.',
+    impact: 'HIGH',
+    recommendation: 'Remove the noindex directive if this page should appear in search results.',
+  }],
+};
+
+describe('extractIssues', () => {
+  it('reports a failure covered by a module exactly once', () => {
+    const issues = [
+      ...extractIssues({
+        ...scores,
+        categoryDetails: { seo: { items: indexability.items } },
+        moduleItems: new Set(indexability.items),
+      }),
+      ...indexability.issues,
+    ];
+    expect(issues.map(i => i.title)).toEqual(['Page Not Indexable: noindex']);
+  });
+
+  it('still turns FAIL items of the in-page checks into issues', () => {
+    const title = { title: 'Title Tag', value: 'Missing', status: 'FAIL' as const, description: 'The page has no <title>.' };
+    const issues = extractIssues({
+      ...scores,
+      categoryDetails: { seo: { items: [title, ...indexability.items] } },
+      moduleItems: new Set(indexability.items),
+    });
+    expect(issues).toEqual([expect.objectContaining({ category: 'SEO', title: 'Title Tag', impact: 'HIGH' })]);
+  });
+});
@@ -0,0 +1,340 @@
+// services/issueExtraction.ts
+import type { AuditIssue, WebVitals } from '../types/audit.js';
+import { rateVital } from './webVitals.js';
+
+/**
+ * Turn scores, Web Vitals and FAIL items of the category details into
+ * issues. Modules that produce their own issues (indexability, redirects,
+ * structured data and so on) pass their items in `moduleItems` so the same
+ * failure isn't reported twice.
+ */
+export function extractIssues(auditData: {
+  performanceScore: number;
+  seoScore: number;
+  accessibilityScore: number;
+  bestPracticesScore: number;
+  loadTime: number;
+  webVitals?: WebVitals | null;
+  categoryDetails?: {
+    performance?: { items: Array<{ title: string; status: string; description: string }> };
+    seo?: { items: Array<{ title: string; status: string; description: string }> };
+    accessibility?: { items: Array<{ title: string; status: string; description: string }> };
+    bestPractices?: { items: Array<{ title: string; status: string; description: string }> };
+  };
+  // Items from modules that report their own issues; FAILs among them are not converted again
+  moduleItems?: ReadonlySet<object>;
+  pageSpeedMetrics?: {
+    desktop?: {
+      firstContentfulPaint?: number;
+      largestContentfulPaint?: number;
+      cumulativeLayoutShift?: number;
+      totalBlockingTime?: number;
+    };
+    mobile?: {
+      firstContentfulPaint?: number;
+      largestContentfulPaint?: number;
+      cumulativeLayoutShift?: number;
+      totalBlockingTime?: number;
+    };
+  };
+}): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+
+  // Performance Issues
+  if (auditData.performanceScore < 50) {
+    issues.push({
+      type: 'ERROR',
+      category: 'PERFORMANCE',
+      title: 'Poor Performance Score',
+      description: `Overall performance score is ${auditData.performanceScore}/100 (combined desktop & mobile), which is below acceptable standards.`,
+      impact: 'HIGH',
+      recommendation: 'Optimize images, minify CSS/JS, enable compression, and reduce server response times for both desktop and mobile.'
+    });
+  } else if (auditData.performanceScore < 70) {
+    issues.push({
+      type: 'WARNING',
+      category: 'PERFORMANCE',
+      title: 'Below Average Performance',
+      description: `Overall performance score is ${auditData.performanceScore}/100 (combined desktop & mobile), which could be improved.`,
+      impact: 'MEDIUM',
+      recommendation: 'Consider optimizing images, reducing JavaScript execution time, and improving server response times for both platforms.'
+    });
+  }
+
+  // Page load time issues
+  if (auditData.loadTime > 5000) {
+    issues.push({
+      type: 'ERROR',
+      category: 'PERFORMANCE',
+      title: 'Slow Page Load Time',
+      description: `Page takes ${Math.round(auditData.loadTime)}ms to load, which is significantly slower than recommended.`,
+      impact: 'HIGH',
+      recommendation: 'Optimize server response time, compress assets, and consider using a CDN.'
+    });
+  } else if (auditData.loadTime > 3000) {
+    issues.push({
+      type: 'WARNING',
+      category: 'PERFORMANCE',
+      title: 'Page Load Time Could Be Improved',
+      description: `Page takes ${Math.round(auditData.loadTime)}ms to load. Aim for under 3 seconds.`,
+      impact: 'MEDIUM',
+      recommendation: 'Optimize images, minify resources, and reduce HTTP requests.'
+    });
+  }
+
+  // Core Web Vitals measured in the audit browser
+  if (auditData.webVitals) {
+    issues.push(...webVitalIssues(auditData.webVitals));
+  }
+
+  // Core Web Vitals issues from PageSpeed data
+  if (auditData.pageSpeedMetrics) {
+    const { desktop, mobile } = auditData.pageSpeedMetrics;
+
+    // Largest Contentful Paint issues
+    if (desktop?.largestContentfulPaint && desktop.largestContentfulPaint > 4000) {
+      issues.push({
+        type: 'ERROR',
+        category: 'PERFORMANCE',
+        title: 'Poor Largest Contentful Paint (Desktop)',
+        description: `LCP is ${Math.round(desktop.largestContentfulPaint)}ms on desktop. Good LCP is under 2.5 seconds.`,
+        impact: 'HIGH',
+        recommendation: 'Optimize server response times, remove render-blocking resources, and optimize the largest element.'
+      });
+    }
+
+    if (mobile?.largestContentfulPaint && mobile.largestContentfulPaint > 4000) {
+      issues.push({
+        type: 'ERROR',
+        category: 'PERFORMANCE',
+        title: 'Poor Largest Contentful Paint (Mobile)',
+        description: `LCP is ${Math.round(mobile.largestContentfulPaint)}ms on mobile. Good LCP is under 2.5 seconds.`,
+        impact: 'HIGH',
+        recommendation: 'Optimize for mobile: compress images, reduce JavaScript, and improve server response times.'
+      });
+    }
+
+    // Cumulative Layout Shift issues
+    if (desktop?.cumulativeLayoutShift && desktop.cumulativeLayoutShift > 0.25) {
+      issues.push({
+        type: 'WARNING',
+        category: 'PERFORMANCE',
+        title: 'High Cumulative Layout Shift (Desktop)',
+        description: `CLS score is ${desktop.cumulativeLayoutShift}, indicating visual instability.`,
+        impact: 'MEDIUM',
+        recommendation: 'Add size attributes to images and videos, avoid inserting content above existing content.'
+      });
+    }
+
+    if (mobile?.cumulativeLayoutShift && mobile.cumulativeLayoutShift > 0.25) {
+      issues.push({
+        type: 'WARNING',
+        category: 'PERFORMANCE',
+        title: 'High Cumulative Layout Shift (Mobile)',
+        description: `CLS score is ${mobile.cumulativeLayoutShift}, indicating visual instability on mobile.`,
+        impact: 'MEDIUM',
+        recommendation: 'Ensure mobile layouts are stable by reserving space for dynamic content.'
+      });
+    }
+  }
+
+  // SEO Issues
+  if (auditData.seoScore < 50) {
+    issues.push({
+      type: 'ERROR',
+      category: 'SEO',
+      title: 'Poor SEO Score',
+      description: `SEO score is ${auditData.seoScore}/100, which may significantly impact search rankings.`,
+      impact: 'HIGH',
+      recommendation: 'Review meta tags, heading structure, image alt text, and content quality.'
+    });
+  } else if (auditData.seoScore < 70) {
+    issues.push({
+      type: 'WARNING',
+      category: 'SEO',
+      title: 'SEO Score Needs Improvement',
+      description: `SEO score is ${auditData.seoScore}/100. There are opportunities for improvement.`,
+      impact: 'MEDIUM',
+      recommendation: 'Optimize meta descriptions, improve heading hierarchy, and add structured data.'
+    });
+  }
+
+  // Check SEO category details for specific issues
+  if (auditData.categoryDetails?.seo?.items) {
+    for (const item of auditData.categoryDetails.seo.items) {
+      if (item.status === 'FAIL' && !auditData.moduleItems?.has(item)) {
+        let impact: 'HIGH' | 'MEDIUM' | 'LOW' = 'MEDIUM';
+        let recommendation = 'Please review and fix this SEO issue.';
+
+        // Customize based on specific SEO issues
+        if (item.title.toLowerCase().includes('title')) {
+          impact = 'HIGH';
+          recommendation = 'Add a descriptive, unique title tag under 60 characters.';
+        } else if (item.title.toLowerCase().includes('description')) {
+          impact = 'HIGH';
+          recommendation = 'Add a compelling meta description between 150-160 characters.';
+        } else if (item.title.toLowerCase().includes('heading')) {
+          impact = 'MEDIUM';
+          recommendation = 'Ensure proper heading hierarchy with a single H1 tag.';
+        }
+
+        issues.push({
+          type: 'ERROR',
+          category: 'SEO',
+          title: item.title,
+          description: item.description,
+          impact,
+          recommendation
+        });
+      }
+    }
+  }
+
+  // Accessibility Issues
+  if (auditData.accessibilityScore < 50) {
+    issues.push({
+      type: 'ERROR',
+      category: 'ACCESSIBILITY',
+      title: 'Poor Accessibility Score',
+      description: `Accessibility score is ${auditData.accessibilityScore}/100, making the site difficult to use for people with disabilities.`,
+      impact: 'HIGH',
+      recommendation: 'Add alt text to images, ensure proper color contrast, and provide keyboard navigation.'
+    });
+  } else if (auditData.accessibilityScore < 80) {
+    issues.push({
+      type: 'WARNING',
+      category: 'ACCESSIBILITY',
+      title: 'Accessibility Could Be Improved',
+      description: `Accessibility score is ${auditData.accessibilityScore}/100. Consider improving for better inclusivity.`,
+      impact: 'MEDIUM',
+      recommendation: 'Review form labels, heading structure, and ensure all interactive elements are accessible.'
+    });
+  }
+
+  // Check accessibility category details for specific issues
+  if (auditData.categoryDetails?.accessibility?.items) {
+    for (const item of auditData.categoryDetails.accessibility.items) {
+      if (item.status === 'FAIL' && !auditData.moduleItems?.has(item)) {
+        let impact: 'HIGH' | 'MEDIUM' | 'LOW' = 'MEDIUM';
+        let recommendation = 'Please review and fix this accessibility issue.';
+
+        // Customize based on specific accessibility issues
+        if (item.title.toLowerCase().includes('alt')) {
+          impact = 'HIGH';
+          recommendation = 'Add descriptive alt text to all images for screen readers.';
+        } else if (item.title.toLowerCase().includes('label')) {
+          impact = 'HIGH';
+          recommendation = 'Ensure all form inputs have proper labels for screen readers.';
+        } else if (item.title.toLowerCase().includes('heading')) {
+          impact = 'MEDIUM';
+          recommendation = 'Use proper heading hierarchy (H1-H6) for screen reader navigation.';
+        }
+
+        issues.push({
+          type: 'ERROR',
+          category: 'ACCESSIBILITY',
+          title: item.title,
+          description: item.description,
+          impact,
+          recommendation
+        });
+      }
+    }
+  }
+
+  // Best Practices Issues
+  if (auditData.bestPracticesScore < 70) {
+    issues.push({
+      type: 'WARNING',
+      category: 'BEST_PRACTICES',
+      title: 'Best Practices Score Below Recommended',
+      description: `Best practices score is ${auditData.bestPracticesScore}/100. Following web standards is important for security and performance.`,
+      impact: 'MEDIUM',
+      recommendation: 'Ensure HTTPS usage, avoid deprecated APIs, and follow modern web development practices.'
+    });
+  }
+
+  // Check best practices category details for specific issues
+  if (auditData.categoryDetails?.bestPractices?.items) {
+    for (const item of auditData.categoryDetails.bestPractices.items) {
+      if (item.status === 'FAIL' && !auditData.moduleItems?.has(item)) {
+        issues.push({
+          type: 'WARNING',
+          category: 'BEST_PRACTICES',
+          title: item.title,
+          description: item.description,
+          impact: 'MEDIUM',
+          recommendation: 'Follow modern web development best practices for better security and performance.'
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function webVitalIssues(vitals: WebVitals): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+
+  if (vitals.largestContentfulPaint !== undefined && rateVital('largestContentfulPaint', vitals.largestContentfulPaint) !== 'PASS') {
+    const poor = rateVital('largestContentfulPaint', vitals.largestContentfulPaint) === 'FAIL';
+    issues.push({
+      type: poor ? 'ERROR' : 'WARNING',
+      category: 'PERFORMANCE',
+      title: poor ? 'Poor Largest Contentful Paint' : 'Largest Contentful Paint Needs Improvement',
+      description: `LCP measured at ${vitals.largestContentfulPaint}ms. Good LCP is under 2.5 seconds.`,
+      impact: poor ? 'HIGH' : 'MEDIUM',
+      element: vitals.lcpElement,
+      recommendation: 'Preload and compress the LCP element, serve it from the initial HTML and remove render-blocking resources ahead of it.'
+    });
+  }
+
+  if (rateVital('cumulativeLayoutShift', vitals.cumulativeLayoutShift) !== 'PASS') {
+    const poor = rateVital('cumulativeLayoutShift', vitals.cumulativeLayoutShift) === 'FAIL';
+    issues.push({
+      type: poor ? 'ERROR' : 'WARNING',
+      category: 'PERFORMANCE',
+      title: poor ? 'Poor Cumulative Layout Shift' : 'Cumulative Layout Shift Needs Improvement',
+      description: `CLS measured at ${vitals.cumulativeLayoutShift}. Good CLS is under 0.1.`,
+      impact: poor ? 'HIGH' : 'MEDIUM',
+      element: vitals.layoutShiftSources.map(s => s.element).join(', ') || undefined,
+      recommendation: 'Reserve space for the listed elements with width/height or aspect-ratio and avoid inserting content above existing content.'
+    });
+  }
+
+  if (vitals.interactionToNextPaint !== undefined && rateVital('interactionToNextPaint', vitals.interactionToNextPaint) !== 'PASS') {
+    const poor = rateVital('interactionToNextPaint', vitals.interactionToNextPaint) === 'FAIL';
+    issues.push({
+      type: poor ? 'ERROR' : 'WARNING',
+      category: 'PERFORMANCE',
+      title: poor ? 'Slow Interaction to Next Paint' : 'Interaction to Next Paint Needs Improvement',
+      description: `A scripted interaction took ${vitals.interactionToNextPaint}ms to paint. Good INP is under 200ms.`,
+      impact: poor ? 'HIGH' : 'MEDIUM',
+      recommendation: 'Break up long event handlers, defer non-urgent work and reduce main-thread JavaScript.'
+    });
+  }
+
+  if (vitals.timeToFirstByte !== undefined && rateVital('timeToFirstByte', vitals.timeToFirstByte) === 'FAIL') {
+    issues.push({
+      type: 'WARNING',
+      category: 'PERFORMANCE',
+      title: 'Slow Server Response',
+      description: `Time to first byte was ${vitals.timeToFirstByte}ms. Aim for under 800ms.`,
+      impact: 'MEDIUM',
+      recommendation: 'Cache rendered pages, use a CDN and reduce server-side work before the response starts.'
+    });
+  }
+
+  if (rateVital('totalBlockingTime', vitals.totalBlockingTime) !== 'PASS') {
+    issues.push({
+      type: 'WARNING',
+      category: 'PERFORMANCE',
+      title: 'Long Main-Thread Tasks',
+      description: `${vitals.longTasks} long task(s) blocked the main thread for ${vitals.totalBlockingTime}ms in total.`,
+      impact: rateVital('totalBlockingTime', vitals.totalBlockingTime) === 'FAIL' ? 'HIGH' : 'MEDIUM',
+      recommendation: 'Split long scripts, defer third-party code and move heavy work off the main thread.'
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JobScheduler, type SchedulableJob, type SchedulerOptions } from './jobScheduler.js';
+
+const MB = 1024 * 1024;
+
+// Runs jobs until the test finishes them, recording the start order
+function harness(options: Partial<SchedulerOptions> = {}) {
+  const started: string[] = [];
+  const finishers = new Map<string, () => void>();
+  const scheduler = new JobScheduler<SchedulableJob>(job => {
+    started.push(job.jobId);
+    return new Promise<void>(resolve => finishers.set(job.jobId, resolve));
+  }, { maxConcurrent: 1, memoryLimitMb: 100_000, jobMemoryMb: 100, agingMs: 60_000, retryIntervalMs: 1_000, ...options });
+
+  const finish = async (jobId: string) => {
+    finishers.get(jobId)!();
+    // Let the runJob promise chain settle and the next job start
+    await new Promise(resolve => setImmediate(resolve));
+  };
+  return { scheduler, started, finish };
+}
+
+describe('JobScheduler', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs higher priority first and keeps submission order within a priority', async () => {
+    const { scheduler, started, finish } = harness();
+    scheduler.enqueue({ jobId: 'running' });
+    scheduler.enqueue({ jobId: 'low', priority: 2 });
+    scheduler.enqueue({ jobId: 'normal-1' });
+    scheduler.enqueue({ jobId: 'urgent', priority: 9 });
+    scheduler.enqueue({ jobId: 'normal-2' });
+
+    expect(['urgent', 'normal-1', 'normal-2', 'low'].map(id => scheduler.positionOf(id))).toEqual([1, 2, 3, 4]);
+    expect(scheduler.positionOf('running')).toBeNull();
+
+    for (const id of ['running', 'urgent', 'normal-1', 'normal-2']) await finish(id);
+    expect(started).toEqual(['running', 'urgent', 'normal-1', 'normal-2', 'low']);
+  });
+
+  it('raises the priority of waiting jobs over time', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { scheduler } = harness({ agingMs: 1_000 });
+    scheduler.enqueue({ jobId: 'running' });
+    scheduler.enqueue({ jobId: 'old', priority: 3 });
+
+    vi.setSystemTime(Date.now() + 3_000);
+    scheduler.enqueue({ jobId: 'new', priority: 5 });
+
+    // 3 + 3 seconds of aging outranks a fresh 5
+    expect(scheduler.positionOf('old')).toBe(1);
+  });
+
+  it('prefers the tenant with fewer running jobs, then the one served least recently', async () => {
+    const { scheduler, started, finish } = harness({ maxConcurrent: 2 });
+    scheduler.enqueue({ jobId: 'a-1', tenantId: 'a' });
+    scheduler.enqueue({ jobId: 'a-2', tenantId: 'a' });
+    scheduler.enqueue({ jobId: 'a-3', tenantId: 'a' });
+    scheduler.enqueue({ jobId: 'b-1', tenantId: 'b' });
+    scheduler.enqueue({ jobId: 'c-1', tenantId: 'c' });
+
+    expect(started).toEqual(['a-1', 'a-2']);
+
+    // Tenant a still runs a-2, so b goes ahead of its backlog
+    await finish('a-1');
+    expect(started.at(-1)).toBe('b-1');
+
+    // Neither a nor c runs anything now, but a was served more recently
+    await finish('a-2');
+    expect(started.at(-1)).toBe('c-1');
+  });
+
+  it('removes queued jobs but not running ones', async () => {
+    const { scheduler, started, finish } = harness();
+    scheduler.enqueue({ jobId: 'running' });
+    scheduler.enqueue({ jobId: 'cancelled' });
+    scheduler.enqueue({ jobId: 'next' });
+
+    expect(scheduler.remove('cancelled')).toBe(true);
+    expect(scheduler.remove('cancelled')).toBe(false);
+    expect(scheduler.remove('running')).toBe(false);
+    expect(scheduler.positionOf('next')).toBe(1);
+
+    await finish('running');
+    expect(started).toEqual(['running', 'next']);
+  });
+
+  it('holds jobs while projected memory exceeds the limit and retries later', () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const memory = vi.spyOn(process, 'memoryUsage').mockReturnValue({ rss: 900 * MB } as NodeJS.MemoryUsage);
+    const { scheduler, started } = harness({ maxConcurrent: 3, memoryLimitMb: 1_000, jobMemoryMb: 200 });
+
+    // The first job is admitted even though it would exceed the limit
+    scheduler.enqueue({ jobId: 'first' });
+    scheduler.enqueue({ jobId: 'second' });
+    expect(started).toEqual(['first']);
+    expect(scheduler.queuedCount).toBe(1);
+
+    // 500 + 2 × 200 fits under 1000 MB
+    memory.mockReturnValue({ rss: 500 * MB } as NodeJS.MemoryUsage);
+    vi.advanceTimersByTime(1_000);
+    expect(started).toEqual(['first', 'second']);
+    expect(scheduler.activeCount).toBe(2);
+  });
+});
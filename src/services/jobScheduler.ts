@@ -0,0 +1,150 @@
+// services/jobScheduler.ts
+
+export interface SchedulableJob {
+  jobId: string;
+  /** 1–10, higher runs first. Defaults to 5. */
+  priority?: number;
+  /** Jobs are balanced across tenants; defaults to a shared "default" tenant. */
+  tenantId?: string;
+}
+
+export interface SchedulerOptions {
+  maxConcurrent: number;
+  /** Upper bound for this process plus the Chrome work of running jobs, in MB. */
+  memoryLimitMb: number;
+  /** Estimated Chrome memory one running job adds, in MB. */
+  jobMemoryMb: number;
+  /** Every `agingMs` spent waiting raises a job's effective priority by one. */
+  agingMs: number;
+  /** How often to re-check admission while memory is the limiting factor. */
+  retryIntervalMs?: number;
+}
+
+interface QueuedEntry<T> {
+  job: T;
+  seq: number;
+  enqueuedAt: number;
+}
+
+const DEFAULT_PRIORITY = 5;
+const DEFAULT_TENANT = 'default';
+
+/**
+ * Priority queue with per-tenant fairness and memory-aware admission.
+ *
+ * Ordering when a slot frees up:
+ *   1. effective priority (priority + aging), highest first
+ *   2. tenant with the fewest running jobs
+ *   3. tenant served least recently (round-robin between tenants)
+ *   4. submission order
+ *
+ * A job is only started when the projected memory (process RSS plus the
+ * per-job estimate for every running job) stays under the limit. The
+ * first job is always admitted so a tight limit cannot stall the queue.
+ */
+export class JobScheduler<T extends SchedulableJob> {
+  private readonly queue: Array<QueuedEntry<T>> = [];
+  private readonly running = new Map<string, T>();
+  private readonly tenantLastStarted = new Map<string, number>();
+  private seq = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly runJob: (job: T) => Promise<void>,
+    private readonly options: SchedulerOptions
+  ) {}
+
+  enqueue(job: T): void {
+    this.queue.push({ job, seq: this.seq++, enqueuedAt: Date.now() });
+    this.pump();
+  }
+
+  /** Drop a job that has not started yet. Returns false when it is not queued. */
+  remove(jobId: string): boolean {
+    const index = this.queue.findIndex(e => e.job.jobId === jobId);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    return true;
+  }
+
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  get activeCount(): number {
+    return this.running.size;
+  }
+
+  /** 1-based position in the current run order, or null when not queued. */
+  positionOf(jobId: string): number | null {
+    const index = this.ordered().findIndex(e => e.job.jobId === jobId);
+    return index === -1 ? null : index + 1;
+  }
+
+  private pump(): void {
+    while (this.running.size < this.options.maxConcurrent && this.queue.length) {
+      if (!this.hasMemoryHeadroom()) {
+        this.scheduleRetry();
+        return;
+      }
+
+      const next = this.ordered()[0];
+      this.queue.splice(this.queue.indexOf(next), 1);
+
+      const tenant = this.tenantOf(next.job);
+      this.running.set(next.job.jobId, next.job);
+      this.tenantLastStarted.set(tenant, Date.now());
+      console.log(`[scheduler] starting ${next.job.jobId} (tenant ${tenant}, priority ${next.job.priority ?? DEFAULT_PRIORITY}, waited ${Date.now() - next.enqueuedAt}ms) – ${this.running.size}/${this.options.maxConcurrent} active, ${this.queue.length} queued`);
+
+      this.runJob(next.job)
+        .catch(err => console.error(`[scheduler] job ${next.job.jobId} threw:`, (err as Error).message))
+        .finally(() => {
+          this.running.delete(next.job.jobId);
+          this.pump();
+        });
+    }
+  }
+
+  private ordered(): Array<QueuedEntry<T>> {
+    const now = Date.now();
+    const runningPerTenant = new Map<string, number>();
+    for (const job of this.running.values()) {
+      const tenant = this.tenantOf(job);
+      runningPerTenant.set(tenant, (runningPerTenant.get(tenant) || 0) + 1);
+    }
+
+    const effectivePriority = (e: QueuedEntry<T>) =>
+      (e.job.priority ?? DEFAULT_PRIORITY) + Math.floor((now - e.enqueuedAt) / this.options.agingMs);
+
+    return [...this.queue].sort((a, b) =>
+      effectivePriority(b) - effectivePriority(a) ||
+      (runningPerTenant.get(this.tenantOf(a.job)) || 0) - (runningPerTenant.get(this.tenantOf(b.job)) || 0) ||
+      (this.tenantLastStarted.get(this.tenantOf(a.job)) || 0) - (this.tenantLastStarted.get(this.tenantOf(b.job)) || 0) ||
+      a.seq - b.seq
+    );
+  }
+
+  private hasMemoryHeadroom(): boolean {
+    if (this.running.size === 0) return true;
+
+    const rssMb = process.memoryUsage().rss / 1024 / 1024;
+    const projectedMb = rssMb + (this.running.size + 1) * this.options.jobMemoryMb;
+    if (projectedMb <= this.options.memoryLimitMb) return true;
+
+    console.warn(`[scheduler] holding ${this.queue.length} job(s): projected ${Math.round(projectedMb)}MB exceeds ${this.options.memoryLimitMb}MB (rss ${Math.round(rssMb)}MB, ${this.running.size} running)`);
+    return false;
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.pump();
+    }, this.options.retryIntervalMs ?? 5_000);
+    this.retryTimer.unref();
+  }
+
+  private tenantOf(job: T): string {
+    return job.tenantId || DEFAULT_TENANT;
+  }
+}
@@ -0,0 +1,93 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuditResult } from '../types/audit.js';
+import { FileJobStore } from './jobStore.js';
+
+const HOUR = 60 * 60 * 1000;
+const JOB_ID = '0b5d6c1e-8f3a-4c2b-9d7e-1a2b3c4d5e6f';
+
+const result: AuditResult = {
+  jobId: JOB_ID,
+  status: 'COMPLETED',
+  results: {
+    performanceScore: 90,
+    seoScore: 80,
+    accessibilityScore: 70,
+    bestPracticesScore: 60,
+    issues: [],
+    pagesCrawled: 1,
+    screenshot: Buffer.alloc(2048, 1).toString('base64'),
+  },
+};
+
+describe('FileJobStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'jobstore-'));
+    file = path.join(dir, 'jobs.jsonl');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  async function reopen(retentionMs = HOUR): Promise<FileJobStore> {
+    const store = new FileJobStore(file, retentionMs);
+    await store.load();
+    return store;
+  }
+
+  it('replays requests, status changes and results after a restart', async () => {
+    const store = await reopen();
+    await store.saveRequest({ jobId: JOB_ID, websiteUrl: 'https://example.com/' });
+    await store.updateStatus(JOB_ID, 'PROCESSING');
+    await store.saveResult({ ...result, results: { ...result.results!, screenshot: undefined } });
+
+    const job = await (await reopen()).get(JOB_ID);
+    expect(job).toMatchObject({ status: 'COMPLETED', attempts: 1, request: { websiteUrl: 'https://example.com/' } });
+    expect(job?.result?.results?.seoScore).toBe(80);
+  });
+
+  it('keeps screenshots out of the log and restores them on read', async () => {
+    const store = await reopen();
+    await store.saveRequest({ jobId: JOB_ID, websiteUrl: 'https://example.com/' });
+    await store.saveResult(result);
+
+    const log = await fs.promises.readFile(file, 'utf8');
+    expect(log).not.toContain(result.results!.screenshot);
+    expect(fs.existsSync(path.join(dir, 'artifacts', JOB_ID, 'screenshot.png.base64'))).toBe(true);
+
+    expect((await store.get(JOB_ID))?.result?.results?.screenshot).toBe(result.results!.screenshot);
+    expect((await (await reopen()).get(JOB_ID))?.result?.results?.screenshot).toBe(result.results!.screenshot);
+  });
+
+  it('drops expired jobs with their artifacts and compacts the log on load', async () => {
+    const store = await reopen();
+    await store.saveRequest({ jobId: JOB_ID, websiteUrl: 'https://example.com/' });
+    await store.saveResult(result);
+    await store.saveArtifact(JOB_ID, 'audit.har', '{}');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 2 * HOUR);
+    const reopened = await reopen();
+
+    expect(await reopened.get(JOB_ID)).toBeNull();
+    expect(await reopened.getArtifact(JOB_ID, 'audit.har')).toBeNull();
+    expect(await fs.promises.readFile(file, 'utf8')).toBe('');
+  });
+
+  it('skips a torn final line', async () => {
+    const store = await reopen();
+    await store.saveRequest({ jobId: JOB_ID, websiteUrl: 'https://example.com/' });
+    await fs.promises.appendFile(file, '{"op":"status","jobId"');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect((await (await reopen()).get(JOB_ID))?.status).toBe('QUEUED');
+  });
+});
@@ -0,0 +1,303 @@
+// services/jobStore.ts
+import fs from 'node:fs';
+import path from 'node:path';
+import { config } from '../config/index.js';
+import type { AuditResult } from '../types/audit.js';
+import type { AuditRequest } from './auditService.js';
+
+export type JobStatus = 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface JobRecord {
+  jobId: string;
+  request: AuditRequest;
+  status: JobStatus;
+  result?: AuditResult;
+  error?: string;
+  attempts: number;
+  // Artifact holding `result.results.screenshot`, which the file store keeps out of its log
+  screenshotArtifact?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Persistence for audit jobs. Implementations must survive a process restart
+ * so queued and completed audits are not lost on deploy or crash.
+ */
+export interface JobStore {
+  /** Load every known job. Called once at startup before any writes. */
+  load(): Promise<JobRecord[]>;
+  saveRequest(request: AuditRequest): Promise<void>;
+  updateStatus(jobId: string, status: JobStatus): Promise<void>;
+  saveResult(result: AuditResult): Promise<void>;
+  get(jobId: string): Promise<JobRecord | null>;
+  /** Store a large per-job file (e.g. the HAR) outside the job record; replaces any earlier one. */
+  saveArtifact(jobId: string, name: string, content: string): Promise<void>;
+  getArtifact(jobId: string, name: string): Promise<string | null>;
+}
+
+type JobEvent =
+  | { op: 'request'; at: string; request: AuditRequest }
+  | { op: 'status'; at: string; jobId: string; status: JobStatus }
+  | { op: 'result'; at: string; result: AuditResult; screenshot?: string }
+  | { op: 'snapshot'; at: string; record: JobRecord };
+
+const TERMINAL: JobStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+const SCREENSHOT_ARTIFACT = 'screenshot.png.base64';
+// How often finished jobs past their retention are dropped while running
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// --- In-memory store ---------------------------------------------------------
+
+export class MemoryJobStore implements JobStore {
+  protected jobs = new Map<string, JobRecord>();
+  private artifacts = new Map<string, string>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(protected readonly retentionMs: number) {}
+
+  async load(): Promise<JobRecord[]> {
+    this.startSweeping();
+    return Array.from(this.jobs.values());
+  }
+
+  async saveRequest(request: AuditRequest): Promise<void> {
+    this.apply({ op: 'request', at: new Date().toISOString(), request });
+  }
+
+  async updateStatus(jobId: string, status: JobStatus): Promise<void> {
+    this.apply({ op: 'status', at: new Date().toISOString(), jobId, status });
+  }
+
+  async saveResult(result: AuditResult): Promise<void> {
+    this.apply({ op: 'result', at: new Date().toISOString(), result });
+  }
+
+  async get(jobId: string): Promise<JobRecord | null> {
+    return this.jobs.get(jobId) || null;
+  }
+
+  async saveArtifact(jobId: string, name: string, content: string): Promise<void> {
+    this.artifacts.set(`${jobId}/${name}`, content);
+  }
+
+  async getArtifact(jobId: string, name: string): Promise<string | null> {
+    return this.artifacts.get(`${jobId}/${name}`) ?? null;
+  }
+
+  protected async removeArtifacts(jobId: string): Promise<void> {
+    for (const key of this.artifacts.keys()) {
+      if (key.startsWith(`${jobId}/`)) this.artifacts.delete(key);
+    }
+  }
+
+  /** Drop terminal jobs last updated before the retention window, with their artifacts. */
+  protected async expire(): Promise<number> {
+    const cutoff = Date.now() - this.retentionMs;
+    let dropped = 0;
+    for (const [jobId, job] of this.jobs) {
+      if (TERMINAL.includes(job.status) && Date.parse(job.updatedAt) < cutoff) {
+        this.jobs.delete(jobId);
+        await this.removeArtifacts(jobId);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  protected async sweep(): Promise<void> {
+    const dropped = await this.expire();
+    if (dropped) console.log(`[jobstore] dropped ${dropped} expired job(s)`);
+  }
+
+  protected startSweeping(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(err => console.error('[jobstore] sweep failed:', (err as Error).message));
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  protected apply(event: JobEvent): void {
+    switch (event.op) {
+      case 'request': {
+        this.jobs.set(event.request.jobId, {
+          jobId: event.request.jobId,
+          request: event.request,
+          status: 'QUEUED',
+          attempts: 0,
+          createdAt: event.at,
+          updatedAt: event.at,
+        });
+        break;
+      }
+      case 'status': {
+        const job = this.jobs.get(event.jobId);
+        if (!job) return;
+        if (event.status === 'PROCESSING') job.attempts++;
+        job.status = event.status;
+        job.updatedAt = event.at;
+        break;
+      }
+      case 'result': {
+        const job = this.jobs.get(event.result.jobId);
+        if (!job) return;
+        job.status = event.result.status;
+        job.result = event.result;
+        job.error = event.result.error;
+        job.screenshotArtifact = event.screenshot;
+        job.updatedAt = event.at;
+        break;
+      }
+      case 'snapshot': {
+        this.jobs.set(event.record.jobId, event.record);
+        break;
+      }
+    }
+  }
+}
+
+// --- File-backed (JSON lines) store -----------------------------------------
+
+/**
+ * Append-only JSON-lines log of job events. On load, and hourly after that,
+ * expired terminal jobs are dropped and the file is compacted to one
+ * snapshot line per remaining job. Artifacts live in an `artifacts/<jobId>/`
+ * directory next to the log and expire with their job. Result screenshots
+ * are stored as artifacts too and put back into the result by `get`.
+ */
+export class FileJobStore extends MemoryJobStore {
+  private writeChain: Promise<void> = Promise.resolve();
+  private readonly artifactDir: string;
+
+  constructor(
+    private readonly filePath: string,
+    retentionMs: number
+  ) {
+    super(retentionMs);
+    this.artifactDir = path.join(path.dirname(filePath), 'artifacts');
+  }
+
+  async load(): Promise<JobRecord[]> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let raw = '';
+    try {
+      raw = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+    }
+
+    let skipped = 0;
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        this.apply(JSON.parse(line) as JobEvent);
+      } catch {
+        // A torn final line after a crash is expected; anything else is logged
+        skipped++;
+      }
+    }
+    if (skipped) console.warn(`[jobstore] skipped ${skipped} unreadable line(s) in ${this.filePath}`);
+
+    await this.expire();
+    await this.compact();
+    this.startSweeping();
+    console.log(`[jobstore] loaded ${this.jobs.size} job(s) from ${this.filePath}`);
+    return Array.from(this.jobs.values());
+  }
+
+  async saveRequest(request: AuditRequest): Promise<void> {
+    await this.record({ op: 'request', at: new Date().toISOString(), request });
+  }
+
+  async updateStatus(jobId: string, status: JobStatus): Promise<void> {
+    await this.record({ op: 'status', at: new Date().toISOString(), jobId, status });
+  }
+
+  async saveResult(result: AuditResult): Promise<void> {
+    const screenshot = result.results?.screenshot;
+    if (!screenshot) {
+      await this.record({ op: 'result', at: new Date().toISOString(), result });
+      return;
+    }
+    // A screenshot is most of a result's size; the log only references it
+    await this.saveArtifact(result.jobId, SCREENSHOT_ARTIFACT, screenshot);
+    await this.record({
+      op: 'result',
+      at: new Date().toISOString(),
+      result: { ...result, results: { ...result.results!, screenshot: undefined } },
+      screenshot: SCREENSHOT_ARTIFACT,
+    });
+  }
+
+  async get(jobId: string): Promise<JobRecord | null> {
+    const job = await super.get(jobId);
+    if (!job?.screenshotArtifact || !job.result?.results) return job;
+    const screenshot = await this.getArtifact(jobId, job.screenshotArtifact);
+    return screenshot ? { ...job, result: { ...job.result, results: { ...job.result.results, screenshot } } } : job;
+  }
+
+  async saveArtifact(jobId: string, name: string, content: string): Promise<void> {
+    const dir = path.join(this.artifactDir, jobId);
+    await fs.promises.mkdir(dir, { recursive: true });
+    // Write-then-rename so a download never sees a half-written file
+    const tmp = path.join(dir, `${name}.tmp`);
+    await fs.promises.writeFile(tmp, content);
+    await fs.promises.rename(tmp, path.join(dir, name));
+  }
+
+  async getArtifact(jobId: string, name: string): Promise<string | null> {
+    try {
+      return await fs.promises.readFile(path.join(this.artifactDir, jobId, name), 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  protected async removeArtifacts(jobId: string): Promise<void> {
+    await fs.promises.rm(path.join(this.artifactDir, jobId), { recursive: true, force: true });
+  }
+
+  protected async sweep(): Promise<void> {
+    const dropped = await this.expire();
+    if (!dropped) return;
+    await this.compact();
+    console.log(`[jobstore] dropped ${dropped} expired job(s)`);
+  }
+
+  private record(event: JobEvent): Promise<void> {
+    this.apply(event);
+    return this.enqueueWrite(() => fs.promises.appendFile(this.filePath, JSON.stringify(event) + '\n'));
+  }
+
+  private async compact(): Promise<void> {
+    const at = new Date().toISOString();
+    const lines = Array.from(this.jobs.values())
+      .map(record => JSON.stringify({ op: 'snapshot', at, record } satisfies JobEvent) + '\n')
+      .join('');
+
+    await this.enqueueWrite(async () => {
+      const tmp = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tmp, lines);
+      await fs.promises.rename(tmp, this.filePath);
+    });
+  }
+
+  // Serialize writes so events land in the file in the order they happened
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(write);
+    this.writeChain = next.catch(err => console.error('[jobstore] write failed:', (err as Error).message));
+    return next;
+  }
+}
+
+export function createJobStore(): JobStore {
+  const retentionMs = config.jobStore.retentionHours * 60 * 60 * 1000;
+  if (config.jobStore.driver === 'memory') {
+    console.warn('[jobstore] using in-memory job store – jobs will not survive a restart');
+    return new MemoryJobStore(retentionMs);
+  }
+  return new FileJobStore(config.jobStore.path, retentionMs);
+}
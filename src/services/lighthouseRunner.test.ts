@@ -0,0 +1,91 @@
+import type { Result } from 'lighthouse';
+import { describe, expect, it } from 'vitest';
+import { extractLighthouseMetrics, extractOpportunities } from './lighthouseRunner.js';
+
+describe('extractLighthouseMetrics', () => {
+  it('rounds lab metrics and scales the performance score', () => {
+    const lhr = {
+      categories: { performance: { score: 0.876 } },
+      audits: {
+        'first-contentful-paint': { numericValue: 1234.56 },
+        'largest-contentful-paint': { numericValue: 2500.4 },
+        'cumulative-layout-shift': { numericValue: 0.12345 },
+        'speed-index': { numericValue: 3000.7 },
+        'total-blocking-time': { numericValue: 150.2 },
+      },
+    } as unknown as Pick<Result, 'categories' | 'audits'>;
+
+    expect(extractLighthouseMetrics(lhr)).toMatchObject({
+      performanceScore: 88,
+      firstContentfulPaint: 1235,
+      largestContentfulPaint: 2500,
+      cumulativeLayoutShift: 0.123,
+      speedIndex: 3001,
+      totalBlockingTime: 150,
+    });
+  });
+
+  it('reports zeros for missing audits', () => {
+    expect(extractLighthouseMetrics({ categories: {}, audits: {} } as Pick<Result, 'categories' | 'audits'>))
+      .toMatchObject({ performanceScore: 0, largestContentfulPaint: 0, cumulativeLayoutShift: 0 });
+  });
+});
+
+describe('extractOpportunities', () => {
+  const audits = (entries: Record<string, object>) => ({ audits: entries } as unknown as Pick<Result, 'audits'>);
+
+  it('turns failing opportunities into issues ranked by savings', () => {
+    const issues = extractOpportunities(audits({
+      'unused-javascript': {
+        title: 'Reduce unused JavaScript',
+        description: 'Reduce unused JavaScript. [Learn how to reduce unused JavaScript](https://developer.chrome.com/docs/lighthouse/performance/unused-javascript/).',
+        score: 0.3,
+        scoreDisplayMode: 'metricSavings',
+        details: {
+          type: 'opportunity',
+          overallSavingsMs: 1200,
+          items: [{ url: 'https://example.com/app.js', wastedBytes: 300 * 1024 }, { url: 'https://example.com/app.js' }, { url: 'data:x' }],
+        },
+      },
+      'modern-image-formats': {
+        title: 'Serve images in modern formats',
+        description: 'Use WebP or AVIF.',
+        score: 0.5,
+        scoreDisplayMode: 'metricSavings',
+        details: { type: 'opportunity', overallSavingsMs: 150, overallSavingsBytes: 40 * 1024, items: [] },
+      },
+      'render-blocking-resources': {
+        title: 'Eliminate render-blocking resources',
+        description: 'Passing.',
+        score: 1,
+        details: { type: 'opportunity', overallSavingsMs: 0, items: [] },
+      },
+    }));
+
+    expect(issues.map(i => i.title)).toEqual(['Reduce unused JavaScript', 'Serve images in modern formats']);
+    expect(issues[0]).toMatchObject({
+      type: 'WARNING',
+      impact: 'HIGH',
+      savings: { ms: 1200, bytes: 300 * 1024 },
+      urls: ['https://example.com/app.js'],
+      recommendation: 'Reduce unused JavaScript.',
+      helpUrl: 'https://developer.chrome.com/docs/lighthouse/performance/unused-javascript/',
+    });
+    expect(issues[1]).toMatchObject({ type: 'INFO', impact: 'LOW', savings: { ms: 150, bytes: 40 * 1024 } });
+  });
+
+  it('keeps diagnostics without savings out of the opportunities table', () => {
+    const [issue] = extractOpportunities(audits({
+      'uses-long-cache-ttl': {
+        title: 'Serve static assets with an efficient cache policy',
+        description: 'A long cache lifetime can speed up repeat visits.',
+        displayValue: '12 resources found',
+        score: 0.5,
+        scoreDisplayMode: 'metricSavings',
+        details: { type: 'table', items: [] },
+      },
+    }));
+    expect(issue.savings).toBeUndefined();
+    expect(issue.description).toBe('12 resources found.');
+  });
+});
@@ -0,0 +1,180 @@
+// services/lighthouseRunner.ts
+import lighthouse, { type Config, type Flags, type Result } from 'lighthouse';
+import type { Browser, Page } from 'puppeteer';
+import { config } from '../config/index.js';
+import type { AuditIssue } from '../types/audit.js';
+import { guardPageRequests } from './urlSafety.js';
+
+export type FormFactor = 'desktop' | 'mobile';
+
+export interface LighthouseMetrics {
+  performanceScore: number;
+  firstContentfulPaint: number;
+  largestContentfulPaint: number;
+  cumulativeLayoutShift: number;
+  speedIndex: number;
+  totalBlockingTime: number;
+}
+
+/**
+ * Pull the performance score and lab metrics out of a Lighthouse result.
+ * Used for both local runs and the `lighthouseResult` embedded in PSI responses.
+ */
+export function extractLighthouseMetrics(lhr: Pick<Result, 'categories' | 'audits'>): LighthouseMetrics {
+  const audits = lhr.audits;
+  const numeric = (id: string) => audits?.[id]?.numericValue || 0;
+
+  return {
+    performanceScore: Math.round((lhr.categories?.performance?.score || 0) * 100),
+    firstContentfulPaint: Math.round(numeric('first-contentful-paint')),
+    largestContentfulPaint: Math.round(numeric('largest-contentful-paint')),
+    cumulativeLayoutShift: Math.round(numeric('cumulative-layout-shift') * 1000) / 1000,
+    speedIndex: Math.round(numeric('speed-index')),
+    totalBlockingTime: Math.round(numeric('total-blocking-time')),
+  };
+}
+
+const MAX_OPPORTUNITY_URLS = 10;
+
+type LighthouseAudit = Result['audits'][string];
+
+function opportunitySavings(audit: LighthouseAudit): { ms?: number; bytes?: number } {
+  const details = audit.details as { overallSavingsMs?: number; overallSavingsBytes?: number; items?: Array<Record<string, unknown>> } | undefined;
+  // Lighthouse 12 reports per-metric savings; older ones only overallSavingsMs
+  const metricMs = Math.max(0, ...Object.values(audit.metricSavings ?? {}).map(v => Number(v) || 0));
+  const ms = Math.round(details?.overallSavingsMs || metricMs);
+  const itemBytes = (details?.items ?? []).reduce((sum, item) => sum + (Number(item.wastedBytes) || 0), 0);
+  const bytes = Math.round(details?.overallSavingsBytes || itemBytes);
+  return { ...(ms > 0 && { ms }), ...(bytes > 0 && { bytes }) };
+}
+
+function opportunityUrls(audit: LighthouseAudit): string[] {
+  const items = (audit.details as { items?: Array<Record<string, any>> } | undefined)?.items ?? [];
+  const urls = items
+    .map(item => item.url ?? item.source?.url ?? item.entity?.url)
+    .filter((url): url is string => typeof url === 'string' && /^https?:/.test(url));
+  return Array.from(new Set(urls)).slice(0, MAX_OPPORTUNITY_URLS);
+}
+
+function formatSavings({ ms, bytes }: { ms?: number; bytes?: number }): string {
+  const parts: string[] = [];
+  if (ms) parts.push(ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${ms} ms`);
+  if (bytes) parts.push(bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MiB` : `${Math.round(bytes / 1024)} KiB`);
+  return parts.join(', ');
+}
+
+/**
+ * Turn failing Lighthouse opportunities and diagnostics (unused JS/CSS, image
+ * formats, render-blocking resources, cache TTL, ...) into performance issues
+ * with estimated savings and the resources responsible, ranked by savings.
+ */
+export function extractOpportunities(lhr: Pick<Result, 'audits'>): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+
+  for (const audit of Object.values(lhr.audits ?? {})) {
+    const type = audit.details?.type;
+    if (type !== 'opportunity' && type !== 'table') continue;
+    // Lighthouse itself treats anything below 0.9 as failing
+    if (audit.score === null || audit.score >= 0.9) continue;
+    if (audit.scoreDisplayMode === 'informative' || audit.scoreDisplayMode === 'notApplicable') continue;
+
+    const savings = opportunitySavings(audit);
+    const urls = opportunityUrls(audit);
+    const ms = savings.ms ?? 0;
+    const bytes = savings.bytes ?? 0;
+    const impact: AuditIssue['impact'] = ms >= 1000 || bytes >= 500 * 1024 ? 'HIGH'
+      : ms >= 300 || bytes >= 100 * 1024 ? 'MEDIUM' : 'LOW';
+
+    // Descriptions end with a markdown "[Learn more](url)" link
+    const learnMore = /\[([^\]]+)\]\((https?:[^)]+)\)/.exec(audit.description ?? '');
+    const recommendation = (audit.description ?? '')
+      .replace(/\s*\[[^\]]+\]\([^)]+\)\.?\s*$/, '')
+      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+      .trim();
+    const estimate = formatSavings(savings);
+
+    issues.push({
+      type: impact === 'LOW' ? 'INFO' : 'WARNING',
+      category: 'PERFORMANCE',
+      title: audit.title,
+      description: [
+        estimate && `Estimated savings: ${estimate}.`,
+        !estimate && audit.displayValue ? `${audit.displayValue}.` : '',
+        urls.length ? `${urls.length} resource${urls.length === 1 ? '' : 's'} affected.` : '',
+      ].filter(Boolean).join(' ') || audit.title,
+      impact,
+      recommendation,
+      helpUrl: learnMore?.[2],
+      // Diagnostics without an estimate belong in the issue list, not the opportunities table
+      ...((ms || bytes) && { savings }),
+      urls,
+    });
+  }
+
+  return issues.sort((a, b) =>
+    (b.savings?.ms ?? 0) - (a.savings?.ms ?? 0) || (b.savings?.bytes ?? 0) - (a.savings?.bytes ?? 0)
+  );
+}
+
+/**
+ * Runs Lighthouse locally against the shared Puppeteer browser using the
+ * `config.lighthouse` settings, so performance data does not depend on PSI.
+ */
+export class LighthouseRunner {
+  async run(browser: Browser, url: string, formFactor: FormFactor, timeoutMs: number): Promise<{ metrics: LighthouseMetrics; lhr: Result } | null> {
+    // Isolated context so Lighthouse's storage reset and emulation don't leak into the audit page
+    const context = await browser.createBrowserContext();
+    let page: Page | null = null;
+
+    try {
+      page = await context.newPage();
+      // Lighthouse drives this page itself; its redirects and subresources need the same checks as the audit's
+      await guardPageRequests(page, { tag: 'lighthouse' });
+      console.log(`[lighthouse] ${formFactor} run → ${url}`);
+      const started = Date.now();
+
+      const watchdog = new Promise<never>((_, rej) =>
+        setTimeout(() => rej(new Error(`Lighthouse ${formFactor} watchdog timeout`)), timeoutMs)
+      );
+      const runnerResult = await Promise.race([
+        lighthouse(url, this.buildFlags(), this.buildConfig(formFactor), page),
+        watchdog,
+      ]);
+
+      const lhr = runnerResult?.lhr;
+      if (!lhr) {
+        console.error(`[lighthouse] ${formFactor} run returned no result`);
+        return null;
+      }
+      if (lhr.runtimeError) {
+        console.error(`[lighthouse] ${formFactor} runtime error:`, lhr.runtimeError.code, lhr.runtimeError.message);
+        return null;
+      }
+
+      const metrics = extractLighthouseMetrics(lhr);
+      console.log(`[lighthouse] ${formFactor} done in ${Date.now() - started}ms:`, metrics);
+      return { metrics, lhr };
+    } catch (error) {
+      console.error(`[lighthouse] ${formFactor} run failed:`, (error as Error).message);
+      return null;
+    } finally {
+      try { await page?.close({ runBeforeUnload: false }); } catch { /* ignore */ }
+      try { await context.close(); } catch { /* ignore */ }
+    }
+  }
+
+  private buildFlags(): Flags {
+    return { output: 'json', logLevel: 'error' };
+  }
+
+  private buildConfig(formFactor: FormFactor): Config {
+    const settings = formFactor === 'mobile' ? config.lighthouse.mobileSettings : config.lighthouse.settings;
+    return {
+      extends: config.lighthouse.config.extends,
+      settings: {
+        ...settings,
+        onlyAudits: [...config.lighthouse.config.settings.onlyAudits],
+      },
+    } as Config;
+  }
+}
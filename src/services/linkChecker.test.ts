@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { brokenLinkIssues, resourceFailureIssues, type LinkResult } from './linkChecker.js';
+
+describe('resourceFailureIssues', () => {
+  it('labels failures by resource type and shortens same-origin URLs', () => {
+    const issues = resourceFailureIssues([
+      { url: 'https://example.com/js/app.js', resourceType: 'script', status: 404, element: '<script src="/js/app.js">' },
+      { url: 'https://cdn.example.net/img/hero.png', resourceType: 'image', error: 'net::ERR_NAME_NOT_RESOLVED' },
+    ], 'https://example.com/');
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        type: 'ERROR',
+        category: 'BEST_PRACTICES',
+        title: 'Broken Script: /js/app.js',
+        description: 'https://example.com/js/app.js returned HTTP 404.',
+        impact: 'HIGH',
+        element: '<script src="/js/app.js">',
+      }),
+      expect.objectContaining({
+        type: 'WARNING',
+        title: 'Broken Image: cdn.example.net/img/hero.png',
+        description: 'https://cdn.example.net/img/hero.png failed to load (net::ERR_NAME_NOT_RESOLVED).',
+        impact: 'MEDIUM',
+      }),
+    ]);
+  });
+
+  it('caps the issues per resource kind', () => {
+    const failures = Array.from({ length: 30 }, (_, i) => ({ url: `https://example.com/${i}.png`, resourceType: 'image', status: 404 }));
+    expect(resourceFailureIssues(failures, 'https://example.com/')).toHaveLength(25);
+  });
+});
+
+describe('brokenLinkIssues', () => {
+  it('puts internal links first and rates them higher than external ones', () => {
+    const broken: LinkResult[] = [
+      { url: 'https://other.example/gone', sameOrigin: false, status: 410, element: '<a href="https://other.example/gone">' },
+      { url: 'https://example.com/old-page', sameOrigin: true, status: 404, element: '<a href="/old-page">' },
+    ];
+    expect(brokenLinkIssues(broken).map(i => [i.title, i.type, i.impact, i.category])).toEqual([
+      ['Broken Internal Link: /old-page', 'ERROR', 'MEDIUM', 'SEO'],
+      ['Broken External Link: other.example/gone', 'WARNING', 'LOW', 'SEO'],
+    ]);
+  });
+});
@@ -0,0 +1,273 @@
+// services/linkChecker.ts
+import type { HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+import type { AuditIssue } from '../types/audit.js';
+import { normalizeCrawlUrl } from './crawler.js';
+import { UnsafeUrlError, safeFetch } from './urlSafety.js';
+
+export interface ResourceFailure {
+  url: string;
+  resourceType: string;
+  status?: number;
+  error?: string;
+  element?: string;
+}
+
+export interface LinkResult {
+  url: string;
+  sameOrigin: boolean;
+  status?: number;
+  error?: string;
+  element: string;
+}
+
+export interface LinkCheckOptions {
+  maxLinks: number;
+  concurrency: number;
+  timeoutMs: number;
+  /** Time allowed for the whole pass; links not started by then are skipped */
+  budgetMs: number;
+  userAgent?: string;
+  /** Aborts in-flight requests and stops the pass (job cancelled) */
+  signal?: AbortSignal;
+}
+
+// Request types whose failure visibly breaks the page; XHR/fetch 4xx are often by design
+const TRACKED_TYPES = new Set(['image', 'script', 'stylesheet', 'font', 'media', 'document']);
+
+// Our own interception (SSRF guard, tracker blocking) and cancelled requests are not breakage
+const IGNORED_ERRORS = new Set(['net::ERR_BLOCKED_BY_CLIENT', 'net::ERR_ABORTED']);
+
+// Not necessarily broken: the server refuses bots or wants credentials
+const INCONCLUSIVE_STATUS = new Set([401, 403, 429]);
+
+const MAX_ISSUES_PER_KIND = 25;
+
+/**
+ * Start recording failed and 4xx/5xx subresources on the page. Call before
+ * navigating; `stop()` detaches the listeners and returns what was seen.
+ */
+export function trackResourceFailures(page: Page): { stop(): ResourceFailure[] } {
+  const failures = new Map<string, ResourceFailure>();
+  const isTracked = (request: HTTPRequest) =>
+    TRACKED_TYPES.has(request.resourceType()) &&
+    // The page's own navigation is reported by the audit itself
+    !(request.isNavigationRequest() && request.frame() === page.mainFrame());
+
+  const onFailed = (request: HTTPRequest) => {
+    const error = request.failure()?.errorText;
+    if (!isTracked(request) || !error || IGNORED_ERRORS.has(error)) return;
+    failures.set(request.url(), { url: request.url(), resourceType: request.resourceType(), error });
+  };
+  const onResponse = (response: HTTPResponse) => {
+    if (response.status() < 400 || !isTracked(response.request())) return;
+    failures.set(response.url(), { url: response.url(), resourceType: response.request().resourceType(), status: response.status() });
+  };
+
+  page.on('requestfailed', onFailed);
+  page.on('response', onResponse);
+
+  return {
+    stop() {
+      page.off('requestfailed', onFailed);
+      page.off('response', onResponse);
+      return Array.from(failures.values());
+    },
+  };
+}
+
+/** Attach the referencing element's tag (without children) to each failure. */
+export async function locateFailedResources(page: Page, failures: ResourceFailure[]): Promise<ResourceFailure[]> {
+  if (failures.length === 0) return failures;
+
+  const elements = await page.evaluate((urls: string[]) => {
+    const found: Record<string, string> = {};
+    const candidates = document.querySelectorAll('img, script[src], link[href], source, video, audio, iframe, embed, object');
+    for (const el of Array.from(candidates)) {
+      const refs = [
+        (el as any).currentSrc, (el as any).src, (el as any).href, (el as any).data,
+        ...String(el.getAttribute('srcset') || '').split(',').map(s => {
+          try { return new URL(s.trim().split(/\s+/)[0], document.baseURI).href; } catch { return ''; }
+        }),
+      ];
+      for (const url of urls) {
+        if (!found[url] && refs.includes(url)) {
+          found[url] = (el.cloneNode(false) as Element).outerHTML.slice(0, 300);
+        }
+      }
+    }
+    return found;
+  }, failures.map(f => f.url)).catch(() => ({} as Record<string, string>));
+
+  return failures.map(f => ({ ...f, element: elements[f.url] }));
+}
+
+async function checkUrl(url: string, options: LinkCheckOptions, stop: AbortSignal): Promise<{ status?: number; error?: string } | null> {
+  const request = async (method: 'HEAD' | 'GET') => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+    const onStop = () => controller.abort();
+    stop.addEventListener('abort', onStop, { once: true });
+    if (stop.aborted) controller.abort();
+    try {
+      const res = await safeFetch(url, {
+        method,
+        signal: controller.signal,
+        headers: options.userAgent ? { 'User-Agent': options.userAgent } : undefined,
+      });
+      // Only the status matters; don't download bodies
+      await res.body?.cancel().catch(() => { /* ignore */ });
+      return res.status;
+    } finally {
+      clearTimeout(timer);
+      stop.removeEventListener('abort', onStop);
+    }
+  };
+
+  try {
+    let status: number;
+    try {
+      status = await request('HEAD');
+    } catch (e) {
+      if (e instanceof UnsafeUrlError) throw e;
+      status = 0;
+    }
+    // Plenty of servers reject or mishandle HEAD; confirm with GET
+    if (status === 0 || status >= 400) status = await request('GET');
+    return { status };
+  } catch (e) {
+    // Private/denied targets are out of scope, not broken
+    // Out of time for the pass, not a broken link
+    if (e instanceof UnsafeUrlError || stop.aborted) return null;
+    return { error: (e as Error).name === 'AbortError' ? 'timeout' : (e as Error).message };
+  }
+}
+
+/**
+ * Check every `<a href>` on the page: HEAD with GET fallback, same-origin
+ * links first, at most `maxLinks` URLs and `concurrency` requests at a time.
+ * The pass ends after `budgetMs` or when `signal` aborts; `checked` counts
+ * the links that got an answer. Returns only the broken ones.
+ */
+export async function checkLinks(page: Page, options: LinkCheckOptions): Promise<{ checked: number; broken: LinkResult[] }> {
+  const pageUrl = page.url();
+  const origin = new URL(pageUrl).origin;
+
+  const anchors = await page.evaluate(() =>
+    Array.from(document.querySelectorAll('a[href]')).map(a => {
+      // Opening tag plus a short text label instead of the whole subtree
+      const shell = (a.cloneNode(false) as Element).outerHTML.replace(/<\/a>$/i, '').slice(0, 200);
+      return { href: (a as HTMLAnchorElement).href, html: `${shell}${(a.textContent || '').trim().slice(0, 60)}</a>` };
+    })
+  ).catch(() => [] as Array<{ href: string; html: string }>);
+
+  const targets = new Map<string, { url: string; sameOrigin: boolean; element: string }>();
+  for (const a of anchors) {
+    const url = normalizeCrawlUrl(a.href, pageUrl);
+    if (!url || targets.has(url) || url === normalizeCrawlUrl(pageUrl)) continue;
+    targets.set(url, { url, sameOrigin: new URL(url).origin === origin, element: a.html });
+  }
+
+  const queue = Array.from(targets.values())
+    .sort((a, b) => Number(b.sameOrigin) - Number(a.sameOrigin))
+    .slice(0, options.maxLinks);
+  const total = queue.length;
+  let checked = 0;
+  const broken: LinkResult[] = [];
+
+  const stop = new AbortController();
+  const deadline = setTimeout(() => stop.abort(), options.budgetMs);
+  const onCancel = () => stop.abort();
+  options.signal?.addEventListener('abort', onCancel, { once: true });
+  if (options.signal?.aborted) stop.abort();
+
+  const worker = async () => {
+    for (let target = queue.shift(); target && !stop.signal.aborted; target = queue.shift()) {
+      const result = await checkUrl(target.url, options, stop.signal);
+      if (stop.signal.aborted) break;
+      checked++;
+      if (!result) continue;
+      const isBroken = result.error !== undefined ||
+        (result.status !== undefined && result.status >= 400 && !INCONCLUSIVE_STATUS.has(result.status));
+      if (isBroken) broken.push({ ...target, ...result });
+    }
+  };
+  try {
+    await Promise.all(Array.from({ length: Math.max(1, options.concurrency) }, worker));
+  } finally {
+    clearTimeout(deadline);
+    options.signal?.removeEventListener('abort', onCancel);
+  }
+
+  const skipped = total - checked;
+  console.log(`[links] checked ${checked} link(s) on ${pageUrl}, ${broken.length} broken${skipped ? `, ${skipped} skipped` : ''}`);
+  return { checked, broken };
+}
+
+// ---------- Issues ----------
+
+const RESOURCE_LABELS: Record<string, { label: string; impact: AuditIssue['impact']; recommendation: string }> = {
+  script: { label: 'Script', impact: 'HIGH', recommendation: 'Fix or remove the script reference; features depending on it will not work.' },
+  stylesheet: { label: 'Stylesheet', impact: 'HIGH', recommendation: 'Fix or remove the stylesheet reference; the page may render unstyled.' },
+  image: { label: 'Image', impact: 'MEDIUM', recommendation: 'Update the image URL or remove the element so visitors do not see a broken image.' },
+  font: { label: 'Font', impact: 'MEDIUM', recommendation: 'Fix the font URL (and CORS headers for cross-origin fonts) or remove the @font-face rule.' },
+  media: { label: 'Media File', impact: 'MEDIUM', recommendation: 'Update or remove the media source.' },
+  document: { label: 'Frame', impact: 'LOW', recommendation: 'Update or remove the iframe source.' },
+};
+
+function shortName(url: string, sameOrigin: boolean): string {
+  try {
+    const u = new URL(url);
+    const path = u.pathname.length > 60 ? `…${u.pathname.slice(-57)}` : u.pathname;
+    return sameOrigin ? path : `${u.host}${path}`;
+  } catch {
+    return url;
+  }
+}
+
+function failureText(status?: number, error?: string): string {
+  return status ? `returned HTTP ${status}` : `failed to load (${error})`;
+}
+
+export function resourceFailureIssues(failures: ResourceFailure[], pageUrl: string): AuditIssue[] {
+  const origin = new URL(pageUrl).origin;
+  const perKind = new Map<string, number>();
+  const issues: AuditIssue[] = [];
+
+  for (const f of failures) {
+    const kind = RESOURCE_LABELS[f.resourceType] ?? RESOURCE_LABELS.document;
+    const count = perKind.get(kind.label) ?? 0;
+    if (count >= MAX_ISSUES_PER_KIND) continue;
+    perKind.set(kind.label, count + 1);
+
+    issues.push({
+      type: kind.impact === 'HIGH' ? 'ERROR' : 'WARNING',
+      category: 'BEST_PRACTICES',
+      title: `Broken ${kind.label}: ${shortName(f.url, new URL(f.url).origin === origin)}`,
+      description: `${f.url} ${failureText(f.status, f.error)}.`,
+      impact: kind.impact,
+      element: f.element,
+      recommendation: kind.recommendation,
+      urls: [f.url],
+    });
+  }
+
+  return issues;
+}
+
+export function brokenLinkIssues(broken: LinkResult[]): AuditIssue[] {
+  return broken
+    .sort((a, b) => Number(b.sameOrigin) - Number(a.sameOrigin))
+    .slice(0, MAX_ISSUES_PER_KIND)
+    .map(link => ({
+      type: link.sameOrigin ? 'ERROR' : 'WARNING',
+      category: 'SEO',
+      title: `Broken ${link.sameOrigin ? 'Internal' : 'External'} Link: ${shortName(link.url, link.sameOrigin)}`,
+      description: `Link to ${link.url} ${failureText(link.status, link.error)}.`,
+      impact: link.sameOrigin ? 'MEDIUM' : 'LOW',
+      element: link.element,
+      recommendation: link.sameOrigin
+        ? 'Fix the link target or redirect the old URL; broken internal links waste crawl budget and frustrate visitors.'
+        : 'Update or remove the link; the external page has moved or no longer exists.',
+      urls: [link.url],
+    }));
+}
@@ -0,0 +1,111 @@
+// services/metrics.ts
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+// Gauges read the scheduler lazily at scrape time; AuditService registers the provider
+let queueStats: () => { queued: number; active: number } = () => ({ queued: 0, active: 0 });
+
+export function observeQueue(provider: () => { queued: number; active: number }): void {
+  queueStats = provider;
+}
+
+export const queueDepth = new Gauge({
+  name: 'audit_queue_depth',
+  help: 'Audit jobs waiting for a slot',
+  registers: [registry],
+  collect() {
+    this.set(queueStats().queued);
+  },
+});
+
+export const activeJobs = new Gauge({
+  name: 'audit_active_jobs',
+  help: 'Audit jobs currently running',
+  registers: [registry],
+  collect() {
+    this.set(queueStats().active);
+  },
+});
+
+export const jobDuration = new Histogram({
+  name: 'audit_job_duration_seconds',
+  help: 'Wall-clock time of audit jobs from start of processing, by outcome',
+  labelNames: ['outcome'] as const,
+  buckets: [5, 15, 30, 60, 120, 180, 300, 600, 1200],
+  registers: [registry],
+});
+
+export const browserLaunches = new Counter({
+  name: 'browser_launches_total',
+  help: 'Chrome instances launched',
+  labelNames: ['service', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const browserRestarts = new Counter({
+  name: 'browser_restarts_total',
+  help: 'Browsers discarded after failing a connectivity check',
+  labelNames: ['service'] as const,
+  registers: [registry],
+});
+
+export const psiDuration = new Histogram({
+  name: 'psi_request_duration_seconds',
+  help: 'PageSpeed Insights API latency',
+  labelNames: ['strategy', 'outcome'] as const,
+  buckets: [1, 2.5, 5, 10, 20, 30, 45, 60],
+  registers: [registry],
+});
+
+export const psiErrors = new Counter({
+  name: 'psi_errors_total',
+  help: 'PageSpeed Insights calls that returned no usable result',
+  labelNames: ['strategy', 'reason'] as const,
+  registers: [registry],
+});
+
+export const psiCacheLookups = new Counter({
+  name: 'psi_cache_lookups_total',
+  help: 'PageSpeed Insights cache lookups by result (hit, miss, stale)',
+  labelNames: ['result'] as const,
+  registers: [registry],
+});
+
+export const psiThrottled = new Counter({
+  name: 'psi_throttled_total',
+  help: 'PageSpeed Insights calls skipped by the client-side quota guard',
+  labelNames: ['strategy'] as const,
+  registers: [registry],
+});
+
+export const pdfRenderDuration = new Histogram({
+  name: 'pdf_render_duration_seconds',
+  help: 'Time to render a PDF',
+  labelNames: ['source', 'outcome'] as const,
+  buckets: [0.5, 1, 2.5, 5, 10, 20, 40, 60],
+  registers: [registry],
+});
+
+export const pdfSize = new Histogram({
+  name: 'pdf_size_bytes',
+  help: 'Size of generated PDFs',
+  labelNames: ['source'] as const,
+  buckets: [50e3, 100e3, 250e3, 500e3, 1e6, 2.5e6, 5e6, 10e6],
+  registers: [registry],
+});
+
+export const webhookAttempts = new Counter({
+  name: 'webhook_delivery_attempts_total',
+  help: 'Callback delivery attempts by result',
+  labelNames: ['result'] as const,
+  registers: [registry],
+});
+
+export const webhookDeliveries = new Counter({
+  name: 'webhook_deliveries_total',
+  help: 'Callback deliveries that reached a final state (delivered or dead-lettered)',
+  labelNames: ['status'] as const,
+  registers: [registry],
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PageSpeedCache, PageSpeedQuota, pageSpeedCacheKey } from './pageSpeedCache.js';
+
+describe('pageSpeedCacheKey', () => {
+  it('ignores fragments and host case but keeps the strategy and query', () => {
+    expect(pageSpeedCacheKey('https://Example.com/page#top', 'mobile')).toBe('mobile:https://example.com/page');
+    expect(pageSpeedCacheKey('https://example.com/page?a=1', 'desktop')).toBe('desktop:https://example.com/page?a=1');
+  });
+});
+
+describe('PageSpeedCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves entries as fresh within the TTL and keeps them as stale afterwards', () => {
+    const cache = new PageSpeedCache<number>(1_000, 10);
+    cache.set('a', 1);
+    expect(cache.get('a')).toMatchObject({ value: 1, fresh: true });
+
+    vi.advanceTimersByTime(1_000);
+    expect(cache.get('a')).toMatchObject({ value: 1, fresh: false });
+    expect(cache.get('b')).toBeNull();
+  });
+
+  it('evicts the oldest entries beyond the size limit', () => {
+    const cache = new PageSpeedCache<number>(1_000, 2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 3);
+    cache.set('c', 4);
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('a')?.value).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it('stores nothing when disabled', () => {
+    const cache = new PageSpeedCache<number>(0, 10);
+    cache.set('a', 1);
+    expect(cache.enabled).toBe(false);
+    expect(cache.get('a')).toBeNull();
+  });
+});
+
+describe('PageSpeedQuota', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('hands out a burst of tokens and then refills at the configured rate', async () => {
+    const quota = new PageSpeedQuota(2, 100);
+    expect(await quota.acquire(0)).toBe(true);
+    expect(await quota.acquire(0)).toBe(true);
+    // The next token is 30s away
+    expect(await quota.acquire(10_000)).toBe(false);
+
+    const waiting = quota.acquire(60_000);
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(await waiting).toBe(true);
+  });
+
+  it('stops at the daily quota', async () => {
+    const quota = new PageSpeedQuota(10, 2);
+    expect(await quota.acquire(0)).toBe(true);
+    expect(await quota.acquire(0)).toBe(true);
+    expect(await quota.acquire(60_000)).toBe(false);
+    expect(quota.remainingToday).toBe(0);
+  });
+
+  it('waits out a pause after a 429', async () => {
+    const quota = new PageSpeedQuota(60, 100);
+    quota.pause(5_000);
+    expect(await quota.acquire(1_000)).toBe(false);
+
+    const waiting = quota.acquire(10_000);
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(await waiting).toBe(true);
+  });
+});
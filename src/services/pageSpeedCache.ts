@@ -0,0 +1,122 @@
+// services/pageSpeedCache.ts
+
+export type Strategy = 'desktop' | 'mobile';
+
+/** Same page, same strategy → same key; fragments and host case don't matter to PSI. */
+export function pageSpeedCacheKey(url: string, strategy: Strategy): string {
+  try {
+    const u = new URL(url);
+    u.hash = '';
+    return `${strategy}:${u.toString()}`;
+  } catch {
+    return `${strategy}:${url}`;
+  }
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+/**
+ * In-memory TTL cache for PSI responses, bounded by entry count (oldest
+ * first). Expired entries are kept until evicted so they can still be served
+ * as stale when the live API is rate limited or failing.
+ */
+export class PageSpeedCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private readonly ttlMs: number, private readonly maxEntries: number) {}
+
+  get enabled(): boolean {
+    return this.ttlMs > 0 && this.maxEntries > 0;
+  }
+
+  get(key: string): { value: T; storedAt: Date; fresh: boolean } | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    return { value: entry.value, storedAt: new Date(entry.storedAt), fresh: Date.now() - entry.storedAt < this.ttlMs };
+  }
+
+  set(key: string, value: T): void {
+    if (!this.enabled) return;
+    this.entries.delete(key); // re-insert so Map order stays oldest-first
+    this.entries.set(key, { value, storedAt: Date.now() });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// Google resets PSI's daily quota at midnight Pacific time
+function quotaDay(now = new Date()): string {
+  return now.toLocaleDateString('en-US', { timeZone: 'America/Los_Angeles' });
+}
+
+/**
+ * Client-side guard for the PSI quota: a token bucket refilled at
+ * `ratePerMinute` plus a daily call counter. Callers wait for a token up to
+ * a deadline and otherwise skip PSI. A 429 from the API pauses the bucket.
+ */
+export class PageSpeedQuota {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private day = quotaDay();
+  private usedToday = 0;
+
+  constructor(private readonly ratePerMinute: number, private readonly dailyQuota: number) {
+    this.tokens = ratePerMinute;
+  }
+
+  /**
+   * Take one call's worth of quota. Resolves false without waiting when the
+   * daily quota is spent or the next token is further away than `maxWaitMs`.
+   */
+  async acquire(maxWaitMs: number): Promise<boolean> {
+    const deadline = Date.now() + maxWaitMs;
+
+    for (;;) {
+      this.refill();
+      if (this.usedToday >= this.dailyQuota) return false;
+
+      if (this.tokens >= 1 && Date.now() >= this.pausedUntil) {
+        this.tokens -= 1;
+        this.usedToday += 1;
+        return true;
+      }
+
+      const msPerToken = 60_000 / Math.max(1, this.ratePerMinute);
+      const wait = Math.max(this.pausedUntil - Date.now(), (1 - this.tokens) * msPerToken, 10);
+      if (Date.now() + wait > deadline) return false;
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+
+  /** Back off after the API itself answered 429. */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+  }
+
+  get remainingToday(): number {
+    this.refill();
+    return Math.max(0, this.dailyQuota - this.usedToday);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.ratePerMinute, this.tokens + ((now - this.lastRefill) / 60_000) * this.ratePerMinute);
+    this.lastRefill = now;
+
+    const today = quotaDay();
+    if (today !== this.day) {
+      this.day = today;
+      this.usedToday = 0;
+    }
+  }
+}
@@ -2,6 +2,8 @@
 import puppeteer, { type Browser, type Page, type PDFOptions, type LaunchOptions } from 'puppeteer';
 import fs from 'node:fs';
 import { config } from '../config/index.js';
+import { assertSafeUrl, guardPageRequests, safeFetch } from './urlSafety.js';
+import { browserLaunches, pdfRenderDuration, pdfSize } from './metrics.js';
 
 export interface PDFRequest {
   jobId: string;
@@ -83,7 +85,14 @@ export class PDFService {
       dumpio: false,
     };
 
-    return puppeteer.launch(launchOpts);
+    try {
+      const browser = await puppeteer.launch(launchOpts);
+      browserLaunches.inc({ service: 'pdf', outcome: 'ok' });
+      return browser;
+    } catch (error) {
+      browserLaunches.inc({ service: 'pdf', outcome: 'error' });
+      throw error;
+    }
   }
 
   private async getBrowser(): Promise<Browser> {
@@ -109,7 +118,11 @@ export class PDFService {
     page.on('pageerror', e => console.warn('[pdf][pageerror]', e.message));
     page.on('requestfailed', r => console.warn('[pdf][requestfailed]', r.url(), r.failure()?.errorText));
 
+    const endTimer = pdfRenderDuration.startTimer({ source: 'html' });
     try {
+      // HTML can reference internal hosts too (images, iframes, fonts)
+      await guardPageRequests(page, { tag: 'pdf' });
+
       // Set viewport for consistent rendering
       await page.setViewport({ 
         width: 1024, 
@@ -144,7 +157,12 @@ export class PDFService {
 
       // Generate PDF
       const pdf = await page.pdf(pdfOptions);
+      pdfSize.observe({ source: 'html' }, pdf.length);
+      endTimer({ outcome: 'ok' });
       return Buffer.from(pdf);
+    } catch (error) {
+      endTimer({ outcome: 'error' });
+      throw error;
     } finally {
       try { await page.close(); } catch { /* ignore */ }
       // Intentionally keep the browser alive for reuse; use cleanup() to close
@@ -152,6 +170,8 @@ export class PDFService {
   }
 
   async generatePDFFromURL(url: string, options?: PDFRequest['options']): Promise<Buffer> {
+    await assertSafeUrl(url);
+
     // Quick preflight so we don’t waste a Chrome spin-up on dead URLs
     await this.preflightURL(url);
 
@@ -162,7 +182,10 @@ export class PDFService {
     page.on('pageerror', e => console.warn('[pdf-url][pageerror]', e.message));
     page.on('requestfailed', r => console.warn('[pdf-url][requestfailed]', r.url(), r.failure()?.errorText));
 
+    const endTimer = pdfRenderDuration.startTimer({ source: 'url' });
     try {
+      await guardPageRequests(page, { tag: 'pdf-url' });
+
       // Progressive navigation strategies for flaky pages/CDN
       await this.progressiveGoto(page, url, config.requestTimeout ?? 60_000);
 
@@ -171,7 +194,12 @@ export class PDFService {
 
       const pdfOptions = this.buildPdfOptions(options);
       const pdf = await page.pdf(pdfOptions);
+      pdfSize.observe({ source: 'url' }, pdf.length);
+      endTimer({ outcome: 'ok' });
       return Buffer.from(pdf);
+    } catch (error) {
+      endTimer({ outcome: 'error' });
+      throw error;
     } finally {
       try { await page.close(); } catch { /* ignore */ }
     }
@@ -277,7 +305,7 @@ export class PDFService {
     try {
       const controller = new AbortController();
       const t = setTimeout(() => controller.abort(), 10_000);
-      const res = await fetch(url, { method: 'HEAD', signal: controller.signal });
+      const res = await safeFetch(url, { method: 'HEAD', signal: controller.signal });
       clearTimeout(t);
       if (!res.ok) {
         console.warn('[pdf] preflight HEAD not OK:', res.status, res.statusText);
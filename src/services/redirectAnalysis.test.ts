@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { describeChange, parseRefresh } from './redirectAnalysis.js';
+
+describe('parseRefresh', () => {
+  const base = 'https://example.com/dir/page';
+
+  it('resolves the target against the document URL', () => {
+    expect(parseRefresh('5; url=/next', base)).toBe('https://example.com/next');
+    expect(parseRefresh("3, URL='other.html'", base)).toBe('https://example.com/dir/other.html');
+    expect(parseRefresh('0;url="https://www.example.org/"', base)).toBe('https://www.example.org/');
+  });
+
+  it('accepts a target without the url= prefix', () => {
+    expect(parseRefresh('0; /landing', base)).toBe('https://example.com/landing');
+  });
+
+  it('returns undefined for a plain reload', () => {
+    expect(parseRefresh('30', base)).toBeUndefined();
+    expect(parseRefresh('0;', base)).toBeUndefined();
+  });
+});
+
+describe('describeChange', () => {
+  it('names protocol and www changes', () => {
+    expect(describeChange('http://example.com/', 'https://example.com/')).toEqual(['http-to-https']);
+    expect(describeChange('https://example.com/', 'http://example.com/')).toEqual(['https-to-http']);
+    expect(describeChange('https://example.com/', 'https://www.example.com/')).toEqual(['add-www']);
+    expect(describeChange('https://www.example.com/', 'https://example.com/')).toEqual(['remove-www']);
+    expect(describeChange('https://example.com/', 'https://example.org/')).toEqual(['different-host']);
+  });
+
+  it('names path changes', () => {
+    expect(describeChange('https://example.com/a', 'https://example.com/a/')).toEqual(['add-trailing-slash']);
+    expect(describeChange('https://example.com/a/', 'https://example.com/a')).toEqual(['remove-trailing-slash']);
+    expect(describeChange('https://example.com/About', 'https://example.com/about')).toEqual(['lowercase-path']);
+    expect(describeChange('https://example.com/old', 'https://example.com/new')).toEqual(['different-path']);
+  });
+
+  it('lists every change of a combined redirect', () => {
+    expect(describeChange('http://www.example.com/shop/?ref=1', 'https://example.com:8443/shop')).toEqual([
+      'http-to-https',
+      'remove-www',
+      'remove-trailing-slash',
+      'query-string',
+      'port',
+    ]);
+  });
+
+  it('returns an empty list for the same URL and "other" for unparsable ones', () => {
+    expect(describeChange('https://example.com/', 'https://example.com/')).toEqual([]);
+    expect(describeChange('not a url', 'https://example.com/')).toEqual(['other']);
+  });
+});
@@ -0,0 +1,318 @@
+// services/redirectAnalysis.ts
+import type { HTTPResponse, Page } from 'puppeteer';
+import type { AuditIssue, CategoryDetail, RedirectChain, RedirectHop } from '../types/audit.js';
+import { normalizeCrawlUrl } from './crawler.js';
+
+export interface DocumentResponse {
+  url: string;
+  status: number;
+  location?: string;
+  // Targets of a Refresh header and a <meta http-equiv="refresh">
+  refresh?: string;
+  metaRefresh?: string;
+}
+
+export interface RedirectAnalysisResult {
+  report: RedirectChain;
+  issues: AuditIssue[];
+  items: CategoryDetail['items'];
+}
+
+const MAX_DOCUMENTS = 25;
+// Meta refresh tags sit in <head>; don't scan whole documents
+const MAX_SCANNED_HTML = 100_000;
+const TEMPORARY_STATUS = new Set([302, 303, 307]);
+
+const HOP_LABELS: Record<RedirectHop['type'], string> = {
+  'http': 'HTTP',
+  'refresh-header': 'Refresh header',
+  'meta-refresh': 'meta refresh',
+  'javascript': 'JavaScript',
+};
+
+/** Target of a Refresh header or meta refresh ("5; url=/next"); undefined for a plain reload. */
+export function parseRefresh(value: string, base: string): string | undefined {
+  const target = value.match(/^\s*[\d.]*\s*[;,]?\s*(?:url\s*=\s*)?(.*)$/i)?.[1].trim().replace(/^(['"])(.*)\1$/, '$2');
+  if (!target) return undefined;
+  try {
+    return new URL(target, base).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function findMetaRefresh(html: string): string | undefined {
+  const tag = html.slice(0, MAX_SCANNED_HTML).match(/<meta\b[^>]*http-equiv\s*=\s*["']?refresh\b[^>]*>/i)?.[0];
+  return tag?.match(/\scontent\s*=\s*(?:"([^"]*)"|'([^']*)')/i)?.slice(1).find(v => v !== undefined);
+}
+
+/**
+ * Record every main-frame document response, redirects included, in order.
+ * Call before navigating; `restart()` drops what an abandoned navigation
+ * attempt recorded, and `stop()` detaches and returns the responses.
+ */
+export function trackNavigations(page: Page): { restart(): void; stop(): Promise<DocumentResponse[]> } {
+  let documents: DocumentResponse[] = [];
+  let pending: Array<Promise<void>> = [];
+
+  const onResponse = (response: HTTPResponse) => {
+    const request = response.request();
+    if (!request.isNavigationRequest() || request.frame() !== page.mainFrame()) return;
+    if (documents.length >= MAX_DOCUMENTS) return;
+
+    const url = response.url();
+    const headers = response.headers();
+    const doc: DocumentResponse = { url, status: response.status() };
+    if (headers.location) {
+      try {
+        doc.location = new URL(headers.location, url).toString();
+      } catch { /* malformed Location; the browser won't follow it either */ }
+    }
+    if (headers.refresh) doc.refresh = parseRefresh(headers.refresh, url);
+    documents.push(doc);
+
+    if (response.ok() && /html/i.test(headers['content-type'] ?? '')) {
+      pending.push(response.text()
+        .then(html => {
+          const meta = findMetaRefresh(html);
+          if (meta) doc.metaRefresh = parseRefresh(meta, url);
+        })
+        .catch(() => { /* body gone after navigating away */ }));
+    }
+  };
+
+  page.on('response', onResponse);
+
+  return {
+    restart() {
+      documents = [];
+      pending = [];
+    },
+    async stop() {
+      page.off('response', onResponse);
+      await Promise.all(pending);
+      return documents;
+    },
+  };
+}
+
+/** What changed between two URLs of a redirect: protocol, www, trailing slash, case. */
+export function describeChange(from: string, to: string): string[] {
+  let a: URL;
+  let b: URL;
+  try {
+    a = new URL(from);
+    b = new URL(to);
+  } catch {
+    return ['other'];
+  }
+  const changes: string[] = [];
+  if (a.protocol !== b.protocol) changes.push(`${a.protocol.slice(0, -1)}-to-${b.protocol.slice(0, -1)}`);
+
+  const bareA = a.hostname.replace(/^www\./, '');
+  const bareB = b.hostname.replace(/^www\./, '');
+  if (a.hostname !== b.hostname) {
+    if (bareA !== bareB) changes.push('different-host');
+    else changes.push(b.hostname.startsWith('www.') ? 'add-www' : 'remove-www');
+  }
+
+  if (a.pathname !== b.pathname) {
+    const trim = (p: string) => p.replace(/\/+$/, '') || '/';
+    if (trim(a.pathname) === trim(b.pathname)) changes.push(b.pathname.endsWith('/') ? 'add-trailing-slash' : 'remove-trailing-slash');
+    else if (a.pathname.toLowerCase() === b.pathname.toLowerCase()) changes.push('lowercase-path');
+    else changes.push('different-path');
+  }
+  if (a.search !== b.search) changes.push('query-string');
+  if (a.port !== b.port) changes.push('port');
+  return changes;
+}
+
+function sameUrl(a?: string, b?: string): boolean {
+  return !!a && !!b && (normalizeCrawlUrl(a) ?? a) === (normalizeCrawlUrl(b) ?? b);
+}
+
+/** Documents from the final response's redirect chain, when no tracker ran or it saw nothing. */
+function documentsFromResponse(response: HTTPResponse): DocumentResponse[] {
+  const documents: DocumentResponse[] = response.request().redirectChain().map(request => {
+    const res = request.response();
+    const location = res?.headers().location;
+    return {
+      url: request.url(),
+      status: res?.status() ?? 0,
+      ...(location && { location: new URL(location, request.url()).toString() }),
+    };
+  });
+  documents.push({ url: response.url(), status: response.status() });
+  return documents;
+}
+
+function buildHops(documents: DocumentResponse[]): RedirectHop[] {
+  const hops: RedirectHop[] = [];
+
+  for (let i = 0; i < documents.length; i++) {
+    const doc = documents[i];
+    const next = documents[i + 1];
+    const isHttp = doc.status >= 300 && doc.status < 400 && !!doc.location;
+
+    if (!next) {
+      // A redirect the browser never completed (loop, blocked target, network error)
+      if (isHttp) hops.push({ url: doc.url, status: doc.status, type: 'http', location: doc.location!, changes: describeChange(doc.url, doc.location!) });
+      break;
+    }
+
+    let type: RedirectHop['type'];
+    if (isHttp) type = 'http';
+    else if (sameUrl(doc.refresh, next.url)) type = 'refresh-header';
+    else if (sameUrl(doc.metaRefresh, next.url)) type = 'meta-refresh';
+    else if (sameUrl(doc.url, next.url)) continue; // a reload, not a redirect
+    else type = 'javascript';
+
+    hops.push({
+      url: doc.url,
+      ...(type === 'http' && { status: doc.status }),
+      type,
+      location: next.url,
+      changes: describeChange(doc.url, next.url),
+    });
+  }
+
+  return hops;
+}
+
+/**
+ * Reconstruct the redirect chain from the requested URL to the audited page,
+ * covering server redirects as well as Refresh headers, meta refresh and
+ * JavaScript navigations, and flag long chains, loops, downgrades and a final
+ * URL that disagrees with the canonical link.
+ */
+export function analyzeRedirects(
+  page: Page,
+  tracked: DocumentResponse[],
+  requestedUrl: string,
+  response: HTTPResponse | null,
+  options: { canonical?: string } = {}
+): RedirectAnalysisResult {
+  const documents = tracked.length || !response ? tracked : documentsFromResponse(response);
+  const hops = buildHops(documents);
+
+  const visited = [...hops.map(h => h.url), hops.at(-1)?.location].filter((u): u is string => !!u);
+  const seen = new Set<string>();
+  const loop = visited.some(u => {
+    const key = normalizeCrawlUrl(u) ?? u;
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+
+  const last = documents.at(-1);
+  const report: RedirectChain = {
+    requestedUrl,
+    finalUrl: page.url() || last?.url || requestedUrl,
+    ...(last && { finalStatus: last.status }),
+    hops,
+    loop,
+    ...(options.canonical && { canonical: options.canonical }),
+  };
+
+  const issues = redirectIssues(report);
+  if (hops.length) console.log(`[redirects] ${hops.length} hop(s) from ${requestedUrl} to ${report.finalUrl}${loop ? ' (loop)' : ''}`);
+  return { report, issues, items: redirectItems(report) };
+}
+
+function formatChain(report: RedirectChain): string {
+  const steps = report.hops.map(h => `${h.url} → (${h.status ?? HOP_LABELS[h.type]})`);
+  return [...steps, report.hops.at(-1)?.location ?? report.finalUrl].join(' ');
+}
+
+function redirectIssues(report: RedirectChain): AuditIssue[] {
+  const { hops } = report;
+  const findings: AuditIssue[] = [];
+  if (!hops.length) return findings;
+
+  if (report.loop) {
+    findings.push({
+      type: 'ERROR',
+      category: 'SEO',
+      title: 'Redirect Loop',
+      description: `The redirects lead back to a URL already visited: ${formatChain(report)}.`,
+      impact: 'HIGH',
+      recommendation: 'Fix the redirect rules so every URL ends at a page that returns 200; browsers and search engines give up on loops.',
+      urls: hops.map(h => h.url),
+    });
+  } else if (hops.length > 1) {
+    findings.push({
+      type: 'WARNING',
+      category: 'SEO',
+      title: 'Redirect Chain',
+      description: `The URL redirects ${hops.length} times before reaching the page: ${formatChain(report)}.`,
+      impact: hops.length > 2 ? 'HIGH' : 'MEDIUM',
+      recommendation: 'Redirect straight to the final URL; every hop adds a round trip, and search engines stop following long chains.',
+      urls: hops.map(h => h.url),
+    });
+  }
+
+  for (const type of ['refresh-header', 'meta-refresh', 'javascript'] as const) {
+    const clientSide = hops.filter(h => h.type === type);
+    if (!clientSide.length) continue;
+    findings.push({
+      type: 'WARNING',
+      category: 'SEO',
+      title: `Client-Side Redirect (${HOP_LABELS[type]})`,
+      description: `Redirected by ${type === 'javascript' ? 'a script' : `a ${HOP_LABELS[type]}`} after the page loaded: ${clientSide.map(h => `${h.url} → ${h.location}`).join(', ')}.`,
+      impact: 'MEDIUM',
+      recommendation: 'Use a 301 or 308 server redirect; client-side redirects are slower and search engines may not treat them as permanent.',
+      urls: clientSide.map(h => h.url),
+    });
+  }
+
+  const downgrades = hops.filter(h => h.changes.includes('https-to-http'));
+  if (downgrades.length) {
+    findings.push({
+      type: 'ERROR',
+      category: 'SECURITY',
+      title: 'Redirect from HTTPS to HTTP',
+      description: `${downgrades.map(h => `${h.url} → ${h.location}`).join(', ')} drops from HTTPS to an unencrypted URL.`,
+      impact: 'HIGH',
+      recommendation: 'Redirect only to HTTPS URLs so visitors never leave the encrypted connection.',
+      urls: downgrades.map(h => h.url),
+    });
+  }
+
+  const temporary = hops.filter(h => h.status !== undefined && TEMPORARY_STATUS.has(h.status));
+  if (temporary.length) {
+    findings.push({
+      type: 'INFO',
+      category: 'SEO',
+      title: 'Temporary Redirect',
+      description: `${temporary.map(h => `${h.url} (${h.status})`).join(', ')} ${temporary.length > 1 ? 'use temporary redirects' : 'uses a temporary redirect'}, so search engines keep the original URL indexed.`,
+      impact: 'LOW',
+      recommendation: 'Use 301 or 308 when the move is permanent.',
+      urls: temporary.map(h => h.url),
+    });
+  }
+
+  if (!report.loop && report.canonical && !sameUrl(report.canonical, report.finalUrl)) {
+    findings.push({
+      type: 'WARNING',
+      category: 'SEO',
+      title: 'Redirect Target Not Canonical',
+      description: `The redirects end at ${report.finalUrl}, but its canonical link points to ${report.canonical}.`,
+      impact: 'MEDIUM',
+      recommendation: 'Redirect to the canonical URL directly, or correct the canonical link on the destination page.',
+      urls: [report.finalUrl],
+    });
+  }
+
+  return findings;
+}
+
+function redirectItems(report: RedirectChain): CategoryDetail['items'] {
+  const { hops } = report;
+  const clientSide = hops.some(h => h.type !== 'http');
+  return [{
+    title: 'Redirects',
+    value: report.loop ? 'Loop' : hops.length ? `${hops.length} hop(s)` : 'None',
+    status: report.loop ? 'FAIL' : hops.length > 1 || clientSide ? 'WARNING' : 'PASS',
+    description: hops.length ? formatChain(report) : 'The requested URL loaded without redirects',
+  }];
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { AuditResults } from '../types/audit.js';
+import type { JobRecord } from './jobStore.js';
+import { normalizeAuditResults, reportDataFromJob } from './reportData.js';
+
+const base: AuditResults = {
+  performanceScore: 90,
+  seoScore: 80,
+  accessibilityScore: 70,
+  bestPracticesScore: 60,
+  issues: [],
+  pagesCrawled: 1,
+};
+
+describe('normalizeAuditResults', () => {
+  it('moves a flat pageSpeedMetrics object to desktop', () => {
+    const results = normalizeAuditResults({ ...base, pageSpeedMetrics: { performanceScore: 88, speedIndex: 1200 } });
+    expect(results.pageSpeedMetrics).toEqual({ desktop: { performanceScore: 88, speedIndex: 1200 } });
+  });
+
+  it('keeps split pageSpeedMetrics as they are', () => {
+    const pageSpeedMetrics = { source: 'pagespeed' as const, mobile: { performanceScore: 55 } };
+    expect(normalizeAuditResults({ ...base, pageSpeedMetrics }).pageSpeedMetrics).toEqual(pageSpeedMetrics);
+  });
+
+  it('takes the first legacy screenshot unless one is already set', () => {
+    const legacy = normalizeAuditResults({ ...base, screenshots: ['first', 'second'] });
+    expect(legacy.screenshot).toBe('first');
+    expect(legacy).not.toHaveProperty('screenshots');
+    expect(normalizeAuditResults({ ...base, screenshot: 'own', screenshots: ['first'] }).screenshot).toBe('own');
+  });
+});
+
+describe('reportDataFromJob', () => {
+  const job: JobRecord = {
+    jobId: '0b5d6c1e-8f3a-4c2b-9d7e-1a2b3c4d5e6f',
+    request: { jobId: '0b5d6c1e-8f3a-4c2b-9d7e-1a2b3c4d5e6f', websiteUrl: 'https://example.com/' },
+    status: 'COMPLETED',
+    result: { jobId: '0b5d6c1e-8f3a-4c2b-9d7e-1a2b3c4d5e6f', status: 'COMPLETED', results: base },
+    attempts: 1,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:02:00.000Z',
+  };
+
+  it('builds report input from a completed job', () => {
+    expect(reportDataFromJob(job, { companyName: 'Acme' })).toEqual({
+      auditId: job.jobId,
+      websiteUrl: 'https://example.com/',
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+      completedAt: new Date('2026-01-01T00:02:00.000Z'),
+      results: job.result!.results,
+      branding: { companyName: 'Acme' },
+    });
+  });
+
+  it('returns null for jobs without results', () => {
+    expect(reportDataFromJob({ ...job, status: 'FAILED', result: undefined }, {})).toBeNull();
+    expect(reportDataFromJob({ ...job, status: 'PROCESSING' }, {})).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+// services/reportData.ts
+import type { AuditResults, PageSpeedMetrics } from '../types/audit.js';
+import type { JobRecord } from './jobStore.js';
+import type { BrandingConfig, ReportData } from './htmlTemplateService.js';
+
+/**
+ * Results as older clients post them to /generate-audit-report: a single flat
+ * `pageSpeedMetrics` object and a `screenshots` array.
+ */
+export type LegacyAuditResults = Omit<AuditResults, 'pageSpeedMetrics'> & {
+  pageSpeedMetrics?: PageSpeedMetrics | AuditResults['pageSpeedMetrics'];
+  screenshots?: string[];
+};
+
+function isSplitPageSpeed(value: NonNullable<LegacyAuditResults['pageSpeedMetrics']>): value is NonNullable<AuditResults['pageSpeedMetrics']> {
+  return 'desktop' in value || 'mobile' in value || 'source' in value;
+}
+
+/** Accept either result shape and return the canonical AuditResults. */
+export function normalizeAuditResults(input: LegacyAuditResults): AuditResults {
+  const { pageSpeedMetrics, screenshots, ...rest } = input;
+
+  return {
+    ...rest,
+    // The flat shape predates the desktop/mobile split and always held desktop numbers
+    pageSpeedMetrics: !pageSpeedMetrics || isSplitPageSpeed(pageSpeedMetrics)
+      ? pageSpeedMetrics
+      : { desktop: pageSpeedMetrics },
+    screenshot: rest.screenshot ?? screenshots?.[0],
+  };
+}
+
+/**
+ * Build report input straight from a stored job. Returns null unless the job
+ * completed with results.
+ */
+export function reportDataFromJob(job: JobRecord, branding: BrandingConfig): ReportData | null {
+  if (job.status !== 'COMPLETED' || !job.result?.results) return null;
+
+  return {
+    auditId: job.jobId,
+    websiteUrl: job.request.websiteUrl,
+    createdAt: new Date(job.createdAt),
+    completedAt: new Date(job.updatedAt),
+    results: job.result.results,
+    branding,
+  };
+}
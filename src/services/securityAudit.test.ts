@@ -0,0 +1,73 @@
+import type { HTTPResponse } from 'puppeteer';
+import { describe, expect, it } from 'vitest';
+import { auditSecurity, evaluateCsp, parseCsp } from './securityAudit.js';
+
+const titles = (header: string) => evaluateCsp(parseCsp(header)).map(f => f.title);
+
+describe('parseCsp', () => {
+  it('splits directives and lowercases their names', () => {
+    const policy = parseCsp("Default-Src 'self'; script-src 'self' https://cdn.example.com ;");
+    expect(policy.get('default-src')).toEqual(["'self'"]);
+    expect(policy.get('script-src')).toEqual(["'self'", 'https://cdn.example.com']);
+    expect(policy.size).toBe(2);
+  });
+
+  it('keeps the first of repeated directives', () => {
+    expect(parseCsp("script-src 'none'; script-src *").get('script-src')).toEqual(["'none'"]);
+  });
+});
+
+describe('evaluateCsp', () => {
+  it('passes a strict nonce-based policy', () => {
+    expect(titles("script-src 'nonce-abc' 'strict-dynamic'; object-src 'none'; base-uri 'self'")).toEqual([]);
+  });
+
+  it("flags 'unsafe-inline' without a nonce or hash", () => {
+    expect(titles("script-src 'self' 'unsafe-inline'; object-src 'none'; base-uri 'none'"))
+      .toEqual(["CSP Allows 'unsafe-inline' Scripts"]);
+  });
+
+  it("ignores 'unsafe-inline' next to a nonce or hash, as browsers do", () => {
+    expect(titles("script-src 'nonce-r4nd0m' 'unsafe-inline'; object-src 'none'; base-uri 'none'")).toEqual([]);
+    expect(titles("script-src 'sha256-AbC=' 'unsafe-inline'; object-src 'none'; base-uri 'none'")).toEqual([]);
+  });
+
+  it('falls back to default-src for scripts and objects', () => {
+    expect(titles("default-src 'none'; base-uri 'none'")).toEqual([]);
+    expect(titles("default-src * 'unsafe-eval'; base-uri 'none'")).toEqual([
+      "CSP Allows 'unsafe-eval'",
+      'CSP Allows Scripts From Any Host',
+      "CSP Missing object-src 'none'",
+    ]);
+  });
+
+  it("accepts broad sources behind 'strict-dynamic'", () => {
+    expect(titles("script-src 'nonce-abc' 'strict-dynamic' https:; object-src 'none'; base-uri 'none'")).toEqual([]);
+  });
+
+  it('reports a policy that does not restrict scripts at all', () => {
+    expect(titles("img-src 'self'")).toEqual([
+      'CSP Does Not Restrict Scripts',
+      "CSP Missing object-src 'none'",
+      'CSP Missing base-uri',
+    ]);
+  });
+});
+
+describe('auditSecurity', () => {
+  const framing = (headers: Record<string, string>) => {
+    const response = { headers: () => headers, url: () => 'http://example.com/', securityDetails: () => null } as unknown as HTTPResponse;
+    return auditSecurity(response, 'http://example.com/')!.items.find(i => i.title === 'Clickjacking Protection')!.status;
+  };
+
+  it('accepts frame-ancestors limited to known origins', () => {
+    expect(framing({ 'content-security-policy': "frame-ancestors 'self' https://app.example.com" })).toBe('PASS');
+    expect(framing({ 'x-frame-options': 'DENY' })).toBe('PASS');
+  });
+
+  it('treats a wildcard or scheme-only frame-ancestors as unprotected, even next to X-Frame-Options', () => {
+    expect(framing({ 'content-security-policy': 'frame-ancestors *' })).toBe('WARNING');
+    expect(framing({ 'content-security-policy': 'frame-ancestors https:', 'x-frame-options': 'DENY' })).toBe('WARNING');
+    expect(framing({})).toBe('WARNING');
+  });
+});
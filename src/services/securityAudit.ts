@@ -0,0 +1,420 @@
+// services/securityAudit.ts
+import type { HTTPResponse } from 'puppeteer';
+import type { AuditIssue, CategoryDetail } from '../types/audit.js';
+
+export interface SecurityAuditResult {
+  score: number;
+  issues: AuditIssue[];
+  items: CategoryDetail['items'];
+}
+
+type Finding = Omit<AuditIssue, 'category'>;
+type Check = { title: string; value: string; findings: Finding[]; passDescription: string };
+
+const HSTS_MIN_MAX_AGE = 15_552_000; // 180 days
+const CERT_EXPIRY_ERROR_DAYS = 14;
+const CERT_EXPIRY_WARNING_DAYS = 30;
+
+// Score deduction per finding
+const PENALTY: Record<AuditIssue['impact'], number> = { HIGH: 20, MEDIUM: 10, LOW: 4 };
+
+// ---------- Content-Security-Policy evaluator ----------
+
+export type CspPolicy = Map<string, string[]>;
+
+export function parseCsp(header: string): CspPolicy {
+  const policy: CspPolicy = new Map();
+  for (const part of header.split(';')) {
+    const [name, ...values] = part.trim().split(/\s+/);
+    // Browsers ignore repeated directives, keep the first
+    if (name && !policy.has(name.toLowerCase())) policy.set(name.toLowerCase(), values);
+  }
+  return policy;
+}
+
+/**
+ * Grade a CSP the way CSP Evaluator does for its most common findings:
+ * script sources that allow injection, missing object-src/base-uri
+ * restrictions and overly broad sources.
+ */
+export function evaluateCsp(policy: CspPolicy): Finding[] {
+  const findings: Finding[] = [];
+  const scriptSrc = policy.get('script-src') ?? policy.get('default-src');
+  const lower = (values?: string[]) => (values ?? []).map(v => v.toLowerCase());
+
+  if (!scriptSrc) {
+    findings.push({
+      type: 'ERROR',
+      title: 'CSP Does Not Restrict Scripts',
+      description: 'The Content-Security-Policy has neither script-src nor default-src, so any script source is allowed.',
+      impact: 'HIGH',
+      recommendation: "Add a script-src directive, ideally nonce- or hash-based with 'strict-dynamic'."
+    });
+  } else {
+    const sources = lower(scriptSrc);
+    const hasNonceOrHash = sources.some(v => /^'(nonce|sha256|sha384|sha512)-/.test(v));
+    const strictDynamic = sources.includes("'strict-dynamic'");
+
+    // 'unsafe-inline' is ignored by browsers once a nonce or hash is present
+    if (sources.includes("'unsafe-inline'") && !hasNonceOrHash) {
+      findings.push({
+        type: 'ERROR',
+        title: "CSP Allows 'unsafe-inline' Scripts",
+        description: "script-src allows 'unsafe-inline', which lets injected inline scripts run and defeats most XSS protection.",
+        impact: 'HIGH',
+        recommendation: "Replace 'unsafe-inline' with nonces or hashes for the inline scripts you need."
+      });
+    }
+    if (sources.includes("'unsafe-eval'")) {
+      findings.push({
+        type: 'WARNING',
+        title: "CSP Allows 'unsafe-eval'",
+        description: "script-src allows 'unsafe-eval', so strings can be executed as code with eval() and similar APIs.",
+        impact: 'MEDIUM',
+        recommendation: "Remove 'unsafe-eval' and refactor code that relies on eval(), new Function() or string timers."
+      });
+    }
+    const broad = sources.filter(v => v === '*' || v === 'http:' || v === 'https:' || v === 'data:' || /^(https?:\/\/)?\*$/.test(v));
+    if (broad.length && !strictDynamic) {
+      findings.push({
+        type: 'ERROR',
+        title: 'CSP Allows Scripts From Any Host',
+        description: `script-src contains ${broad.join(', ')}, which allows scripts from arbitrary origins.`,
+        impact: 'HIGH',
+        recommendation: "List specific trusted origins, or use nonces with 'strict-dynamic'."
+      });
+    }
+  }
+
+  const objectSrc = lower(policy.get('object-src') ?? policy.get('default-src'));
+  if (!objectSrc.includes("'none'")) {
+    findings.push({
+      type: 'WARNING',
+      title: "CSP Missing object-src 'none'",
+      description: 'Plugins (<object>, <embed>) are not blocked by the Content-Security-Policy and can be used to bypass script restrictions.',
+      impact: 'MEDIUM',
+      recommendation: "Add object-src 'none' to the policy."
+    });
+  }
+
+  if (!policy.has('base-uri')) {
+    findings.push({
+      type: 'INFO',
+      title: 'CSP Missing base-uri',
+      description: 'Without base-uri an injected <base> tag can redirect relative script URLs to another host.',
+      impact: 'LOW',
+      recommendation: "Add base-uri 'none' or base-uri 'self'."
+    });
+  }
+
+  return findings;
+}
+
+// ---------- Cookies ----------
+
+interface CookieFlags {
+  name: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: string;
+}
+
+function parseSetCookie(header: string): CookieFlags[] {
+  // Puppeteer joins repeated headers with newlines
+  return header.split('\n').filter(Boolean).map(line => {
+    const [pair, ...attrs] = line.split(';').map(p => p.trim());
+    const flags = attrs.map(a => a.toLowerCase());
+    return {
+      name: pair.split('=')[0],
+      secure: flags.includes('secure'),
+      httpOnly: flags.includes('httponly'),
+      sameSite: flags.find(f => f.startsWith('samesite='))?.split('=')[1],
+    };
+  });
+}
+
+const SESSION_COOKIE = /sess|auth|token|sid|login|jwt/i;
+
+// ---------- Checks ----------
+
+function checkHsts(headers: Record<string, string>, isHttps: boolean): Check {
+  const hsts = headers['strict-transport-security'];
+  const findings: Finding[] = [];
+
+  if (!isHttps) {
+    findings.push({
+      type: 'ERROR',
+      title: 'Site Not Served Over HTTPS',
+      description: 'The page was loaded over plain HTTP, so traffic can be read and modified in transit.',
+      impact: 'HIGH',
+      recommendation: 'Serve the site over HTTPS and redirect all HTTP requests to it.'
+    });
+  } else if (!hsts) {
+    findings.push({
+      type: 'WARNING',
+      title: 'Missing Strict-Transport-Security Header',
+      description: 'Without HSTS, browsers may still make a first request over HTTP that can be intercepted or downgraded.',
+      impact: 'MEDIUM',
+      recommendation: 'Send Strict-Transport-Security: max-age=31536000; includeSubDomains once all subdomains support HTTPS.'
+    });
+  } else {
+    const maxAge = parseInt(/max-age=(\d+)/i.exec(hsts)?.[1] ?? '0');
+    if (maxAge < HSTS_MIN_MAX_AGE) {
+      findings.push({
+        type: 'WARNING',
+        title: 'Short HSTS max-age',
+        description: `HSTS max-age is ${maxAge} seconds; at least 180 days (15552000) is recommended.`,
+        impact: 'LOW',
+        recommendation: 'Raise max-age to 31536000 (one year).'
+      });
+    }
+    if (!/includesubdomains/i.test(hsts)) {
+      findings.push({
+        type: 'INFO',
+        title: 'HSTS Does Not Cover Subdomains',
+        description: 'The HSTS policy lacks includeSubDomains, so subdomains can still be reached over HTTP.',
+        impact: 'LOW',
+        recommendation: 'Add includeSubDomains once every subdomain serves HTTPS.'
+      });
+    }
+  }
+
+  return { title: 'HTTPS & HSTS', value: !isHttps ? 'HTTP only' : hsts ?? 'Not set', findings, passDescription: 'HTTPS with a long-lived HSTS policy' };
+}
+
+function checkCsp(headers: Record<string, string>): Check {
+  const csp = headers['content-security-policy'];
+  const reportOnly = headers['content-security-policy-report-only'];
+
+  if (!csp) {
+    return {
+      title: 'Content-Security-Policy',
+      value: reportOnly ? 'Report-only' : 'Not set',
+      findings: [{
+        type: 'WARNING',
+        title: reportOnly ? 'Content-Security-Policy Is Report-Only' : 'Missing Content-Security-Policy',
+        description: reportOnly
+          ? 'A CSP is only sent in report-only mode, so violations are reported but not blocked.'
+          : 'No Content-Security-Policy header is sent, leaving no browser-side defence against XSS.',
+        impact: 'MEDIUM',
+        recommendation: "Enforce a policy with at least script-src, object-src 'none' and base-uri."
+      }],
+      passDescription: ''
+    };
+  }
+
+  return { title: 'Content-Security-Policy', value: `${parseCsp(csp).size} directive(s)`, findings: evaluateCsp(parseCsp(csp)), passDescription: 'Policy restricts scripts, plugins and base URIs' };
+}
+
+function checkFraming(headers: Record<string, string>): Check {
+  const xfo = headers['x-frame-options']?.toUpperCase();
+  const frameAncestors = headers['content-security-policy'] ? parseCsp(headers['content-security-policy']).get('frame-ancestors') : undefined;
+  const protectedByXfo = xfo === 'DENY' || xfo === 'SAMEORIGIN';
+  // `*` or a bare scheme like `https:` lets any site frame the page; browsers then ignore X-Frame-Options
+  const anyAncestor = frameAncestors?.some(source => source === '*' || /^[a-z][a-z0-9+.-]*:$/i.test(source));
+
+  return {
+    title: 'Clickjacking Protection',
+    value: frameAncestors ? `frame-ancestors ${frameAncestors.join(' ')}` : xfo ?? 'Not set',
+    findings: (frameAncestors ? !anyAncestor : protectedByXfo) ? [] : [{
+      type: 'WARNING',
+      title: 'Page Can Be Framed by Other Sites',
+      description: anyAncestor
+        ? `CSP frame-ancestors "${frameAncestors!.join(' ')}" allows any site to embed the page, and it overrides X-Frame-Options.`
+        : xfo
+        ? `X-Frame-Options is "${xfo}", which is not a value browsers enforce, and there is no CSP frame-ancestors.`
+        : 'Neither X-Frame-Options nor CSP frame-ancestors is set, so the page can be embedded for clickjacking.',
+      impact: 'MEDIUM',
+      recommendation: "Send Content-Security-Policy: frame-ancestors 'self' (and X-Frame-Options: SAMEORIGIN for older browsers)."
+    }],
+    passDescription: 'Framing is restricted'
+  };
+}
+
+function checkReferrerPolicy(headers: Record<string, string>): Check {
+  const policy = headers['referrer-policy']?.toLowerCase();
+  // The last recognised value wins when several are listed
+  const effective = policy?.split(',').map(v => v.trim()).filter(Boolean).pop();
+  const leaky = effective === 'unsafe-url' || effective === 'no-referrer-when-downgrade';
+
+  return {
+    title: 'Referrer-Policy',
+    value: policy ?? 'Not set (browser default)',
+    findings: !policy ? [{
+      type: 'INFO',
+      title: 'Missing Referrer-Policy Header',
+      description: 'No Referrer-Policy is set, so the browser default decides how much of the URL other sites receive.',
+      impact: 'LOW',
+      recommendation: 'Send Referrer-Policy: strict-origin-when-cross-origin.'
+    }] : leaky ? [{
+      type: 'WARNING',
+      title: 'Referrer-Policy Leaks Full URLs',
+      description: `Referrer-Policy "${effective}" sends full URLs, including paths and query strings, to other origins.`,
+      impact: 'LOW',
+      recommendation: 'Use strict-origin-when-cross-origin or no-referrer.'
+    }] : [],
+    passDescription: 'Cross-origin referrers are limited'
+  };
+}
+
+function checkPermissionsPolicy(headers: Record<string, string>): Check {
+  const policy = headers['permissions-policy'] ?? headers['feature-policy'];
+  return {
+    title: 'Permissions-Policy',
+    value: policy ? 'Set' : 'Not set',
+    findings: policy ? [] : [{
+      type: 'INFO',
+      title: 'Missing Permissions-Policy Header',
+      description: 'No Permissions-Policy restricts powerful features (camera, microphone, geolocation) for this page and its iframes.',
+      impact: 'LOW',
+      recommendation: 'Send a Permissions-Policy that disables features the site does not use, e.g. camera=(), microphone=(), geolocation=().'
+    }],
+    passDescription: 'Browser features are restricted'
+  };
+}
+
+function checkContentTypeOptions(headers: Record<string, string>): Check {
+  const nosniff = headers['x-content-type-options']?.toLowerCase() === 'nosniff';
+  return {
+    title: 'X-Content-Type-Options',
+    value: headers['x-content-type-options'] ?? 'Not set',
+    findings: nosniff ? [] : [{
+      type: 'INFO',
+      title: 'Missing X-Content-Type-Options: nosniff',
+      description: 'Browsers may MIME-sniff responses and execute files served with the wrong content type.',
+      impact: 'LOW',
+      recommendation: 'Send X-Content-Type-Options: nosniff on all responses.'
+    }],
+    passDescription: 'MIME sniffing disabled'
+  };
+}
+
+function checkCookies(headers: Record<string, string>, isHttps: boolean): Check {
+  const cookies = parseSetCookie(headers['set-cookie'] ?? '');
+  const findings: Finding[] = [];
+  const names = (list: CookieFlags[]) => list.map(c => c.name).join(', ');
+
+  const insecure = isHttps ? cookies.filter(c => !c.secure) : [];
+  if (insecure.length) {
+    findings.push({
+      type: 'WARNING',
+      title: 'Cookies Without Secure Flag',
+      description: `${insecure.length} cookie(s) can be sent over plain HTTP: ${names(insecure)}.`,
+      impact: 'MEDIUM',
+      recommendation: 'Add the Secure attribute to every cookie set on an HTTPS site.'
+    });
+  }
+
+  const scriptable = cookies.filter(c => !c.httpOnly && SESSION_COOKIE.test(c.name));
+  if (scriptable.length) {
+    findings.push({
+      type: 'WARNING',
+      title: 'Session Cookies Readable by JavaScript',
+      description: `Cookie(s) that look like session identifiers lack HttpOnly: ${names(scriptable)}.`,
+      impact: 'MEDIUM',
+      recommendation: 'Set HttpOnly on session and authentication cookies so injected scripts cannot read them.'
+    });
+  }
+
+  const noSameSite = cookies.filter(c => !c.sameSite);
+  if (noSameSite.length) {
+    findings.push({
+      type: 'INFO',
+      title: 'Cookies Without SameSite',
+      description: `${noSameSite.length} cookie(s) rely on the browser's default SameSite behaviour: ${names(noSameSite)}.`,
+      impact: 'LOW',
+      recommendation: 'Set SameSite=Lax (or Strict) explicitly; use SameSite=None; Secure only for cookies needed cross-site.'
+    });
+  }
+
+  return {
+    title: 'Cookie Flags',
+    value: cookies.length ? `${cookies.length} cookie(s) set` : 'No cookies set',
+    findings,
+    passDescription: cookies.length ? 'Cookies use Secure, HttpOnly and SameSite' : 'The page sets no cookies'
+  };
+}
+
+function checkTls(response: HTTPResponse, isHttps: boolean): Check | null {
+  if (!isHttps) return null;
+  const details = response.securityDetails();
+  if (!details) return null;
+
+  const findings: Finding[] = [];
+  const protocol = details.protocol();
+  const daysLeft = Math.floor((details.validTo() * 1000 - Date.now()) / 86_400_000);
+
+  if (/^(SSL|TLS 1(\.0|\.1)?$)/i.test(protocol)) {
+    findings.push({
+      type: 'ERROR',
+      title: 'Outdated TLS Protocol',
+      description: `The connection used ${protocol}, which is deprecated and disabled in modern browsers.`,
+      impact: 'HIGH',
+      recommendation: 'Disable TLS 1.0/1.1 and serve TLS 1.2 and 1.3 only.'
+    });
+  }
+
+  if (daysLeft < CERT_EXPIRY_ERROR_DAYS) {
+    findings.push({
+      type: 'ERROR',
+      title: daysLeft < 0 ? 'TLS Certificate Expired' : 'TLS Certificate Expires Soon',
+      description: daysLeft < 0
+        ? `The certificate for ${details.subjectName()} expired ${-daysLeft} day(s) ago.`
+        : `The certificate for ${details.subjectName()} expires in ${daysLeft} day(s).`,
+      impact: 'HIGH',
+      recommendation: 'Renew the certificate now and automate renewal (e.g. with ACME/Let\'s Encrypt).'
+    });
+  } else if (daysLeft < CERT_EXPIRY_WARNING_DAYS) {
+    findings.push({
+      type: 'WARNING',
+      title: 'TLS Certificate Expires Within 30 Days',
+      description: `The certificate for ${details.subjectName()} expires in ${daysLeft} days.`,
+      impact: 'MEDIUM',
+      recommendation: 'Renew the certificate and check that automated renewal is working.'
+    });
+  }
+
+  return {
+    title: 'TLS Certificate',
+    value: `${protocol}, expires in ${daysLeft} days`,
+    findings,
+    passDescription: `Issued by ${details.issuer()}; modern protocol and not close to expiry`
+  };
+}
+
+/**
+ * Grade the main document's response headers and TLS connection. Runs
+ * outside the page, so it sees what in-page best-practice checks cannot.
+ */
+export function auditSecurity(response: HTTPResponse | null, url: string): SecurityAuditResult | null {
+  if (!response) return null;
+
+  const headers = response.headers();
+  const isHttps = new URL(response.url() || url).protocol === 'https:';
+
+  const checks = [
+    checkHsts(headers, isHttps),
+    checkTls(response, isHttps),
+    checkCsp(headers),
+    checkFraming(headers),
+    checkReferrerPolicy(headers),
+    checkPermissionsPolicy(headers),
+    checkContentTypeOptions(headers),
+    checkCookies(headers, isHttps),
+  ].filter((c): c is Check => !!c);
+
+  const issues: AuditIssue[] = checks.flatMap(c => c.findings.map(f => ({ ...f, category: 'SECURITY' as const })));
+  const score = Math.max(0, 100 - issues.reduce((sum, i) => sum + PENALTY[i.impact], 0));
+
+  const items: CategoryDetail['items'] = checks.map(c => {
+    const status = c.findings.some(f => f.type === 'ERROR') ? 'FAIL' : c.findings.length ? 'WARNING' : 'PASS';
+    return {
+      title: c.title,
+      value: c.value.length > 120 ? `${c.value.slice(0, 117)}...` : c.value,
+      status,
+      description: c.findings.length ? c.findings.map(f => f.title).join('; ') : c.passDescription,
+    };
+  });
+
+  return { score, issues, items };
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { extractLocs } from './sitemap.js';
+
+describe('extractLocs', () => {
+  it('reads plain and CDATA locations and decodes entities', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/</loc></url>
+  <url><LOC> https://example.com/search?q=a&amp;page=2 </LOC></url>
+  <url><loc><![CDATA[https://example.com/cdata]]></loc></url>
+</urlset>`;
+    expect(extractLocs(xml)).toEqual([
+      'https://example.com/',
+      'https://example.com/search?q=a&page=2',
+      'https://example.com/cdata',
+    ]);
+  });
+
+  it('returns nothing for documents without locations', () => {
+    expect(extractLocs('<html><body>Not found</body></html>')).toEqual([]);
+  });
+});
@@ -0,0 +1,225 @@
+// services/sitemap.ts
+import { promisify } from 'node:util';
+import { gunzip } from 'node:zlib';
+import type { SitemapInfo } from '../types/audit.js';
+import { readUpTo, safeFetch } from './urlSafety.js';
+
+const gunzipAsync = promisify(gunzip);
+
+const SITEMAP_TIMEOUT = 10_000;
+const MAX_CHILD_SITEMAPS = 10;
+
+// Limits from the sitemaps.org protocol
+const MAX_SITEMAP_URLS = 50_000;
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Collect page URLs from a site's sitemap(s). Follows one level of sitemap
+ * index files and stops once `limit` URLs have been gathered or `signal`
+ * aborts. Network and parse failures are logged and yield whatever was
+ * collected so far.
+ */
+export async function fetchSitemapUrls(siteUrl: string, limit: number, signal?: AbortSignal): Promise<string[]> {
+  const root = new URL('/sitemap.xml', siteUrl).toString();
+  const urls: string[] = [];
+
+  const rootXml = await fetchXml(root, signal);
+  if (!rootXml) return urls;
+
+  if (/<sitemapindex[\s>]/i.test(rootXml)) {
+    const children = extractLocs(rootXml).slice(0, MAX_CHILD_SITEMAPS);
+    for (const child of children) {
+      if (urls.length >= limit || signal?.aborted) break;
+      const xml = await fetchXml(child, signal);
+      if (xml) urls.push(...extractLocs(xml));
+    }
+  } else {
+    urls.push(...extractLocs(rootXml));
+  }
+
+  console.log(`[sitemap] ${root}: ${urls.length} url(s)`);
+  return urls.slice(0, limit);
+}
+
+export function extractLocs(xml: string): string[] {
+  const locs: string[] = [];
+  const re = /<loc>\s*(?:<!\[CDATA\[)?\s*([^<\]]+?)\s*(?:\]\]>)?\s*<\/loc>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xml))) {
+    locs.push(decodeXmlEntities(m[1]));
+  }
+  return locs;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+async function fetchXml(url: string, signal?: AbortSignal): Promise<string | null> {
+  const result = await fetchSitemapDocument(url, signal);
+  if (result.xml !== undefined) return result.xml;
+  console.warn(`[sitemap] ${url}: ${result.error}`);
+  return null;
+}
+
+async function fetchSitemapDocument(url: string, signal?: AbortSignal): Promise<{ status?: number; xml?: string; error?: string }> {
+  try {
+    const timeout = AbortSignal.timeout(SITEMAP_TIMEOUT);
+    const res = await safeFetch(url, { signal: signal ? AbortSignal.any([timeout, signal]) : timeout });
+    if (!res.ok) {
+      await res.body?.cancel().catch(() => { /* ignore */ });
+      return { status: res.status, error: `returned HTTP ${res.status}` };
+    }
+    let body = await readUpTo(res, MAX_SITEMAP_BYTES);
+    if (body.length > MAX_SITEMAP_BYTES) return { status: res.status, error: 'is larger than 50 MB' };
+    // .xml.gz sitemaps arrive as gzip bytes unless the server also set Content-Encoding
+    if (body[0] === 0x1f && body[1] === 0x8b) {
+      try {
+        body = await gunzipAsync(body, { maxOutputLength: MAX_SITEMAP_BYTES });
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') return { status: res.status, error: 'is larger than 50 MB uncompressed' };
+        throw e;
+      }
+    }
+    return { status: res.status, xml: body.toString('utf8') };
+  } catch (e) {
+    return { error: `failed to fetch: ${(e as Error).message}` };
+  }
+}
+
+// W3C Datetime as required for <lastmod>: YYYY, YYYY-MM, YYYY-MM-DD or a full timestamp with zone
+const W3C_DATETIME = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/;
+
+export interface SitemapAlternate {
+  hreflang: string;
+  href: string;
+}
+
+// <xhtml:link rel="alternate" hreflang="…" href="…"/> inside a <url> block
+function extractAlternates(block: string): SitemapAlternate[] {
+  const alternates: SitemapAlternate[] = [];
+  for (const tag of block.match(/<(?:[a-z]+:)?link\b[^>]*>/gi) ?? []) {
+    const attr = (name: string) => tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'))?.slice(1).find(v => v !== undefined);
+    const hreflang = attr('hreflang');
+    const href = attr('href');
+    if (attr('rel')?.toLowerCase() === 'alternate' && hreflang && href) {
+      alternates.push({ hreflang: hreflang.trim(), href: decodeXmlEntities(href.trim()) });
+    }
+  }
+  return alternates;
+}
+
+function inspectUrlset(
+  xml: string,
+  sitemapUrl: string,
+  info: SitemapInfo,
+  alternates: Map<string, SitemapAlternate[]>
+): string[] {
+  const blocks = xml.match(/<url[\s>][\s\S]*?<\/url>/gi) ?? [];
+  const locs: string[] = [];
+  const lastmod = { latest: undefined as string | undefined, missing: 0, invalid: 0 };
+  let foreign = 0;
+  let relative = 0;
+  const host = new URL(sitemapUrl).host;
+
+  for (const block of blocks) {
+    const loc = extractLocs(block)[0];
+    if (loc) {
+      try {
+        // Sitemap URLs must be absolute and on the sitemap's own host
+        if (new URL(loc).host !== host) foreign++;
+        locs.push(loc);
+        const links = extractAlternates(block);
+        if (links.length) alternates.set(loc, links);
+      } catch {
+        relative++;
+      }
+    }
+    const mod = block.match(/<lastmod>\s*([^<]+?)\s*<\/lastmod>/i)?.[1];
+    if (!mod) lastmod.missing++;
+    else if (!W3C_DATETIME.test(mod) || Number.isNaN(Date.parse(mod))) lastmod.invalid++;
+    else if (!lastmod.latest || Date.parse(mod) > Date.parse(lastmod.latest)) lastmod.latest = mod;
+  }
+
+  info.entries = blocks.length;
+  info.lastmod = lastmod;
+  if (blocks.length === 0) info.errors.push('Contains no <url> entries');
+  if (blocks.length > MAX_SITEMAP_URLS) info.errors.push(`Lists ${blocks.length} URLs; the limit is ${MAX_SITEMAP_URLS}`);
+  if (blocks.length - locs.length - relative > 0) info.errors.push(`${blocks.length - locs.length - relative} <url> entries have no <loc>`);
+  if (relative) info.errors.push(`${relative} <loc> value(s) are not absolute URLs`);
+  if (foreign) info.errors.push(`${foreign} URL(s) are on a different host than the sitemap`);
+  if (lastmod.invalid) info.errors.push(`${lastmod.invalid} <lastmod> value(s) are not valid W3C dates`);
+  if (lastmod.latest && Date.parse(lastmod.latest) > Date.now() + 86_400_000) info.errors.push(`<lastmod> ${lastmod.latest} is in the future`);
+  return locs;
+}
+
+/**
+ * Fetch and validate sitemaps: type, entry count, lastmod quality and
+ * protocol violations. Index files are followed one level deep, and no new
+ * sitemap is fetched once `signal` aborts. Returns one record per sitemap
+ * (children after their index), the page URLs seen and any hreflang
+ * alternates declared for them.
+ */
+export async function inspectSitemaps(
+  roots: Array<{ url: string; source: 'robots' | 'default' }>,
+  signal?: AbortSignal
+): Promise<{ sitemaps: SitemapInfo[]; pageUrls: Set<string>; alternates: Map<string, SitemapAlternate[]> }> {
+  const sitemaps: SitemapInfo[] = [];
+  const pageUrls = new Set<string>();
+  const alternates = new Map<string, SitemapAlternate[]>();
+
+  const inspect = async (url: string, source: SitemapInfo['source'], allowIndex: boolean): Promise<string[]> => {
+    const info: SitemapInfo = { url, source, type: 'invalid', entries: 0, errors: [] };
+    sitemaps.push(info);
+
+    const doc = await fetchSitemapDocument(url, signal);
+    info.status = doc.status;
+    if (doc.xml === undefined) {
+      info.errors.push(`Sitemap ${doc.error}`);
+      return [];
+    }
+
+    if (/<sitemapindex[\s>]/i.test(doc.xml)) {
+      info.type = 'index';
+      const children = extractLocs(doc.xml);
+      info.entries = children.length;
+      if (children.length === 0) info.errors.push('Sitemap index lists no sitemaps');
+      if (!allowIndex) {
+        info.errors.push('Sitemap index files cannot be nested');
+        return [];
+      }
+      return children;
+    }
+    if (/<urlset[\s>]/i.test(doc.xml)) {
+      info.type = 'urlset';
+      for (const loc of inspectUrlset(doc.xml, url, info, alternates)) pageUrls.add(loc);
+      return [];
+    }
+    info.errors.push('Not a sitemap: no <urlset> or <sitemapindex> root element');
+    return [];
+  };
+
+  let skipped = 0;
+  for (const root of roots) {
+    if (signal?.aborted) {
+      skipped++;
+      continue;
+    }
+    const children = (await inspect(root.url, root.source, true)).slice(0, MAX_CHILD_SITEMAPS);
+    for (const [i, child] of children.entries()) {
+      if (signal?.aborted) {
+        skipped += children.length - i;
+        break;
+      }
+      await inspect(child, 'index', false);
+    }
+  }
+
+  console.log(`[sitemap] inspected ${sitemaps.length} sitemap(s), ${pageUrls.size} url(s)${skipped ? `, ${skipped} skipped` : ''}`);
+  return { sitemaps, pageUrls, alternates };
+}
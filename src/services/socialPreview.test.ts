@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { imageDimensions } from './socialPreview.js';
+
+function png(width: number, height: number): Buffer {
+  const buf = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(buf);
+  buf.writeUInt32BE(13, 8);
+  buf.write('IHDR', 12, 'ascii');
+  buf.writeUInt32BE(width, 16);
+  buf.writeUInt32BE(height, 20);
+  return buf;
+}
+
+function webp(chunk: 'VP8 ' | 'VP8L' | 'VP8X', write: (buf: Buffer) => void): Buffer {
+  const buf = Buffer.alloc(40);
+  buf.write('RIFF', 0, 'ascii');
+  buf.writeUInt32LE(32, 4);
+  buf.write('WEBP', 8, 'ascii');
+  buf.write(chunk, 12, 'ascii');
+  write(buf);
+  return buf;
+}
+
+// A JPEG segment: marker, big-endian length (which counts itself) and payload
+function segment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+describe('imageDimensions', () => {
+  it('reads PNG and GIF headers', () => {
+    expect(imageDimensions(png(1200, 630))).toEqual({ width: 1200, height: 630 });
+
+    const gif = Buffer.from('GIF89a\0\0\0\0', 'ascii');
+    gif.writeUInt16LE(600, 6);
+    gif.writeUInt16LE(314, 8);
+    expect(imageDimensions(gif)).toEqual({ width: 600, height: 314 });
+  });
+
+  it('reads lossy, lossless and extended WebP headers', () => {
+    expect(imageDimensions(webp('VP8 ', buf => {
+      buf.writeUInt16LE(1200, 26);
+      buf.writeUInt16LE(630, 28);
+    }))).toEqual({ width: 1200, height: 630 });
+
+    expect(imageDimensions(webp('VP8L', buf => {
+      buf[20] = 0x2f;
+      buf.writeUInt32LE((1199 & 0x3fff) | ((629 & 0x3fff) << 14), 21);
+    }))).toEqual({ width: 1200, height: 630 });
+
+    expect(imageDimensions(webp('VP8X', buf => {
+      buf.writeUIntLE(4095, 24, 3);
+      buf.writeUIntLE(2047, 27, 3);
+    }))).toEqual({ width: 4096, height: 2048 });
+  });
+
+  it('walks JPEG segments to the start-of-frame marker', () => {
+    const jpeg = Buffer.from([
+      0xff, 0xd8,
+      ...segment(0xe0, Array.from(Buffer.from('JFIF\0\x01\x01\0\0\x01\0\x01\0\0', 'latin1'))),
+      // Huffman tables use a marker inside the SOF range but carry no size
+      ...segment(0xc4, [0x00, 0x01, 0x02]),
+      ...segment(0xc2, [8, 630 >> 8, 630 & 0xff, 1200 >> 8, 1200 & 0xff, 3, 0, 0, 0]),
+    ]);
+    expect(imageDimensions(jpeg)).toEqual({ width: 1200, height: 630 });
+  });
+
+  it('returns null for unknown or truncated data', () => {
+    expect(imageDimensions(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+    expect(imageDimensions(png(1, 1).subarray(0, 20))).toBeNull();
+    expect(imageDimensions(Buffer.from([0xff, 0xd8, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00]))).toBeNull();
+    expect(imageDimensions(Buffer.alloc(0))).toBeNull();
+  });
+});
@@ -0,0 +1,452 @@
+// services/socialPreview.ts
+import type { Page } from 'puppeteer';
+import type { AuditIssue, CategoryDetail, ShareImage, SocialCard, SocialPreview } from '../types/audit.js';
+import { normalizeCrawlUrl } from './crawler.js';
+import { guardPageRequests, readUpTo, safeFetch } from './urlSafety.js';
+
+export interface SocialAuditResult {
+  preview: SocialPreview;
+  issues: AuditIssue[];
+  items: CategoryDetail['items'];
+}
+
+interface PageTags {
+  meta: Record<string, string>;
+  title: string;
+  description?: string;
+  canonical?: string;
+}
+
+type Finding = Omit<AuditIssue, 'category'>;
+
+const IMAGE_TIMEOUT = 10_000;
+// Facebook rejects share images over 8 MB, X over 5 MB
+const FACEBOOK_MAX_BYTES = 8 * 1024 * 1024;
+const X_MAX_BYTES = 5 * 1024 * 1024;
+// Smallest images each network will show at all
+const MIN_SIZE = {
+  facebook: { width: 200, height: 200, network: 'Facebook' },
+  xLarge: { width: 300, height: 157, network: 'X' },
+  xSummary: { width: 144, height: 144, network: 'X' },
+};
+const LARGE_RATIO = 1.91;
+// Only a plain image type may go into the data: URIs the preview cards load
+const IMAGE_MIME = /^image\/[\w.+-]+$/;
+const X_CARD_TYPES = new Set(['summary', 'summary_large_image', 'app', 'player']);
+
+// ---------- Image probing ----------
+
+/** Width/height from the header bytes of a PNG, GIF, JPEG or WebP file. */
+export function imageDimensions(buf: Buffer): { width: number; height: number } | null {
+  if (buf.length >= 24 && buf.readUInt32BE(0) === 0x89504e47) {
+    return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+  }
+  if (buf.length >= 10 && buf.toString('ascii', 0, 4) === 'GIF8') {
+    return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+  }
+  if (buf.length >= 30 && buf.toString('ascii', 0, 4) === 'RIFF' && buf.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = buf.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ') return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+    if (chunk === 'VP8L') {
+      const bits = buf.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 };
+    return null;
+  }
+  if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+    // Walk the JPEG segments to the first start-of-frame marker
+    let offset = 2;
+    while (offset + 9 < buf.length) {
+      if (buf[offset] !== 0xff) return null;
+      const marker = buf[offset + 1];
+      const length = buf.readUInt16BE(offset + 2);
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: buf.readUInt16BE(offset + 7), height: buf.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+  return null;
+}
+
+/** Fetch a share image like a crawler would and measure it; the bytes are kept for rendering. */
+async function probeImage(url: string, userAgent?: string): Promise<{ info: ShareImage; body?: Buffer }> {
+  const info: ShareImage = { url };
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), IMAGE_TIMEOUT);
+  try {
+    const res = await safeFetch(url, { signal: ctrl.signal, headers: userAgent ? { 'User-Agent': userAgent } : undefined });
+    info.status = res.status;
+    info.contentType = res.headers.get('content-type')?.split(';')[0].trim().toLowerCase() || undefined;
+    if (!res.ok) {
+      await res.body?.cancel().catch(() => { /* ignore */ });
+      return { info };
+    }
+    const body = await readUpTo(res, FACEBOOK_MAX_BYTES);
+    info.bytes = Number(res.headers.get('content-length')) || body.length;
+    const dims = imageDimensions(body);
+    if (dims) Object.assign(info, dims);
+    return { info, body: body.length <= FACEBOOK_MAX_BYTES ? body : undefined };
+  } catch (e) {
+    info.error = (e as Error).name === 'AbortError' ? 'timeout' : (e as Error).message;
+    return { info };
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+// ---------- Tags and cards ----------
+
+async function readTags(page: Page): Promise<PageTags> {
+  return page.evaluate(() => {
+    const meta: Record<string, string> = {};
+    for (const el of Array.from(document.querySelectorAll('meta[property], meta[name]'))) {
+      const key = (el.getAttribute('property') || el.getAttribute('name') || '').toLowerCase();
+      // First value wins, as with the Facebook and X crawlers
+      if ((key.startsWith('og:') || key.startsWith('twitter:')) && !(key in meta)) meta[key] = (el.getAttribute('content') || '').trim();
+    }
+    return {
+      meta,
+      title: document.title.trim(),
+      description: document.querySelector('meta[name="description"]')?.getAttribute('content')?.trim() || undefined,
+      canonical: (document.querySelector('link[rel="canonical"]') as HTMLLinkElement | null)?.href || undefined,
+    };
+  }).catch(() => ({ meta: {}, title: '' }));
+}
+
+function absolute(url: string | undefined, base: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url, base).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/** What each network would show, including the fallbacks it applies when a tag is missing. */
+function resolveCards(tags: PageTags, pageUrl: string): SocialPreview['cards'] {
+  const m = tags.meta;
+  const domain = hostOf(m['og:url'] || pageUrl);
+  const og: SocialCard = {
+    title: m['og:title'] || tags.title || undefined,
+    description: m['og:description'] || tags.description,
+    image: absolute(m['og:image'] || m['og:image:url'] || m['og:image:secure_url'], pageUrl),
+    domain,
+  };
+  const hasOg = Object.keys(m).some(k => k.startsWith('og:'));
+
+  return {
+    facebook: og,
+    // LinkedIn reads Open Graph too but falls back to the title only
+    linkedin: { ...og, description: m['og:description'] || undefined },
+    x: {
+      title: m['twitter:title'] || og.title,
+      description: m['twitter:description'] || og.description,
+      image: absolute(m['twitter:image'] || m['twitter:image:src'], pageUrl) ?? og.image,
+      domain,
+      cardType: m['twitter:card'] || (hasOg ? 'summary' : undefined),
+    },
+  };
+}
+
+// ---------- Checks ----------
+
+function imageFindings(image: ShareImage, label: string, large: boolean, min: typeof MIN_SIZE.facebook): Finding[] {
+  const findings: Finding[] = [];
+  if (image.error || !image.status || image.status >= 400) {
+    findings.push({
+      type: 'ERROR',
+      title: `${label} Unreachable`,
+      description: `${image.url} ${image.status ? `returned HTTP ${image.status}` : `could not be fetched (${image.error})`}; shares will show no image.`,
+      impact: 'MEDIUM',
+      recommendation: 'Point the tag at a publicly reachable image URL.',
+      urls: [image.url],
+    });
+    return findings;
+  }
+  if (image.contentType && !image.contentType.startsWith('image/')) {
+    findings.push({
+      type: 'ERROR',
+      title: `${label} Is Not an Image`,
+      description: `${image.url} is served as ${image.contentType}.`,
+      impact: 'MEDIUM',
+      recommendation: 'Use a JPEG, PNG, GIF or WebP file served with an image/* Content-Type.',
+      urls: [image.url],
+    });
+    return findings;
+  }
+  if (image.width && image.height) {
+    const ratio = image.width / image.height;
+    if (image.width < min.width || image.height < min.height) {
+      findings.push({
+        type: 'WARNING',
+        title: `${label} Too Small`,
+        description: `The image is ${image.width}×${image.height}px; ${min.network} ignores images under ${min.width}×${min.height}px.`,
+        impact: 'MEDIUM',
+        recommendation: 'Use an image of at least 1200×630px for large link previews.',
+        urls: [image.url],
+      });
+    } else if (large && image.width < 600) {
+      findings.push({
+        type: 'WARNING',
+        title: `${label} Shown as Thumbnail`,
+        description: `At ${image.width}×${image.height}px the image is below the 600px width needed for a large preview.`,
+        impact: 'LOW',
+        recommendation: 'Use an image of at least 1200×630px.',
+        urls: [image.url],
+      });
+    }
+    if (large && Math.abs(ratio - LARGE_RATIO) / LARGE_RATIO > 0.15) {
+      findings.push({
+        type: 'WARNING',
+        title: `${label} Will Be Cropped`,
+        description: `The aspect ratio is ${ratio.toFixed(2)}:1; large previews are displayed at about ${LARGE_RATIO}:1.`,
+        impact: 'LOW',
+        recommendation: 'Crop the image to 1200×630px (1.91:1) so nothing important is cut off.',
+        urls: [image.url],
+      });
+    }
+  }
+  if (image.bytes && image.bytes > X_MAX_BYTES) {
+    findings.push({
+      type: 'WARNING',
+      title: `${label} Too Large`,
+      description: `The image is ${(image.bytes / 1024 / 1024).toFixed(1)} MB; X rejects images over 5 MB and Facebook over 8 MB.`,
+      impact: 'LOW',
+      recommendation: 'Compress the image to well under 5 MB (a few hundred KB is typical).',
+      urls: [image.url],
+    });
+  }
+  return findings;
+}
+
+function tagFindings(tags: PageTags, pageUrl: string, cards: SocialPreview['cards']): Finding[] {
+  const m = tags.meta;
+  const findings: Finding[] = [];
+  const missing = (tag: string, impact: AuditIssue['impact'], fallback: string): void => {
+    if (m[tag]) return;
+    findings.push({
+      type: impact === 'LOW' ? 'INFO' : 'WARNING',
+      title: `Missing ${tag}`,
+      description: `The page has no ${tag} tag; ${fallback}.`,
+      impact,
+      recommendation: `Add <meta property="${tag}" content="…"> to control how the page looks when shared.`,
+    });
+  };
+
+  missing('og:title', 'MEDIUM', tags.title ? 'networks fall back to the <title>' : 'shares will have no title');
+  missing('og:description', 'LOW', tags.description ? 'Facebook falls back to the meta description, LinkedIn shows none' : 'shares will have no description');
+  missing('og:image', 'MEDIUM', cards.x.image ? 'only X will show an image' : 'shares will show no image');
+  missing('og:url', 'LOW', 'shares are attributed to whatever URL was pasted, splitting counts across URL variants');
+  missing('og:type', 'LOW', 'Facebook assumes "website"');
+
+  const ogImage = m['og:image'] || m['og:image:url'];
+  if (ogImage && !/^https?:\/\//i.test(ogImage)) {
+    findings.push({
+      type: 'ERROR',
+      title: 'og:image Is Not an Absolute URL',
+      description: `og:image is "${ogImage}"; Facebook and LinkedIn do not resolve relative URLs.`,
+      impact: 'MEDIUM',
+      recommendation: 'Use the full https:// URL of the image.',
+    });
+  }
+  if (cards.facebook.image && !m['og:image:alt'] && !m['twitter:image:alt']) {
+    findings.push({
+      type: 'INFO',
+      title: 'Share Image Has No Alt Text',
+      description: 'Neither og:image:alt nor twitter:image:alt is set, so screen reader users get no description of the preview image.',
+      impact: 'LOW',
+      recommendation: 'Add og:image:alt (and twitter:image:alt) describing the image.',
+    });
+  }
+
+  if (m['og:url']) {
+    const ogUrl = normalizeCrawlUrl(m['og:url'], pageUrl);
+    const canonical = tags.canonical ? normalizeCrawlUrl(tags.canonical, pageUrl) : null;
+    if (canonical && ogUrl && ogUrl !== canonical) {
+      findings.push({
+        type: 'WARNING',
+        title: 'og:url Does Not Match Canonical URL',
+        description: `og:url is ${ogUrl} but the canonical URL is ${canonical}; likes and shares are counted against og:url.`,
+        impact: 'LOW',
+        recommendation: 'Set og:url to the same URL as <link rel="canonical">.',
+        urls: [ogUrl, canonical],
+      });
+    }
+  }
+
+  const cardType = m['twitter:card'];
+  if (!cardType) {
+    findings.push({
+      type: 'INFO',
+      title: 'Missing twitter:card',
+      description: cards.x.cardType
+        ? 'X falls back to a small "summary" card built from the Open Graph tags.'
+        : 'Without twitter:card or Open Graph tags, X shows a plain link.',
+      impact: 'LOW',
+      recommendation: 'Add <meta name="twitter:card" content="summary_large_image"> for a large image preview on X.',
+    });
+  } else if (!X_CARD_TYPES.has(cardType)) {
+    findings.push({
+      type: 'ERROR',
+      title: 'Invalid twitter:card',
+      description: `twitter:card is "${cardType}"; X only supports summary, summary_large_image, app and player.`,
+      impact: 'LOW',
+      recommendation: 'Use "summary_large_image" or "summary".',
+    });
+  }
+
+  return findings;
+}
+
+// ---------- Rendering ----------
+
+function escapeHtml(value: string | undefined): string {
+  return (value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+function cardsHtml(cards: SocialPreview['cards'], images: Map<string, string>): string {
+  const img = (url: string | undefined, inner = '') => {
+    const src = url && images.get(url);
+    return src ? `<div class="img" style="background-image:url('${escapeHtml(src)}')">${inner}</div>` : `<div class="img empty">No image${inner}</div>`;
+  };
+  const { facebook: fb, linkedin: li, x } = cards;
+  const xLarge = x.cardType === 'summary_large_image';
+
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><style>
+body { margin: 0; padding: 16px; background: #fff; font-family: Helvetica, Arial, sans-serif; }
+.card { width: 500px; margin-bottom: 16px; overflow: hidden; }
+.img { width: 100%; height: 262px; background: #e5e7eb center / cover no-repeat; }
+.empty { display: flex; align-items: center; justify-content: center; color: #9ca3af; font-size: 14px; }
+.clamp { overflow: hidden; display: -webkit-box; -webkit-box-orient: vertical; }
+#facebook { border: 1px solid #dadde1; }
+#facebook .meta { background: #f0f2f5; padding: 10px 12px; border-top: 1px solid #dadde1; }
+#facebook .domain { color: #65676b; font-size: 12px; text-transform: uppercase; }
+#facebook .title { color: #050505; font-size: 16px; font-weight: 600; margin-top: 3px; -webkit-line-clamp: 2; }
+#facebook .desc { color: #65676b; font-size: 14px; margin-top: 3px; -webkit-line-clamp: 1; }
+#linkedin { border-radius: 8px; box-shadow: 0 0 0 1px rgba(0,0,0,.15); }
+#linkedin .meta { padding: 8px 12px; background: #fff; }
+#linkedin .title { color: rgba(0,0,0,.9); font-size: 14px; font-weight: 600; -webkit-line-clamp: 2; }
+#linkedin .domain { color: rgba(0,0,0,.6); font-size: 12px; margin-top: 4px; }
+#x { border: 1px solid #cfd9de; border-radius: 16px; font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, sans-serif; }
+#x.large .img { position: relative; }
+#x.large .domain { position: absolute; left: 12px; bottom: 12px; background: rgba(0,0,0,.77); color: #fff; font-size: 13px; padding: 0 4px; border-radius: 4px; }
+#x.small { display: flex; }
+#x.small .img { width: 130px; height: 130px; flex: none; border-right: 1px solid #cfd9de; }
+#x.small .meta { padding: 12px; }
+#x.small .domain { color: #536471; font-size: 15px; }
+#x.small .title { color: #0f1419; font-size: 15px; -webkit-line-clamp: 1; }
+#x.small .desc { color: #536471; font-size: 15px; -webkit-line-clamp: 2; }
+</style></head><body>
+<div class="card" id="facebook">${img(fb.image)}<div class="meta">
+<div class="domain">${escapeHtml(fb.domain)}</div><div class="title clamp">${escapeHtml(fb.title)}</div><div class="desc clamp">${escapeHtml(fb.description)}</div>
+</div></div>
+<div class="card" id="linkedin">${img(li.image)}<div class="meta">
+<div class="title clamp">${escapeHtml(li.title)}</div><div class="domain">${escapeHtml(li.domain)}</div>
+</div></div>
+${xLarge
+    ? `<div class="card large" id="x">${img(x.image, `<span class="domain">${escapeHtml(x.domain)}</span>`)}</div>`
+    : `<div class="card small" id="x">${img(x.image)}<div class="meta"><div class="domain">${escapeHtml(x.domain)}</div><div class="title clamp">${escapeHtml(x.title)}</div><div class="desc clamp">${escapeHtml(x.description)}</div></div></div>`}
+</body></html>`;
+}
+
+/**
+ * Screenshot mock Facebook, LinkedIn and X cards in a scratch page of the
+ * audit's browser context. Images are inlined as data URIs and every
+ * network request is blocked. Returns base64 JPEGs.
+ */
+async function renderCards(page: Page, cards: SocialPreview['cards'], images: Map<string, string>): Promise<SocialPreview['renders']> {
+  const scratch = await page.browserContext().newPage();
+  try {
+    await guardPageRequests(scratch, { tag: 'social', block: () => true });
+    await scratch.setViewport({ width: 540, height: 1200, deviceScaleFactor: 1 });
+    await scratch.setContent(cardsHtml(cards, images), { waitUntil: 'load', timeout: 15_000 });
+
+    const renders: NonNullable<SocialPreview['renders']> = {};
+    for (const id of ['facebook', 'linkedin', 'x'] as const) {
+      const el = await scratch.$(`#${id}`);
+      if (el) renders[id] = await el.screenshot({ type: 'jpeg', quality: 80, encoding: 'base64' }) as string;
+    }
+    return renders;
+  } finally {
+    await scratch.close().catch(() => { /* ignore */ });
+  }
+}
+
+/**
+ * Validate Open Graph and Twitter Card tags, fetch and measure the share
+ * images, and optionally render preview cards for the report.
+ */
+export async function auditSocialPreview(page: Page, options: { render: boolean; userAgent?: string }): Promise<SocialAuditResult> {
+  const pageUrl = page.url();
+  const tags = await readTags(page);
+  const cards = resolveCards(tags, pageUrl);
+
+  const imageUrls = Array.from(new Set([cards.facebook.image, cards.x.image].filter((u): u is string => !!u)));
+  const probes = await Promise.all(imageUrls.map(url => probeImage(url, options.userAgent)));
+
+  const findings = tagFindings(tags, pageUrl, cards);
+  for (const { info } of probes) {
+    const isOg = info.url === cards.facebook.image;
+    const large = isOg || cards.x.cardType === 'summary_large_image';
+    const min = isOg ? MIN_SIZE.facebook : large ? MIN_SIZE.xLarge : MIN_SIZE.xSummary;
+    findings.push(...imageFindings(info, isOg ? 'Share Image' : 'X Card Image', large, min));
+  }
+
+  const preview: SocialPreview = { tags: tags.meta, cards, images: probes.map(p => p.info) };
+  if (options.render) {
+    const dataUris = new Map<string, string>();
+    for (const { info, body } of probes) {
+      if (body && info.contentType && IMAGE_MIME.test(info.contentType) && info.width) {
+        dataUris.set(info.url, `data:${info.contentType};base64,${body.toString('base64')}`);
+      }
+    }
+    preview.renders = await renderCards(page, cards, dataUris).catch(e => {
+      console.warn('[social] preview rendering failed:', (e as Error).message);
+      return undefined;
+    });
+  }
+
+  const issues = findings.map(f => ({ ...f, category: 'SEO' as const }));
+  const status = (fs: Finding[]): 'PASS' | 'WARNING' | 'FAIL' =>
+    fs.some(f => f.type === 'ERROR') ? 'FAIL' : fs.some(f => f.type === 'WARNING') ? 'WARNING' : 'PASS';
+  const ogFindings = findings.filter(f => /og:/.test(f.title));
+  const imageIssues = findings.filter(f => /Image/.test(f.title));
+  const xFindings = findings.filter(f => /twitter:/.test(f.title));
+  const ogImage = preview.images.find(i => i.url === cards.facebook.image);
+
+  const items: CategoryDetail['items'] = [
+    {
+      title: 'Open Graph Tags',
+      value: ['og:title', 'og:description', 'og:image', 'og:url', 'og:type'].filter(t => tags.meta[t]).length + '/5 present',
+      status: status(ogFindings),
+      description: ogFindings.length ? ogFindings.map(f => f.title).join('; ') : 'Title, description, image, URL and type are set',
+    },
+    {
+      title: 'Share Image',
+      value: ogImage?.width ? `${ogImage.width}×${ogImage.height}px` : ogImage ? 'Not measurable' : 'Missing',
+      status: ogImage ? status(imageIssues) : 'WARNING',
+      description: imageIssues.length
+        ? imageIssues.map(f => f.title).join('; ')
+        : ogImage ? 'Image is reachable and sized for large previews' : 'No og:image; shares show no image',
+    },
+    {
+      title: 'Twitter Card',
+      value: cards.x.cardType ?? 'None',
+      status: status(xFindings),
+      description: xFindings.length ? xFindings.map(f => f.title).join('; ') : `X shows a ${cards.x.cardType} card`,
+    },
+  ];
+
+  console.log(`[social] ${findings.length} finding(s)${preview.renders ? ', previews rendered' : ''}`);
+  return { preview, issues, items };
+}
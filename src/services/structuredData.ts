@@ -0,0 +1,318 @@
+// services/structuredData.ts
+import type { Page } from 'puppeteer';
+import type { AuditIssue, CategoryDetail, StructuredDataItem } from '../types/audit.js';
+
+type Node = Record<string, unknown>;
+
+export interface StructuredDataResult {
+  items: StructuredDataItem[];
+  issues: AuditIssue[];
+  detail: CategoryDetail['items'][number];
+}
+
+interface RawStructuredData {
+  jsonLd: string[];
+  microdata: Node[];
+  rdfa: Node[];
+}
+
+/**
+ * Required and recommended properties per schema.org type, following
+ * Google's rich result documentation. "a|b" is satisfied by either
+ * property. `nested` names the shape used for a property's object value
+ * when that object doesn't declare a type we know.
+ */
+interface Shape {
+  required?: string[];
+  recommended?: string[];
+  nested?: Record<string, string>;
+}
+
+const SHAPES: Record<string, Shape> = {
+  Product: {
+    required: ['name', 'offers|review|aggregateRating'],
+    recommended: ['image', 'description', 'brand', 'sku'],
+    nested: { offers: 'Offer', aggregateRating: 'AggregateRating', review: 'Review', brand: 'Brand' },
+  },
+  Offer: { required: ['price|priceSpecification', 'priceCurrency|priceSpecification'], recommended: ['availability', 'url'] },
+  AggregateOffer: { required: ['lowPrice', 'priceCurrency'], recommended: ['highPrice', 'offerCount'] },
+  AggregateRating: { required: ['ratingValue', 'ratingCount|reviewCount'], recommended: ['bestRating'] },
+  Review: { required: ['author', 'reviewRating'], recommended: ['datePublished'], nested: { author: 'Person', reviewRating: 'Rating' } },
+  Rating: { required: ['ratingValue'] },
+  Brand: { required: ['name'] },
+  Person: { required: ['name'] },
+  Article: {
+    recommended: ['headline', 'image', 'datePublished', 'dateModified', 'author'],
+    nested: { author: 'Person' },
+  },
+  FAQPage: { required: ['mainEntity'], nested: { mainEntity: 'Question' } },
+  Question: { required: ['name', 'acceptedAnswer'], nested: { acceptedAnswer: 'Answer' } },
+  Answer: { required: ['text'] },
+  BreadcrumbList: { required: ['itemListElement'], nested: { itemListElement: 'ListItem' } },
+  ListItem: { required: ['position', 'name|item'] },
+  Organization: { recommended: ['name', 'url', 'logo', 'sameAs'] },
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: ['telephone', 'url', 'image', 'geo', 'openingHoursSpecification|openingHours', 'priceRange'],
+    nested: { address: 'PostalAddress', geo: 'GeoCoordinates' },
+  },
+  PostalAddress: { recommended: ['streetAddress', 'addressLocality', 'postalCode', 'addressCountry'] },
+  GeoCoordinates: { required: ['latitude', 'longitude'] },
+};
+
+// Subtypes validated like their rich result parent
+const ALIASES: Record<string, string> = {
+  NewsArticle: 'Article',
+  BlogPosting: 'Article',
+  Corporation: 'Organization',
+  NGO: 'Organization',
+  OnlineStore: 'Organization',
+  ...Object.fromEntries([
+    'Restaurant', 'CafeOrCoffeeShop', 'Bakery', 'BarOrPub', 'FoodEstablishment', 'Store', 'AutoRepair', 'Dentist',
+    'MedicalBusiness', 'HealthAndBeautyBusiness', 'LegalService', 'ProfessionalService', 'RealEstateAgent',
+    'HomeAndConstructionBusiness', 'LodgingBusiness', 'Hotel',
+  ].map(t => [t, 'LocalBusiness'])),
+};
+
+// Top-level types that produce a rich result; everything else is only listed
+const RICH_RESULTS = new Set(['Product', 'Article', 'FAQPage', 'BreadcrumbList', 'Organization', 'LocalBusiness']);
+
+const DATE_PROPERTIES = new Set(['datePublished', 'dateModified', 'uploadDate', 'startDate', 'endDate', 'priceValidUntil']);
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const MAX_ISSUES = 30;
+
+// ---------- Extraction ----------
+
+async function extractRaw(page: Page): Promise<RawStructuredData> {
+  return page.evaluate(() => {
+    const stripVocab = (t: string) => t.replace(/^(https?:\/\/schema\.org\/|schema:)/, '');
+    const add = (node: Record<string, unknown>, name: string, value: unknown) => {
+      const key = stripVocab(name);
+      const existing = node[key];
+      node[key] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing, value];
+    };
+    const textValue = (el: Element): string => {
+      const tag = el.tagName.toLowerCase();
+      if (el.hasAttribute('content')) return el.getAttribute('content') || '';
+      if (['a', 'area', 'link'].includes(tag)) return (el as HTMLAnchorElement).href || '';
+      if (['img', 'audio', 'video', 'source', 'iframe', 'embed', 'track'].includes(tag)) return (el as HTMLImageElement).src || '';
+      if (tag === 'object') return (el as HTMLObjectElement).data || '';
+      if (tag === 'time') return el.getAttribute('datetime') || (el.textContent || '').trim();
+      if (['data', 'meter'].includes(tag)) return el.getAttribute('value') || '';
+      return (el.textContent || '').trim().replace(/\s+/g, ' ');
+    };
+
+    const readMicrodata = (scope: Element): Record<string, unknown> => {
+      const node: Record<string, unknown> = {
+        '@type': (scope.getAttribute('itemtype') || '').split(/\s+/).filter(Boolean).map(stripVocab),
+      };
+      for (const el of Array.from(scope.querySelectorAll('[itemprop]'))) {
+        // Only direct properties; deeper ones belong to a nested item
+        if (el.parentElement?.closest('[itemscope]') !== scope) continue;
+        const value = el.hasAttribute('itemscope') ? readMicrodata(el) : textValue(el);
+        for (const name of (el.getAttribute('itemprop') || '').split(/\s+/).filter(Boolean)) add(node, name, value);
+      }
+      return node;
+    };
+
+    const readRdfa = (scope: Element): Record<string, unknown> => {
+      const node: Record<string, unknown> = {
+        '@type': (scope.getAttribute('typeof') || '').split(/\s+/).filter(Boolean).map(stripVocab),
+      };
+      for (const el of Array.from(scope.querySelectorAll('[property]'))) {
+        if (el.parentElement?.closest('[typeof]') !== scope) continue;
+        const value = el.hasAttribute('typeof')
+          ? readRdfa(el)
+          : el.getAttribute('resource') || textValue(el);
+        for (const name of (el.getAttribute('property') || '').split(/\s+/).filter(Boolean)) add(node, name, value);
+      }
+      return node;
+    };
+
+    return {
+      jsonLd: Array.from(document.querySelectorAll('script[type="application/ld+json"]')).map(s => s.textContent || ''),
+      microdata: Array.from(document.querySelectorAll('[itemscope]:not([itemprop])')).map(readMicrodata),
+      rdfa: Array.from(document.querySelectorAll('[typeof]:not([property])')).map(readRdfa),
+    };
+  }).catch(() => ({ jsonLd: [], microdata: [], rdfa: [] }));
+}
+
+// ---------- Validation ----------
+
+function typesOf(node: Node): string[] {
+  const raw = node['@type'];
+  const list = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  return list.map(t => String(t).replace(/^(https?:\/\/schema\.org\/|schema:)/, ''));
+}
+
+function shapeNameFor(types: string[]): string | undefined {
+  for (const t of types) {
+    const name = ALIASES[t] ?? t;
+    if (SHAPES[name]) return name;
+  }
+  return undefined;
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.some(isPresent);
+  return true;
+}
+
+function propPath(path: string, prop: string): string {
+  return /^[A-Za-z_@][\w@]*$/.test(prop) ? `${path}.${prop}` : `${path}["${prop}"]`;
+}
+
+interface Finding {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+function validateNode(node: Node, shapeName: string, path: string, findings: Finding[], depth = 0): void {
+  const shape = SHAPES[shapeName];
+  if (!shape || depth > 4) return;
+
+  for (const rule of shape.required ?? []) {
+    const options = rule.split('|');
+    if (!options.some(p => isPresent(node[p]))) {
+      findings.push({
+        severity: 'error',
+        path: propPath(path, options[0]),
+        message: `${shapeName} is missing required property ${options.map(p => `"${p}"`).join(' or ')}`,
+      });
+    }
+  }
+  const missing = (shape.recommended ?? []).filter(rule => !rule.split('|').some(p => isPresent(node[p])));
+  if (missing.length) {
+    findings.push({
+      severity: 'warning',
+      path,
+      message: `${shapeName} is missing recommended ${missing.map(r => `"${r.split('|')[0]}"`).join(', ')}`,
+    });
+  }
+
+  for (const [prop, value] of Object.entries(node)) {
+    if (DATE_PROPERTIES.has(prop) && typeof value === 'string' && !ISO_8601.test(value.trim())) {
+      findings.push({ severity: 'warning', path: propPath(path, prop), message: `"${prop}" value "${value}" is not an ISO 8601 date` });
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((child, i) => {
+      if (!child || typeof child !== 'object') return;
+      const childPath = Array.isArray(value) ? `${propPath(path, prop)}[${i}]` : propPath(path, prop);
+      const childShape = shapeNameFor(typesOf(child as Node)) ?? shape.nested?.[prop];
+      if (childShape) validateNode(child as Node, childShape, childPath, findings, depth + 1);
+    });
+  }
+}
+
+/** Flatten JSON-LD into its top-level nodes: arrays and @graph members each count as one item. */
+function jsonLdNodes(value: unknown, path: string): Array<{ node: Node; path: string }> {
+  if (Array.isArray(value)) return value.flatMap((v, i) => jsonLdNodes(v, `${path}[${i}]`));
+  if (!value || typeof value !== 'object') return [];
+  const node = value as Node;
+  if (Array.isArray(node['@graph'])) return jsonLdNodes(node['@graph'], `${path}["@graph"]`);
+  return [{ node, path }];
+}
+
+function hasSchemaContext(value: unknown): boolean {
+  return /schema\.org/i.test(JSON.stringify((value as Node)?.['@context'] ?? ''));
+}
+
+/**
+ * Extract JSON-LD, Microdata and RDFa from the page and validate items of
+ * the rich result types Google supports against their required and
+ * recommended properties. Findings carry a JSON path into the item.
+ */
+export async function auditStructuredData(page: Page): Promise<StructuredDataResult> {
+  const raw = await extractRaw(page);
+  const items: StructuredDataItem[] = [];
+  const findingsByItem: Finding[][] = [];
+
+  const addItem = (format: StructuredDataItem['format'], node: Node, path: string, preset: Finding[] = []) => {
+    const types = typesOf(node);
+    const shapeName = shapeNameFor(types);
+    const findings = [...preset];
+    const richResult = shapeName && RICH_RESULTS.has(shapeName) ? shapeName : undefined;
+    if (richResult) validateNode(node, richResult, path, findings);
+
+    items.push({
+      format,
+      types,
+      path,
+      richResult,
+      errors: findings.filter(f => f.severity === 'error').map(f => `${f.path}: ${f.message}`),
+      warnings: findings.filter(f => f.severity === 'warning').map(f => `${f.path}: ${f.message}`),
+    });
+    findingsByItem.push(findings);
+  };
+
+  raw.jsonLd.forEach((text, i) => {
+    const path = `jsonld[${i}]`;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      addItem('json-ld', {}, path, [{ severity: 'error', path, message: `JSON-LD block is not valid JSON (${(e as Error).message})` }]);
+      return;
+    }
+    // @context on a wrapping array/graph object applies to every node inside
+    const contextOk = Array.isArray(parsed) ? parsed.every(hasSchemaContext) : hasSchemaContext(parsed);
+    for (const { node, path: nodePath } of jsonLdNodes(parsed, path)) {
+      const preset: Finding[] = contextOk || hasSchemaContext(node)
+        ? []
+        : [{ severity: 'warning', path: `${nodePath}["@context"]`, message: '"@context" is missing or not https://schema.org' }];
+      addItem('json-ld', node, nodePath, preset);
+    }
+  });
+  raw.microdata.forEach((node, i) => addItem('microdata', node, `microdata[${i}]`));
+  raw.rdfa.forEach((node, i) => addItem('rdfa', node, `rdfa[${i}]`));
+
+  const issues: AuditIssue[] = [];
+  findingsByItem.forEach((findings, i) => {
+    const item = items[i];
+    const label = [item.richResult ?? item.types[0], 'Structured Data'].filter(Boolean).join(' ');
+    for (const f of findings) {
+      issues.push({
+        type: f.severity === 'error' ? 'ERROR' : 'WARNING',
+        category: 'SEO',
+        title: f.severity === 'error' ? `Invalid ${label}` : `Incomplete ${label}`,
+        description: `${f.message} (${item.format}).`,
+        impact: f.severity === 'error' ? 'MEDIUM' : 'LOW',
+        path: f.path,
+        recommendation: f.severity === 'error'
+          ? 'Add the missing property; items with errors are not eligible for rich results in Google Search.'
+          : 'Add the recommended properties to improve how the rich result is displayed.',
+      });
+    }
+  });
+  // Errors first so truncation drops the least important findings
+  issues.sort((a, b) => Number(b.type === 'ERROR') - Number(a.type === 'ERROR'));
+
+  const errorCount = items.reduce((n, it) => n + it.errors.length, 0);
+  const warningCount = items.reduce((n, it) => n + it.warnings.length, 0);
+  const rich = Array.from(new Set(items.map(it => it.richResult).filter(Boolean)));
+  if (items.length) console.log(`[structured-data] ${items.length} item(s), ${errorCount} error(s), ${warningCount} warning(s)`);
+
+  return {
+    items,
+    issues: issues.slice(0, MAX_ISSUES),
+    detail: {
+      title: 'Structured Data',
+      value: items.length
+        ? `${items.length} item(s)${rich.length ? `: ${rich.join(', ')}` : ''}`
+        : 'None found',
+      status: errorCount ? 'FAIL' : items.length && !warningCount ? 'PASS' : 'WARNING',
+      description: !items.length
+        ? 'Consider adding schema.org structured data (JSON-LD) to qualify for rich results'
+        : errorCount
+          ? `${errorCount} error(s) and ${warningCount} warning(s) in structured data`
+          : warningCount
+            ? `${warningCount} recommended property warning(s)`
+            : 'Structured data is valid for the detected rich result types',
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import dns from 'node:dns';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { assertSafeUrl, isBlockedAddress, UnsafeUrlError } from './urlSafety.js';
+
+describe('isBlockedAddress', () => {
+  it('blocks private, loopback and metadata IPv4 addresses', () => {
+    for (const ip of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0']) {
+      expect(isBlockedAddress(ip), ip).toBe(true);
+    }
+  });
+
+  it('blocks reserved IPv6 addresses, including NAT64 and IPv4-mapped ones', () => {
+    for (const ip of ['::1', '::', 'fe80::1', 'fd00::1', '64:ff9b::7f00:1', '64:ff9b:1::a9fe:a9fe', '::ffff:127.0.0.1']) {
+      expect(isBlockedAddress(ip), ip).toBe(true);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const ip of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isBlockedAddress(ip), ip).toBe(false);
+    }
+  });
+});
+
+describe('assertSafeUrl', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('rejects non-http schemes and hosts resolving to private addresses', async () => {
+    await expect(assertSafeUrl('file:///etc/passwd')).rejects.toThrow(UnsafeUrlError);
+    await expect(assertSafeUrl('http://[::1]:8080/')).rejects.toThrow('private or reserved');
+
+    vi.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '10.0.0.5', family: 4 }] as never);
+    await expect(assertSafeUrl('https://internal.example/')).rejects.toThrow('10.0.0.5');
+  });
+
+  it('resolves a cached host again once its entry expires', async () => {
+    vi.useFakeTimers();
+    const lookup = vi.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+
+    await assertSafeUrl('https://cached.example/a');
+    await assertSafeUrl('https://cached.example/b');
+    expect(lookup).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(31_000);
+    lookup.mockResolvedValue([{ address: '127.0.0.1', family: 4 }] as never);
+    await expect(assertSafeUrl('https://cached.example/c')).rejects.toThrow('127.0.0.1');
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,213 @@
+// services/urlSafety.ts
+import dns from 'node:dns';
+import net from 'node:net';
+import type { HTTPRequest, Page } from 'puppeteer';
+import { config } from '../config/index.js';
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+// Loopback, private, link-local (incl. cloud metadata), CGNAT, documentation,
+// benchmarking, multicast and reserved ranges. IPv4-mapped IPv6 addresses are
+// matched against the IPv4 rules by BlockList itself.
+const RESERVED = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.88.99.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  RESERVED.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const) {
+  RESERVED.addSubnet(network, prefix, 'ipv6');
+}
+
+const DNS_CACHE_TTL_MS = 30_000;
+// A crawl touches every host its pages load from; keep only the most recent ones
+const DNS_CACHE_MAX_ENTRIES = 1000;
+// Map order doubles as recency: hits are re-inserted, the first key is the least recently used
+const dnsCache = new Map<string, { addresses: string[]; expires: number }>();
+
+interface HostRules {
+  hosts: string[];
+  networks: net.BlockList;
+}
+
+// Entries are host names (`*.example.com` matches subdomains), IPs or CIDRs
+function compileRules(entries: string[]): HostRules {
+  const hosts: string[] = [];
+  const networks = new net.BlockList();
+  for (const raw of entries) {
+    const entry = raw.trim().toLowerCase();
+    if (!entry) continue;
+    const [addr, prefix] = entry.split('/');
+    const family = net.isIP(addr);
+    if (family) {
+      const type = family === 4 ? 'ipv4' : 'ipv6';
+      if (prefix) networks.addSubnet(addr, parseInt(prefix, 10), type);
+      else networks.addAddress(addr, type);
+    } else {
+      hosts.push(entry);
+    }
+  }
+  return { hosts, networks };
+}
+
+const allowRules = compileRules(config.urlSafety.allowlist);
+const denyRules = compileRules(config.urlSafety.denylist);
+
+function matchesHost(rules: HostRules, host: string): boolean {
+  return rules.hosts.some(pattern =>
+    pattern.startsWith('*.') ? host === pattern.slice(2) || host.endsWith(pattern.slice(1)) : host === pattern
+  );
+}
+
+function matchesAddress(rules: HostRules | net.BlockList, ip: string): boolean {
+  const list = rules instanceof net.BlockList ? rules : rules.networks;
+  return list.check(ip, net.isIP(ip) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/** Whether `ip` is loopback, private, link-local or otherwise reserved, i.e. not a public address. */
+export function isBlockedAddress(ip: string): boolean {
+  return matchesAddress(RESERVED, ip);
+}
+
+async function resolveHost(host: string): Promise<string[]> {
+  if (net.isIP(host)) return [host];
+
+  const cached = dnsCache.get(host);
+  if (cached) {
+    dnsCache.delete(host);
+    if (cached.expires > Date.now()) {
+      dnsCache.set(host, cached);
+      return cached.addresses;
+    }
+  }
+
+  const records = await dns.promises.lookup(host, { all: true, verbatim: true });
+  const addresses = records.map(r => r.address);
+  dnsCache.set(host, { addresses, expires: Date.now() + DNS_CACHE_TTL_MS });
+  if (dnsCache.size > DNS_CACHE_MAX_ENTRIES) {
+    dnsCache.delete(dnsCache.keys().next().value!);
+  }
+  return addresses;
+}
+
+/**
+ * Parse `raw` and make sure it may be fetched by the service: http(s) only,
+ * not on the deny list, and – unless allow-listed – every address the host
+ * resolves to must be public. Throws UnsafeUrlError otherwise.
+ */
+export async function assertSafeUrl(raw: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new UnsafeUrlError(`Invalid URL: ${raw}`);
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    throw new UnsafeUrlError('Only http/https allowed');
+  }
+
+  // URL keeps brackets around IPv6 literals
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (matchesHost(denyRules, host)) {
+    throw new UnsafeUrlError(`Host ${host} is not allowed`);
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolveHost(host);
+  } catch (e) {
+    throw new UnsafeUrlError(`Could not resolve ${host}: ${(e as Error).message}`);
+  }
+
+  const hostAllowed = matchesHost(allowRules, host);
+  for (const ip of addresses) {
+    if (matchesAddress(denyRules, ip)) {
+      throw new UnsafeUrlError(`Address ${ip} for ${host} is not allowed`);
+    }
+    if (!hostAllowed && !matchesAddress(allowRules, ip) && isBlockedAddress(ip)) {
+      throw new UnsafeUrlError(`${host} resolves to private or reserved address ${ip}`);
+    }
+  }
+  return url;
+}
+
+/**
+ * fetch() that follows redirects itself so every hop goes through
+ * assertSafeUrl. Accepts the same init as fetch; `redirect` is ignored.
+ */
+export async function safeFetch(raw: string, init: RequestInit = {}, maxRedirects = 5): Promise<Response> {
+  let current = raw;
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    await assertSafeUrl(current);
+    const res = await fetch(current, { ...init, redirect: 'manual' });
+    const location = res.headers.get('location');
+    if (res.status < 300 || res.status >= 400 || !location) return res;
+    current = new URL(location, current).toString();
+  }
+  throw new UnsafeUrlError(`Too many redirects starting at ${raw}`);
+}
+
+/** Read a response body, stopping (and cancelling the stream) once it exceeds `maxBytes`. */
+export async function readUpTo(res: Response, maxBytes: number): Promise<Buffer> {
+  const reader = res.body?.getReader();
+  if (!reader) return Buffer.alloc(0);
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => { /* ignore */ });
+      break;
+    }
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Route every request the page makes (navigations, redirects, subresources)
+ * through assertSafeUrl using a single interception handler. `block` lets
+ * callers add their own filtering (e.g. ad/tracker domains).
+ *
+ * Chrome resolves hosts again after the check, so this narrows DNS-rebinding
+ * windows to the DNS cache TTL rather than closing them completely.
+ */
+export async function guardPageRequests(page: Page, options: { block?: (url: string) => boolean; tag?: string } = {}): Promise<void> {
+  const tag = options.tag || 'url-safety';
+  await page.setRequestInterception(true);
+  page.on('request', (request: HTTPRequest) => {
+    if (request.isInterceptResolutionHandled()) return;
+    const url = request.url();
+
+    // Inline content never leaves the browser
+    if (url.startsWith('data:') || url.startsWith('blob:') || url === 'about:blank') {
+      request.continue().catch(() => { /* page closed */ });
+      return;
+    }
+    if (options.block?.(url)) {
+      request.abort('blockedbyclient').catch(() => { /* page closed */ });
+      return;
+    }
+
+    assertSafeUrl(url)
+      .then(() => request.continue())
+      .catch(err => {
+        if (err instanceof UnsafeUrlError) console.warn(`[${tag}] blocked ${url}: ${err.message}`);
+        return request.abort('blockedbyclient');
+      })
+      .catch(() => { /* page closed */ });
+  });
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { WebVitals } from '../types/audit.js';
+import { rateVital, scoreWebVitals } from './webVitals.js';
+
+const vitals = (overrides: Partial<WebVitals>): WebVitals => ({
+  cumulativeLayoutShift: 0,
+  layoutShiftSources: [],
+  totalBlockingTime: 0,
+  longTasks: 0,
+  ...overrides,
+});
+
+describe('rateVital', () => {
+  it('rates against the good and poor thresholds, inclusive', () => {
+    expect(rateVital('largestContentfulPaint', 2500)).toBe('PASS');
+    expect(rateVital('largestContentfulPaint', 2501)).toBe('WARNING');
+    expect(rateVital('largestContentfulPaint', 4000)).toBe('WARNING');
+    expect(rateVital('largestContentfulPaint', 4001)).toBe('FAIL');
+    expect(rateVital('cumulativeLayoutShift', 0.3)).toBe('FAIL');
+  });
+});
+
+describe('scoreWebVitals', () => {
+  it('scores 100 at or under every good threshold', () => {
+    expect(scoreWebVitals(vitals({ largestContentfulPaint: 1200, firstContentfulPaint: 800 }))).toBe(100);
+  });
+
+  it('scores 50 at the poor threshold and 0 at twice that', () => {
+    expect(scoreWebVitals(vitals({ largestContentfulPaint: 4000, totalBlockingTime: 600, cumulativeLayoutShift: 0.25, firstContentfulPaint: 3000 }))).toBe(50);
+    expect(scoreWebVitals(vitals({ largestContentfulPaint: 8000, totalBlockingTime: 1200, cumulativeLayoutShift: 0.5, firstContentfulPaint: 6000 }))).toBe(0);
+  });
+
+  it('weights only the metrics that were measured', () => {
+    // TBT 0 (weight 30) and CLS 0 (25) score 1; LCP at poor (25) scores 0.5
+    expect(scoreWebVitals(vitals({ largestContentfulPaint: 4000 }))).toBe(Math.round((30 + 25 + 12.5) / 80 * 100));
+  });
+});
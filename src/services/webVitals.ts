@@ -0,0 +1,231 @@
+// services/webVitals.ts
+import type { Page } from 'puppeteer';
+import type { WebVitals } from '../types/audit.js';
+
+// "Good" / "poor" boundaries published at web.dev/vitals
+export const VITALS_THRESHOLDS = {
+  largestContentfulPaint: [2500, 4000],
+  interactionToNextPaint: [200, 500],
+  cumulativeLayoutShift: [0.1, 0.25],
+  firstContentfulPaint: [1800, 3000],
+  timeToFirstByte: [800, 1800],
+  totalBlockingTime: [200, 600],
+} as const;
+
+export type VitalName = keyof typeof VITALS_THRESHOLDS;
+
+const MAX_LAYOUT_SHIFT_SOURCES = 5;
+
+/**
+ * Runs in the page before any of its own scripts. Buffers paint, LCP,
+ * layout-shift, event-timing and long-task entries on window.__auditVitals
+ * so they can be read once the audit is done waiting for the page.
+ */
+function observeVitals(maxSources: number) {
+  const describe = (node: any): string | undefined => {
+    if (!node || node.nodeType !== 1) return undefined;
+    const el = node as Element;
+    const id = el.id ? `#${el.id}` : '';
+    const cls = typeof el.className === 'string' && el.className.trim()
+      ? '.' + el.className.trim().split(/\s+/).slice(0, 2).join('.')
+      : '';
+    return `${el.tagName.toLowerCase()}${id}${cls}`;
+  };
+
+  const state = {
+    fcp: undefined as number | undefined,
+    lcp: undefined as number | undefined,
+    lcpElement: undefined as string | undefined,
+    cls: 0,
+    session: { value: 0, first: 0, last: 0 },
+    shiftSources: {} as Record<string, number>,
+    interactions: {} as Record<number, number>,
+    longTasks: [] as Array<{ start: number; duration: number }>,
+  };
+  (window as any).__auditVitals = state;
+
+  const observe = (type: string, cb: (entry: any) => void, extra: Record<string, unknown> = {}) => {
+    try {
+      new PerformanceObserver(list => list.getEntries().forEach(cb))
+        .observe({ type, buffered: true, ...extra } as PerformanceObserverInit);
+    } catch { /* entry type not supported by this Chrome */ }
+  };
+
+  observe('paint', e => {
+    if (e.name === 'first-contentful-paint') state.fcp = e.startTime;
+  });
+
+  observe('largest-contentful-paint', e => {
+    state.lcp = e.startTime;
+    state.lcpElement = describe(e.element) || e.url || state.lcpElement;
+  });
+
+  // CLS is the largest session window: shifts < 1s apart, window capped at 5s
+  observe('layout-shift', e => {
+    if (e.hadRecentInput) return;
+    const s = state.session;
+    if (s.value && e.startTime - s.last < 1000 && e.startTime - s.first < 5000) {
+      s.value += e.value;
+      s.last = e.startTime;
+    } else {
+      state.session = { value: e.value, first: e.startTime, last: e.startTime };
+    }
+    state.cls = Math.max(state.cls, state.session.value);
+
+    for (const src of e.sources || []) {
+      const key = describe(src.node);
+      if (!key) continue;
+      state.shiftSources[key] = (state.shiftSources[key] || 0) + e.value;
+    }
+    const keys = Object.keys(state.shiftSources);
+    if (keys.length > maxSources * 4) {
+      keys.sort((a, b) => state.shiftSources[b] - state.shiftSources[a])
+        .slice(maxSources)
+        .forEach(k => delete state.shiftSources[k]);
+    }
+  });
+
+  // INP: longest interaction, where an interaction groups its pointer/key events
+  const onEvent = (e: any) => {
+    if (!e.interactionId) return;
+    state.interactions[e.interactionId] = Math.max(state.interactions[e.interactionId] || 0, e.duration);
+  };
+  observe('event', onEvent, { durationThreshold: 16 });
+  observe('first-input', onEvent);
+
+  observe('longtask', e => {
+    state.longTasks.push({ start: e.startTime, duration: e.duration });
+  });
+}
+
+/** Install the observers; call before the first navigation of the page. */
+export async function installWebVitals(page: Page): Promise<void> {
+  await page.evaluateOnNewDocument(observeVitals, MAX_LAYOUT_SHIFT_SOURCES);
+}
+
+/**
+ * Click a non-interactive spot so the page produces an INP sample. Links,
+ * form controls and anything with a click handler role are avoided so the
+ * page does not navigate or change state under the audit.
+ */
+async function simulateInteraction(page: Page): Promise<void> {
+  const point = await page.evaluate(() => {
+    const interactive = 'a,button,input,select,textarea,label,summary,[onclick],[role=button],[role=link],[contenteditable]';
+    const candidates = Array.from(document.querySelectorAll('p,h1,h2,h3,li,span,div')).slice(0, 200);
+    for (const el of candidates) {
+      if (el.closest(interactive) || el.querySelector(interactive)) continue;
+      const r = el.getBoundingClientRect();
+      if (r.width < 20 || r.height < 10 || r.top < 0 || r.bottom > window.innerHeight) continue;
+      return { x: r.left + Math.min(10, r.width / 2), y: r.top + r.height / 2 };
+    }
+    return null;
+  });
+
+  if (point) await page.mouse.click(point.x, point.y);
+  await page.keyboard.press('Shift');
+  // Event timing entries are reported after the next paint
+  await new Promise(resolve => setTimeout(resolve, 500));
+}
+
+/**
+ * Interact with the page once and return the slowest interaction recorded so
+ * far, for INP. Clicking can still trigger page scripts, so call this after
+ * everything that reads the DOM.
+ */
+export async function measureInteraction(page: Page): Promise<number | undefined> {
+  try {
+    await simulateInteraction(page);
+    const interactions = await page.evaluate(() =>
+      Object.values((window as any).__auditVitals?.interactions ?? {}) as number[]);
+    return interactions.length ? Math.max(...interactions) : undefined;
+  } catch (error) {
+    console.warn('[vitals] scripted interaction failed:', (error as Error).message);
+    return undefined;
+  }
+}
+
+/**
+ * Reads the values buffered by installWebVitals. Returns null when the
+ * observers never ran (e.g. the page was not navigated after installing).
+ * INP is only present if the page saw an interaction; see measureInteraction.
+ */
+export async function collectWebVitals(page: Page): Promise<WebVitals | null> {
+  try {
+    const raw = await page.evaluate(() => {
+      const state = (window as any).__auditVitals;
+      if (!state) return null;
+      const nav = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+      return {
+        fcp: state.fcp as number | undefined,
+        lcp: state.lcp as number | undefined,
+        lcpElement: state.lcpElement as string | undefined,
+        cls: state.cls as number,
+        shiftSources: state.shiftSources as Record<string, number>,
+        interactions: Object.values(state.interactions) as number[],
+        longTasks: state.longTasks as Array<{ start: number; duration: number }>,
+        ttfb: nav && nav.responseStart > 0 ? nav.responseStart : undefined,
+      };
+    });
+    if (!raw) return null;
+
+    // Lighthouse-style TBT: blocking time of long tasks after FCP
+    const tbtStart = raw.fcp ?? 0;
+    const totalBlockingTime = raw.longTasks
+      .filter(t => t.start + t.duration > tbtStart)
+      .reduce((sum, t) => sum + Math.max(0, t.duration - 50), 0);
+
+    const round = (v: number | undefined) => (v === undefined ? undefined : Math.round(v));
+
+    return {
+      firstContentfulPaint: round(raw.fcp),
+      largestContentfulPaint: round(raw.lcp),
+      lcpElement: raw.lcpElement,
+      cumulativeLayoutShift: Math.round(raw.cls * 1000) / 1000,
+      layoutShiftSources: Object.entries(raw.shiftSources)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_LAYOUT_SHIFT_SOURCES)
+        .map(([element, score]) => ({ element, score: Math.round(score * 1000) / 1000 })),
+      interactionToNextPaint: raw.interactions.length ? Math.max(...raw.interactions) : undefined,
+      timeToFirstByte: round(raw.ttfb),
+      totalBlockingTime: Math.round(totalBlockingTime),
+      longTasks: raw.longTasks.length,
+    };
+  } catch (error) {
+    console.warn('[vitals] collection failed:', (error as Error).message);
+    return null;
+  }
+}
+
+export function rateVital(name: VitalName, value: number): 'PASS' | 'WARNING' | 'FAIL' {
+  const [good, poor] = VITALS_THRESHOLDS[name];
+  return value <= good ? 'PASS' : value <= poor ? 'WARNING' : 'FAIL';
+}
+
+// Same metric weights Lighthouse 10+ uses, minus Speed Index which we can't measure here
+const SCORE_WEIGHTS: Partial<Record<VitalName, number>> = {
+  largestContentfulPaint: 25,
+  totalBlockingTime: 30,
+  cumulativeLayoutShift: 25,
+  firstContentfulPaint: 10,
+};
+
+/**
+ * Performance score from locally measured vitals, used when neither PSI nor
+ * Lighthouse produced one. Each metric scores 100 at the "good" threshold,
+ * 50 at "poor" and falls to 0 at twice the "poor" value.
+ */
+export function scoreWebVitals(vitals: WebVitals): number | null {
+  let total = 0;
+  let weights = 0;
+  for (const [name, weight] of Object.entries(SCORE_WEIGHTS) as Array<[VitalName, number]>) {
+    const value = vitals[name];
+    if (value === undefined) continue;
+    const [good, poor] = VITALS_THRESHOLDS[name];
+    const score = value <= good ? 1
+      : value <= poor ? 1 - 0.5 * (value - good) / (poor - good)
+      : Math.max(0, 0.5 - 0.5 * (value - poor) / poor);
+    total += score * weight;
+    weights += weight;
+  }
+  return weights === 0 ? null : Math.round((total / weights) * 100);
+}
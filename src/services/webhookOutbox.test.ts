@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config/index.js';
+import { WebhookOutbox, type DeliveryRecord, type OutboxOptions } from './webhookOutbox.js';
+
+const OPTIONS: OutboxOptions = { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 40, timeoutMs: 1_000, retentionMs: 60 * 60 * 1000 };
+const JOB_ID = '0b5d6c1e-8f3a-4c2b-9d7e-1a2b3c4d5e6f';
+const secret = config.apiClients.find(c => c.id === 'default')?.webhookSecret || config.webhookSecret;
+
+// Answers each POST with the next status, repeating the last one
+function receiver(...statuses: number[]) {
+  const fetchMock = vi.fn(async (_url: string | URL | Request, _init?: RequestInit) =>
+    new Response('', { status: statuses.length > 1 ? statuses.shift()! : statuses[0] }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('WebhookOutbox', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    for (const level of ['log', 'warn', 'error'] as const) vi.spyOn(console, level).mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('signs the delivery timestamp together with the payload', async () => {
+    const fetchMock = receiver(200);
+    const outbox = new WebhookOutbox(null, OPTIONS);
+    await outbox.enqueue(JOB_ID, 'https://app.example.com/callback', { jobId: JOB_ID, status: 'COMPLETED' });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    const { headers, body } = fetchMock.mock.calls[0][1]!;
+    const h = headers as Record<string, string>;
+    const expected = crypto.createHmac('sha256', secret).update(`${h['X-Delivery-Timestamp']}.${body}`).digest('hex');
+    expect(h['X-Signature']).toBe(`sha256=${expected}`);
+    expect(h['X-Delivery-Attempt']).toBe('1');
+  });
+
+  it('retries server errors with backoff until the receiver accepts', async () => {
+    const fetchMock = receiver(503, 500, 200);
+    const outbox = new WebhookOutbox(null, OPTIONS);
+    const delivery = await outbox.enqueue(JOB_ID, 'https://app.example.com/callback', { ok: true });
+
+    await vi.waitFor(() => expect(outbox.get(delivery.deliveryId)?.status).toBe('DELIVERED'));
+    const record = outbox.get(delivery.deliveryId)!;
+    expect(record.attempts.map(a => a.statusCode)).toEqual([503, 500, 200]);
+    expect(record.payload).toBeUndefined();
+    expect(fetchMock.mock.calls.map(([, init]) => (init!.headers as Record<string, string>)['X-Delivery-Id']))
+      .toEqual(Array(3).fill(delivery.deliveryId));
+  });
+
+  it('dead-letters after the attempt budget or a permanent 4xx, and replays with a fresh budget', async () => {
+    receiver(500);
+    const outbox = new WebhookOutbox(null, OPTIONS);
+    const exhausted = await outbox.enqueue(JOB_ID, 'https://app.example.com/callback', { ok: true });
+    await vi.waitFor(() => expect(outbox.get(exhausted.deliveryId)?.status).toBe('FAILED'));
+    expect(outbox.get(exhausted.deliveryId)!.attempts).toHaveLength(3);
+
+    receiver(400);
+    const rejected = await outbox.enqueue(JOB_ID, 'https://app.example.com/callback', { ok: true });
+    await vi.waitFor(() => expect(outbox.get(rejected.deliveryId)?.status).toBe('FAILED'));
+    expect(outbox.get(rejected.deliveryId)!.attempts).toHaveLength(1);
+
+    receiver(200);
+    expect(await outbox.replay(exhausted.deliveryId)).toBeNull();
+    const replayed = await outbox.replay(exhausted.deliveryId, { ok: true });
+    expect(replayed).toMatchObject({ status: 'DELIVERED', cycleStart: 3 });
+    expect(replayed!.attempts).toHaveLength(4);
+  });
+
+  it('resumes pending deliveries from the log after a restart', async () => {
+    const file = path.join(dir, 'deliveries.jsonl');
+    const now = new Date().toISOString();
+    const pending: DeliveryRecord = {
+      deliveryId: crypto.randomUUID(), jobId: JOB_ID, url: 'https://app.example.com/callback', payload: '{"ok":true}',
+      status: 'PENDING', attempts: [], cycleStart: 0, nextAttemptAt: now, createdAt: now, updatedAt: now,
+    };
+    // An older snapshot of the same delivery and a torn line are both superseded
+    await fs.promises.writeFile(file, `${JSON.stringify({ ...pending, url: 'https://old.example.com/' })}\n${JSON.stringify(pending)}\n{"deliv`);
+
+    const fetchMock = receiver(200);
+    const outbox = new WebhookOutbox(file, OPTIONS);
+    await vi.waitFor(() => expect(outbox.get(pending.deliveryId)?.status).toBe('DELIVERED'));
+    expect(fetchMock.mock.calls[0][0]).toBe('https://app.example.com/callback');
+
+    const reloaded = new WebhookOutbox(file, OPTIONS);
+    await reloaded.ready;
+    expect(reloaded.list({ status: 'DELIVERED' }).map(d => d.deliveryId)).toEqual([pending.deliveryId]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
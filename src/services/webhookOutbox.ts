@@ -0,0 +1,345 @@
+// services/webhookOutbox.ts
+import crypto from 'crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { config } from '../config/index.js';
+import { DEFAULT_CLIENT_ID, getApiClient, isOwnedBy } from './apiClients.js';
+import { webhookAttempts, webhookDeliveries } from './metrics.js';
+
+export type DeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+export interface DeliveryAttempt {
+  attempt: number;
+  at: string;
+  durationMs: number;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface DeliveryRecord {
+  deliveryId: string;
+  jobId: string;
+  /** API client whose webhook secret signs this delivery; secrets themselves are never persisted. */
+  clientId?: string;
+  url: string;
+  /**
+   * Serialized JSON body, sent byte-for-byte on every attempt so signatures stay stable.
+   * Dropped once the delivery is DELIVERED or FAILED; a replay rebuilds it from the stored job.
+   */
+  payload?: string;
+  status: DeliveryStatus;
+  attempts: DeliveryAttempt[];
+  /** Index into `attempts` where the current retry cycle began; a replay starts a new cycle. */
+  cycleStart: number;
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// How often expired deliveries are dropped and the log is compacted
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface OutboxOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+  retentionMs: number;
+}
+
+/**
+ * Durable outbox for job callbacks. Every delivery is retried with
+ * exponential backoff until the receiver answers 2xx or the attempt budget is
+ * spent, at which point it stays in the log as FAILED (dead letter) until
+ * replayed. When `filePath` is null deliveries only live in memory.
+ * Finished deliveries older than `retentionMs` are swept out hourly, and the
+ * log is rewritten to one line per delivery at the same time.
+ *
+ * Each request carries idempotency headers so receivers can drop duplicates:
+ *   X-Delivery-Id         stable across retries and replays
+ *   X-Delivery-Attempt    1-based attempt number
+ *   X-Delivery-Timestamp  unix seconds when the attempt was sent
+ * X-Signature covers `<X-Delivery-Timestamp>.<payload>`, so receivers can
+ * reject stale or replayed deliveries.
+ */
+export class WebhookOutbox {
+  private readonly deliveries = new Map<string, DeliveryRecord>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly inFlight = new Set<string>();
+  private writeChain: Promise<void> = Promise.resolve();
+  readonly ready: Promise<void>;
+
+  constructor(
+    private readonly filePath: string | null,
+    private readonly options: OutboxOptions
+  ) {
+    this.ready = this.load().catch(err => {
+      console.error('[outbox] failed to load delivery log:', (err as Error).message);
+    });
+    setInterval(() => {
+      this.ready.then(() => this.sweep()).catch(err =>
+        console.error('[outbox] sweep failed:', (err as Error).message));
+    }, SWEEP_INTERVAL_MS).unref();
+  }
+
+  async enqueue(jobId: string, url: string, body: unknown, clientId?: string): Promise<DeliveryRecord> {
+    await this.ready;
+    const now = new Date().toISOString();
+    const record: DeliveryRecord = {
+      deliveryId: crypto.randomUUID(),
+      jobId,
+      clientId,
+      url,
+      payload: JSON.stringify(body),
+      status: 'PENDING',
+      attempts: [],
+      cycleStart: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.deliveries.set(record.deliveryId, record);
+    await this.persist(record);
+
+    console.log(`[outbox] queued delivery ${record.deliveryId} for job ${jobId} → ${url}`);
+    this.schedule(record, 0);
+    return record;
+  }
+
+  list(filter: { status?: DeliveryStatus; jobId?: string; clientId?: string } = {}): DeliveryRecord[] {
+    return Array.from(this.deliveries.values())
+      .filter(d => (!filter.status || d.status === filter.status) && (!filter.jobId || d.jobId === filter.jobId))
+      .filter(d => !filter.clientId || isOwnedBy(d.clientId, filter.clientId))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  get(deliveryId: string): DeliveryRecord | null {
+    return this.deliveries.get(deliveryId) || null;
+  }
+
+  /**
+   * Send a delivery again right away with a fresh retry budget. `body`
+   * replaces a payload dropped when the delivery finished. Returns null for
+   * unknown ids and for deliveries with no payload left to send; a delivery
+   * that is mid-attempt is returned unchanged.
+   */
+  async replay(deliveryId: string, body?: unknown): Promise<DeliveryRecord | null> {
+    await this.ready;
+    const record = this.deliveries.get(deliveryId);
+    if (!record) return null;
+    if (this.inFlight.has(deliveryId)) return record;
+    if (record.payload === undefined) {
+      if (body === undefined) return null;
+      record.payload = JSON.stringify(body);
+    }
+
+    console.log(`[outbox] replaying delivery ${deliveryId} (job ${record.jobId})`);
+    record.status = 'PENDING';
+    record.cycleStart = record.attempts.length;
+    record.nextAttemptAt = new Date().toISOString();
+    record.updatedAt = record.nextAttemptAt;
+    await this.persist(record);
+
+    await this.attempt(record);
+    return record;
+  }
+
+  private schedule(record: DeliveryRecord, delayMs: number): void {
+    const existing = this.timers.get(record.deliveryId);
+    if (existing) clearTimeout(existing);
+
+    const timer = setTimeout(() => {
+      this.timers.delete(record.deliveryId);
+      this.attempt(record).catch(err =>
+        console.error(`[outbox] delivery ${record.deliveryId} crashed:`, (err as Error).message));
+    }, Math.max(0, delayMs));
+    timer.unref();
+    this.timers.set(record.deliveryId, timer);
+  }
+
+  private async attempt(record: DeliveryRecord): Promise<void> {
+    const { payload } = record;
+    if (payload === undefined || this.inFlight.has(record.deliveryId)) return;
+    this.inFlight.add(record.deliveryId);
+
+    const existing = this.timers.get(record.deliveryId);
+    if (existing) {
+      clearTimeout(existing);
+      this.timers.delete(record.deliveryId);
+    }
+
+    try {
+      const attempt = record.attempts.length + 1;
+      const started = Date.now();
+      const result: DeliveryAttempt = { attempt, at: new Date(started).toISOString(), durationMs: 0 };
+
+      const controller = new AbortController();
+      const t = setTimeout(() => controller.abort(), this.options.timeoutMs);
+      try {
+        const resp = await fetch(record.url, {
+          method: 'POST',
+          headers: this.headers(record, payload, attempt, started),
+          body: payload,
+          signal: controller.signal,
+        });
+        result.statusCode = resp.status;
+        if (!resp.ok) {
+          const text = await resp.text().catch(() => '');
+          result.error = `HTTP ${resp.status} ${resp.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`;
+        }
+      } catch (e) {
+        result.error = (e as Error).name === 'AbortError'
+          ? `timeout after ${this.options.timeoutMs}ms`
+          : (e as Error).message;
+      } finally {
+        clearTimeout(t);
+      }
+
+      result.durationMs = Date.now() - started;
+      record.attempts.push(result);
+      record.updatedAt = new Date().toISOString();
+
+      webhookAttempts.inc({ result: result.error ? 'failure' : 'success' });
+
+      const attemptsThisCycle = record.attempts.length - record.cycleStart;
+      if (!result.error) {
+        webhookDeliveries.inc({ status: 'delivered' });
+        record.status = 'DELIVERED';
+        record.nextAttemptAt = undefined;
+        record.payload = undefined;
+        console.log(`[outbox] delivery ${record.deliveryId} ok (attempt ${attempt}, ${result.statusCode})`);
+      } else if (attemptsThisCycle >= this.options.maxAttempts || this.isPermanentFailure(result.statusCode)) {
+        webhookDeliveries.inc({ status: 'dead_lettered' });
+        record.status = 'FAILED';
+        record.nextAttemptAt = undefined;
+        record.payload = undefined;
+        console.error(`[outbox] delivery ${record.deliveryId} for job ${record.jobId} dead-lettered after attempt ${attempt}: ${result.error}`);
+      } else {
+        const delay = this.backoff(attemptsThisCycle);
+        record.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+        console.warn(`[outbox] delivery ${record.deliveryId} attempt ${attempt} failed (${result.error}) – retrying in ${Math.round(delay / 1000)}s`);
+        this.schedule(record, delay);
+      }
+
+      await this.persist(record);
+    } finally {
+      this.inFlight.delete(record.deliveryId);
+    }
+  }
+
+  private headers(record: DeliveryRecord, payload: string, attempt: number, sentAt: number): Record<string, string> {
+    const client = getApiClient(record.clientId);
+    const secret = client?.webhookSecret || config.webhookSecret;
+    const timestamp = String(Math.floor(sentAt / 1000));
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+    return {
+      'Content-Type': 'application/json',
+      'X-Signature': `sha256=${signature}`,
+      // The shared API key only goes to the legacy single-tenant receiver
+      ...((client?.id ?? DEFAULT_CLIENT_ID) === DEFAULT_CLIENT_ID && { 'X-API-Key': config.apiKey }),
+      'X-Client-Id': client?.id ?? DEFAULT_CLIENT_ID,
+      'X-Delivery-Id': record.deliveryId,
+      'X-Delivery-Attempt': String(attempt),
+      'X-Delivery-Timestamp': timestamp,
+    };
+  }
+
+  // 4xx means the receiver rejected the payload itself; retrying won't help (except timeouts/rate limits)
+  private isPermanentFailure(statusCode?: number): boolean {
+    return statusCode !== undefined && statusCode >= 400 && statusCode < 500 && statusCode !== 408 && statusCode !== 429;
+  }
+
+  // base * 2^(n-1), capped, with ±20% jitter so a recovering receiver isn't hit all at once
+  private backoff(attemptsThisCycle: number): number {
+    const raw = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (attemptsThisCycle - 1));
+    return Math.round(raw * (0.8 + Math.random() * 0.4));
+  }
+
+  private async load(): Promise<void> {
+    if (!this.filePath) return;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let raw = '';
+    try {
+      raw = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+    }
+
+    // Each line is a full snapshot of one delivery; the last one wins
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as DeliveryRecord;
+        this.deliveries.set(record.deliveryId, record);
+      } catch {
+        // torn line after a crash
+      }
+    }
+
+    this.prune();
+    await this.compact();
+
+    // Resume deliveries that were pending when the process stopped
+    let resumed = 0;
+    for (const record of this.deliveries.values()) {
+      if (record.status !== 'PENDING') continue;
+      const due = record.nextAttemptAt ? Date.parse(record.nextAttemptAt) - Date.now() : 0;
+      this.schedule(record, due);
+      resumed++;
+    }
+    console.log(`[outbox] loaded ${this.deliveries.size} delivery record(s), resumed ${resumed} pending`);
+  }
+
+  private async sweep(): Promise<void> {
+    const dropped = this.prune();
+    await this.compact();
+    if (dropped) console.log(`[outbox] dropped ${dropped} expired delivery record(s)`);
+  }
+
+  private prune(): number {
+    const cutoff = Date.now() - this.options.retentionMs;
+    let dropped = 0;
+    for (const [id, record] of this.deliveries) {
+      if (record.status !== 'PENDING' && Date.parse(record.updatedAt) < cutoff) {
+        this.deliveries.delete(id);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  private compact(): Promise<void> {
+    if (!this.filePath) return Promise.resolve();
+    return this.enqueueWrite(async () => {
+      // Snapshot inside the write chain so appends queued before it are not lost
+      const lines = Array.from(this.deliveries.values()).map(r => JSON.stringify(r) + '\n').join('');
+      const tmp = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tmp, lines);
+      await fs.promises.rename(tmp, this.filePath!);
+    });
+  }
+
+  private persist(record: DeliveryRecord): Promise<void> {
+    if (!this.filePath) return Promise.resolve();
+    const line = JSON.stringify(record) + '\n';
+    return this.enqueueWrite(() => fs.promises.appendFile(this.filePath!, line));
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(write);
+    this.writeChain = next.catch(err => console.error('[outbox] write failed:', (err as Error).message));
+    return next;
+  }
+}
+
+export function createWebhookOutbox(): WebhookOutbox {
+  const { webhooks } = config;
+  return new WebhookOutbox(config.jobStore.driver === 'memory' ? null : webhooks.logPath, {
+    maxAttempts: webhooks.maxAttempts,
+    baseDelayMs: webhooks.retryBaseMs,
+    maxDelayMs: webhooks.retryMaxMs,
+    timeoutMs: webhooks.timeoutMs,
+    retentionMs: config.jobStore.retentionHours * 60 * 60 * 1000,
+  });
+}
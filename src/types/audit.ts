@@ -1,33 +1,300 @@
 // types/audit.ts
+export type IssueCategory = 'PERFORMANCE' | 'SEO' | 'ACCESSIBILITY' | 'BEST_PRACTICES' | 'SECURITY';
+
+export interface AuditIssue {
+  type: 'ERROR' | 'WARNING' | 'INFO';
+  category: IssueCategory;
+  title: string;
+  description: string;
+  impact: 'HIGH' | 'MEDIUM' | 'LOW';
+  element?: string;
+  recommendation: string;
+  // Accessibility findings: WCAG success criteria (e.g. "1.4.3"), failing selectors and rule docs
+  wcag?: string[];
+  selectors?: string[];
+  helpUrl?: string;
+  // Lighthouse opportunities: estimated savings and the resources responsible
+  savings?: { ms?: number; bytes?: number };
+  urls?: string[];
+  // Console errors and uncaught exceptions: how often the same message repeated, and its stack
+  occurrences?: number;
+  stack?: string;
+  // Structured data findings: JSON path of the offending item or property, e.g. jsonld[0].offers.price
+  path?: string;
+}
+
+export interface PageSpeedMetrics {
+  performanceScore?: number;
+  firstContentfulPaint?: number;
+  largestContentfulPaint?: number;
+  cumulativeLayoutShift?: number;
+  speedIndex?: number;
+  totalBlockingTime?: number;
+}
+
+/** One CrUX metric: 75th percentile plus the share of page loads per rating (fractions 0–1). */
+export interface FieldMetric {
+  percentile: number;
+  category: 'FAST' | 'AVERAGE' | 'SLOW';
+  distribution: { good: number; needsImprovement: number; poor: number };
+}
+
+/** Real-user (Chrome UX Report) data as returned by PageSpeed Insights. */
+export interface FieldData {
+  // 'origin' when the URL had too little traffic and CrUX fell back to the whole origin
+  scope: 'url' | 'origin';
+  overallCategory?: FieldMetric['category'];
+  largestContentfulPaint?: FieldMetric;
+  cumulativeLayoutShift?: FieldMetric;
+  interactionToNextPaint?: FieldMetric;
+}
+
+/** Core Web Vitals measured in the audit's own browser. Times are in ms. */
+export interface WebVitals {
+  firstContentfulPaint?: number;
+  largestContentfulPaint?: number;
+  lcpElement?: string;
+  cumulativeLayoutShift: number;
+  // Elements that moved, by their summed layout-shift score
+  layoutShiftSources: Array<{ element: string; score: number }>;
+  // From a scripted click/keypress, so a lab approximation of field INP
+  interactionToNextPaint?: number;
+  timeToFirstByte?: number;
+  totalBlockingTime: number;
+  longTasks: number;
+}
+
+export interface SitemapInfo {
+  url: string;
+  // Where the sitemap was found: a robots.txt Sitemap line, the /sitemap.xml default, or an index file
+  source: 'robots' | 'default' | 'index';
+  type: 'urlset' | 'index' | 'invalid';
+  status?: number;
+  // Page URLs for a urlset, child sitemaps for an index
+  entries: number;
+  lastmod?: { latest?: string; missing: number; invalid: number };
+  errors: string[];
+}
+
+/** One schema.org item found on the page (a JSON-LD node, or a top-level Microdata/RDFa item). */
+export interface StructuredDataItem {
+  format: 'json-ld' | 'microdata' | 'rdfa';
+  types: string[];
+  path: string;
+  // Rich result type the item was validated as; absent for types without rich result rules
+  richResult?: string;
+  // "<path>: <message>" for missing required (errors) and recommended (warnings) properties
+  errors: string[];
+  warnings: string[];
+}
+
+/** A link preview as one network would build it from the page's tags and fallbacks. */
+export interface SocialCard {
+  title?: string;
+  description?: string;
+  image?: string;
+  domain: string;
+}
+
+/** A share image as fetched by the audit. */
+export interface ShareImage {
+  url: string;
+  status?: number;
+  contentType?: string;
+  bytes?: number;
+  width?: number;
+  height?: number;
+  error?: string;
+}
+
+export interface SocialPreview {
+  // og:* and twitter:* meta tags as found on the page
+  tags: Record<string, string>;
+  cards: {
+    facebook: SocialCard;
+    linkedin: SocialCard;
+    x: SocialCard & { cardType?: string };
+  };
+  images: ShareImage[];
+  // Mock preview cards rendered by the audit browser, base64 JPEG
+  renders?: { facebook?: string; linkedin?: string; x?: string };
+}
+
+export interface HreflangAnnotation {
+  hreflang: string;
+  // Absolute URL; `relative` keeps track of hrefs that were not written that way
+  href: string;
+  relative?: boolean;
+  source: 'html' | 'header' | 'sitemap';
+}
+
+/** A language version the page points to, as fetched by the audit. */
+export interface HreflangAlternate {
+  url: string;
+  hreflang: string[];
+  status?: number;
+  // Set when the alternate redirected
+  finalUrl?: string;
+  canonical?: string;
+  // Whether the alternate links back to the audited page; undefined when it couldn't be checked
+  returnLink?: boolean;
+  error?: string;
+}
+
+export interface Hreflang {
+  annotations: HreflangAnnotation[];
+  alternates: HreflangAlternate[];
+  selfReference: boolean;
+  xDefault?: string;
+}
+
+/** One row of the report's network waterfall, in ms from the start of navigation. */
+export interface NetworkRequest {
+  url: string;
+  resourceType: string;
+  mimeType?: string;
+  status: number;
+  protocol?: string;
+  start: number;
+  duration: number;
+  // Bytes over the wire (headers included); 0 when served from a cache
+  transferSize: number;
+  fromCache?: 'memory' | 'disk' | 'service-worker';
+  error?: string;
+}
+
+/** Totals for everything the page loaded; the full HAR is a separate job artifact. */
+export interface NetworkSummary {
+  requests: number;
+  transferSize: number;
+  failed: number;
+  fromCache: number;
+  onContentLoad?: number;
+  onLoad?: number;
+  // The slowest requests (always including the document), ordered by start time
+  waterfall: NetworkRequest[];
+}
+
+export interface RedirectHop {
+  url: string;
+  // HTTP status for server redirects
+  status?: number;
+  type: 'http' | 'refresh-header' | 'meta-refresh' | 'javascript';
+  location: string;
+  // What the hop changed, e.g. "http-to-https", "add-www", "remove-trailing-slash"
+  changes: string[];
+}
+
+/** How the browser got from the requested URL to the page that was audited. */
+export interface RedirectChain {
+  requestedUrl: string;
+  finalUrl: string;
+  finalStatus?: number;
+  hops: RedirectHop[];
+  loop: boolean;
+  canonical?: string;
+}
+
+/** Whether Googlebot may crawl and index the audited URL, and the signals behind the verdict. */
+export interface Indexability {
+  indexable: boolean;
+  // Why the page is not indexable; empty when it is
+  reasons: string[];
+  // Conflicting or risky signals that don't block indexing on their own
+  warnings: string[];
+  robotsTxt: {
+    url: string;
+    status?: number;
+    found: boolean;
+    allowed: boolean;
+    // The allow/disallow line that decided `allowed`
+    matchedRule?: string;
+    error?: string;
+  };
+  // Robots directives from <meta name="robots|googlebot"> and the X-Robots-Tag header
+  directives: { meta: string[]; header: string[] };
+  canonical?: string;
+  sitemaps: SitemapInfo[];
+  // Undefined when no sitemap could be read
+  inSitemap?: boolean;
+}
+
+export interface CategoryDetail {
+  score: number;
+  items: Array<{
+    title: string;
+    value: string | number;
+    status: 'PASS' | 'FAIL' | 'WARNING';
+    description: string;
+  }>;
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  status: 'COMPLETED' | 'FAILED';
+  performanceScore?: number;
+  seoScore?: number;
+  accessibilityScore?: number;
+  bestPracticesScore?: number;
+  securityScore?: number;
+  issues?: AuditIssue[];
+  metrics?: AuditResults['metrics'];
+  error?: string;
+}
+
+/**
+ * Results of a completed audit. This is what AuditService stores, what the
+ * callback carries and what the PDF report renders.
+ */
 export interface AuditResults {
   performanceScore: number;
   seoScore: number;
   accessibilityScore: number;
   bestPracticesScore: number;
+  // Response headers and TLS; absent for results produced before the security category existed
+  securityScore?: number;
   issues: AuditIssue[];
-  metrics: {
-    loadTime: number;
-    cumulativeLayoutShift: number;
+  metrics?: Partial<WebVitals> & {
+    loadTime?: number;
   };
   pageSpeedMetrics?: {
-    performanceScore: number;
-    firstContentfulPaint: number;
-    largestContentfulPaint: number;
-    firstInputDelay: number;
-    cumulativeLayoutShift: number;
-    speedIndex: number;
-    totalBlockingTime: number;
+    source?: 'pagespeed' | 'lighthouse';
+    // PSI only: served fresh from the API, from the response cache, or stale from the cache after a quota/API failure
+    cacheStatus?: 'live' | 'cached' | 'stale';
+    fetchedAt?: string;
+    desktop?: PageSpeedMetrics;
+    mobile?: PageSpeedMetrics;
+  };
+  indexability?: Indexability;
+  redirects?: RedirectChain;
+  network?: NetworkSummary;
+  // Only present when the page declares hreflang alternates
+  hreflang?: Hreflang;
+  structuredData?: StructuredDataItem[];
+  socialPreview?: SocialPreview;
+  // Real-user data from PSI; absent when PSI was not used or CrUX has no data for the site
+  fieldData?: {
+    desktop?: FieldData;
+    mobile?: FieldData;
+  };
+  // Detailed breakdown for each category
+  categoryDetails?: {
+    performance?: CategoryDetail;
+    seo?: CategoryDetail;
+    accessibility?: CategoryDetail;
+    bestPractices?: CategoryDetail;
+    security?: CategoryDetail;
   };
   pagesCrawled: number;
-  screenshots?: string[];
+  // Per-page breakdown when the audit ran in crawl mode
+  pages?: CrawledPage[];
+  screenshot?: string; // base64 encoded
 }
 
-export interface AuditIssue {
-  type: 'ERROR' | 'WARNING' | 'INFO';
-  category: 'PERFORMANCE' | 'SEO' | 'ACCESSIBILITY' | 'BEST_PRACTICES';
-  title: string;
-  description: string;
-  impact: 'HIGH' | 'MEDIUM' | 'LOW';
-  element?: string;
-  recommendation: string;
+export interface AuditResult {
+  jobId: string;
+  status: 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  results?: AuditResults;
+  error?: string;
 }